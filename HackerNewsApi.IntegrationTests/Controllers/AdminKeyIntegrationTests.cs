@@ -0,0 +1,73 @@
+using FluentAssertions;
+using HackerNewsApi.IntegrationTests.Helpers;
+using Microsoft.AspNetCore.Hosting;
+using System.Net;
+
+namespace HackerNewsApi.IntegrationTests.Controllers;
+
+public class AdminKeyIntegrationTests : IClassFixture<TestWebApplicationFactory<Program>>
+{
+    private const string AdminKey = "test-admin-key";
+    private readonly TestWebApplicationFactory<Program> _factory;
+
+    public AdminKeyIntegrationTests(TestWebApplicationFactory<Program> factory)
+    {
+        _factory = factory;
+    }
+
+    [Theory]
+    [InlineData("/api/health/admin", "GET")]
+    [InlineData("/api/health/database/cleanup", "POST")]
+    [InlineData("/api/search/rebuild-index", "POST")]
+    public async Task AdminEndpoints_WithoutConfiguredKey_ShouldReturnNotFound(string url, string method)
+    {
+        var client = _factory.CreateClient();
+
+        var response = await client.SendAsync(new HttpRequestMessage(new HttpMethod(method), url));
+
+        response.StatusCode.Should().Be(HttpStatusCode.NotFound);
+    }
+
+    [Theory]
+    [InlineData("/api/health/database/cleanup")]
+    [InlineData("/api/search/rebuild-index")]
+    public async Task MaintenanceEndpoints_WithWrongKey_ShouldReturnUnauthorized(string url)
+    {
+        var client = CreateClientWithAdminKey();
+        var request = new HttpRequestMessage(HttpMethod.Post, url);
+        request.Headers.Add("X-Admin-Key", "wrong-key");
+
+        var response = await client.SendAsync(request);
+
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task CheckAdminKey_WithoutKey_ShouldReturnUnauthorized()
+    {
+        var client = CreateClientWithAdminKey();
+
+        var response = await client.GetAsync("/api/health/admin");
+
+        response.StatusCode.Should().Be(HttpStatusCode.Unauthorized);
+    }
+
+    [Fact]
+    public async Task CheckAdminKey_WithKey_ShouldReturnOk()
+    {
+        var client = CreateClientWithAdminKey();
+        var request = new HttpRequestMessage(HttpMethod.Get, "/api/health/admin");
+        request.Headers.Add("X-Admin-Key", AdminKey);
+
+        var response = await client.SendAsync(request);
+
+        response.StatusCode.Should().Be(HttpStatusCode.OK);
+    }
+
+    private HttpClient CreateClientWithAdminKey()
+    {
+        return _factory
+            .WithWebHostBuilder(builder => builder.UseSetting("Admin:ApiKey", AdminKey))
+            .CreateClient();
+    }
+}
@@ -1,4 +1,5 @@
 using HackerNewsApi.Infrastructure.Services;
+using HackerNewsApi.WebApi.Filters;
 using Microsoft.AspNetCore.Mvc;
 
 namespace HackerNewsApi.WebApi.Controllers;
@@ -24,6 +25,19 @@ public class HealthController : ControllerBase
         });
     }
 
+    /// <summary>
+    /// Lets the admin page check a key before offering the maintenance actions
+    /// </summary>
+    [HttpGet("admin")]
+    [RequireAdminKey]
+    public IActionResult CheckAdminKey()
+    {
+        return Ok(new {
+            Status = "authorized",
+            Timestamp = DateTime.UtcNow
+        });
+    }
+
     [HttpGet("database")]
     public async Task<IActionResult> GetDatabaseHealth()
     {
@@ -62,6 +76,7 @@ public class HealthController : ControllerBase
     }
 
     [HttpPost("database/cleanup")]
+    [RequireAdminKey]
     public async Task<IActionResult> TriggerDatabaseCleanup()
     {
         try
@@ -1,5 +1,6 @@
 using HackerNewsApi.Core.Interfaces;
 using HackerNewsApi.Core.Models;
+using HackerNewsApi.WebApi.Filters;
 using Microsoft.AspNetCore.Mvc;
 
 namespace HackerNewsApi.WebApi.Controllers;
@@ -103,6 +104,7 @@ public class SearchController : ControllerBase
     /// Rebuild the full-text search index (admin operation)
     /// </summary>
     [HttpPost("rebuild-index")]
+    [RequireAdminKey]
     public async Task<ActionResult> RebuildIndexAsync()
     {
         try
@@ -0,0 +1,34 @@
+using System.Security.Cryptography;
+using System.Text;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Mvc.Filters;
+
+namespace HackerNewsApi.WebApi.Filters;
+
+/// <summary>
+/// Limits an endpoint to callers sending the <c>Admin:ApiKey</c> setting in the
+/// <c>X-Admin-Key</c> header. While no key is configured the endpoint answers 404.
+/// </summary>
+[AttributeUsage(AttributeTargets.Class | AttributeTargets.Method)]
+public class RequireAdminKeyAttribute : Attribute, IAuthorizationFilter
+{
+    public const string HeaderName = "X-Admin-Key";
+    public const string SettingName = "Admin:ApiKey";
+
+    public void OnAuthorization(AuthorizationFilterContext context)
+    {
+        var configuration = context.HttpContext.RequestServices.GetRequiredService<IConfiguration>();
+        var adminKey = configuration[SettingName];
+        if (string.IsNullOrEmpty(adminKey))
+        {
+            context.Result = new NotFoundResult();
+            return;
+        }
+
+        var sentKey = context.HttpContext.Request.Headers[HeaderName].ToString();
+        if (!CryptographicOperations.FixedTimeEquals(Encoding.UTF8.GetBytes(sentKey), Encoding.UTF8.GetBytes(adminKey)))
+        {
+            context.Result = new UnauthorizedResult();
+        }
+    }
+}
@@ -1,14 +1,29 @@
-import { ApplicationConfig, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
+import { ApplicationConfig, isDevMode, provideBrowserGlobalErrorListeners, provideZoneChangeDetection } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
+import { provideServiceWorker } from '@angular/service-worker';
 
 import { routes } from './app.routes';
+import { correlationIdInterceptor } from './interceptors/correlation-id.interceptor';
+import { apiErrorInterceptor } from './interceptors/api-error.interceptor';
+import { retryInterceptor } from './interceptors/retry.interceptor';
+import { timeoutInterceptor } from './interceptors/timeout.interceptor';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideZoneChangeDetection({ eventCoalescing: true }),
     provideRouter(routes),
-    provideHttpClient()
+    // Outermost first: retries share a correlation id and are mapped to an ApiError once they give up
+    provideHttpClient(withInterceptors([
+      correlationIdInterceptor,
+      apiErrorInterceptor,
+      retryInterceptor,
+      timeoutInterceptor
+    ])),
+    provideServiceWorker('ngsw-worker.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000'
+    })
   ]
 };
@@ -1,7 +1,28 @@
 import { Routes } from '@angular/router';
 import { StoryList } from './components/story-list/story-list';
+import { StoryDetail } from './components/story-detail/story-detail';
+import { SavedStories } from './components/saved-stories/saved-stories';
+import { Bookmarks } from './components/bookmarks/bookmarks';
+import { MuteList } from './components/mute-list/mute-list';
+import { Insights } from './components/insights/insights';
+import { Admin } from './components/admin/admin';
+import { AdminSignIn } from './components/admin-sign-in/admin-sign-in';
+import { AuthorProfile } from './components/author-profile/author-profile';
+import { DomainProfile } from './components/domain-profile/domain-profile';
+import { Settings } from './components/settings/settings';
+import { adminGuard } from './guards/admin.guard';
 
 export const routes: Routes = [
   { path: '', component: StoryList },
+  { path: 'story/:id', component: StoryDetail },
+  { path: 'user/:id', component: AuthorProfile },
+  { path: 'domain/:host', component: DomainProfile },
+  { path: 'saved', component: SavedStories },
+  { path: 'bookmarks', component: Bookmarks },
+  { path: 'muted', component: MuteList },
+  { path: 'insights', component: Insights },
+  { path: 'settings', component: Settings },
+  { path: 'admin', component: Admin, canMatch: [adminGuard] },
+  { path: 'admin', component: AdminSignIn },
   { path: '**', redirectTo: '' }
 ];
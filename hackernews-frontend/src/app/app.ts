@@ -1,12 +1,28 @@
-import { Component, signal } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
 import { RouterOutlet } from '@angular/router';
+import { OfflineBanner } from './components/offline-banner/offline-banner';
+import { SavedSearchService } from './services/saved-search.service';
+import { DisplaySettingsService } from './services/display-settings.service';
+import { I18nService } from './services/i18n.service';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [RouterOutlet, OfflineBanner],
   templateUrl: './app.html',
   styleUrl: './app.scss'
 })
 export class App {
   protected readonly title = signal('hackernews-frontend');
+
+  constructor() {
+    // Applies the stored theme, density and language before any page renders
+    inject(DisplaySettingsService);
+    inject(I18nService);
+
+    // Keeps saved search badges current on every page, not just the story list
+    inject(SavedSearchService).startPolling().pipe(
+      takeUntilDestroyed()
+    ).subscribe();
+  }
 }
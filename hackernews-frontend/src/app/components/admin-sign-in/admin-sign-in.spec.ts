@@ -0,0 +1,78 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { AdminSignIn } from './admin-sign-in';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { ApiError } from '../../models/api-error.model';
+
+describe('AdminSignIn', () => {
+  let component: AdminSignIn;
+  let fixture: ComponentFixture<AdminSignIn>;
+  let mockAdminAccess: jasmine.SpyObj<AdminAccessService>;
+  let router: Router;
+
+  const rejected = (status: number): ApiError =>
+    ({ kind: 'client', status, message: `Http failure response: ${status}`, url: '/api/health/admin' });
+
+  beforeEach(async () => {
+    mockAdminAccess = jasmine.createSpyObj('AdminAccessService', ['signIn']);
+    mockAdminAccess.signIn.and.returnValue(of(undefined));
+
+    await TestBed.configureTestingModule({
+      imports: [AdminSignIn],
+      providers: [
+        provideRouter([]),
+        { provide: AdminAccessService, useValue: mockAdminAccess }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AdminSignIn);
+    component = fixture.componentInstance;
+    router = TestBed.inject(Router);
+    spyOn(router, 'navigateByUrl').and.returnValue(Promise.resolve(true));
+    fixture.detectChanges();
+  });
+
+  const submit = (key: string) => {
+    component.form.setValue({ key });
+    fixture.detectChanges();
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.sign-in-button')!.click();
+    fixture.detectChanges();
+  };
+
+  it('should not submit without a key', () => {
+    expect((fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.sign-in-button')!.disabled).toBe(true);
+
+    component.signIn();
+
+    expect(mockAdminAccess.signIn).not.toHaveBeenCalled();
+  });
+
+  it('should open the admin page once the key is accepted', () => {
+    submit(' secret ');
+
+    expect(mockAdminAccess.signIn).toHaveBeenCalledWith('secret');
+    expect(router.navigateByUrl).toHaveBeenCalledWith('/admin', { onSameUrlNavigation: 'reload' });
+  });
+
+  it('should say when the key is wrong', () => {
+    spyOn(console, 'error');
+    mockAdminAccess.signIn.and.returnValue(throwError(() => rejected(401)));
+
+    submit('wrong');
+
+    expect(component.error()).toBe('That admin key was not accepted.');
+    expect((fixture.nativeElement as HTMLElement).querySelector('.error-message')?.textContent)
+      .toContain('not accepted');
+    expect(router.navigateByUrl).not.toHaveBeenCalled();
+  });
+
+  it('should say when the server has no admin key configured', () => {
+    spyOn(console, 'error');
+    mockAdminAccess.signIn.and.returnValue(throwError(() => rejected(404)));
+
+    submit('secret');
+
+    expect(component.error()).toBe('Admin access is turned off on this server.');
+  });
+});
@@ -0,0 +1,82 @@
+import { Component, DestroyRef, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { Router, RouterLink } from '@angular/router';
+import { FormControl, FormGroup, ReactiveFormsModule, Validators } from '@angular/forms';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { I18nService } from '../../services/i18n.service';
+import { isApiError } from '../../models/api-error.model';
+
+/** Shown at `/admin` until an admin key is accepted. */
+@Component({
+  selector: 'app-admin-sign-in',
+  imports: [
+    CommonModule,
+    RouterLink,
+    ReactiveFormsModule,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule
+  ],
+  templateUrl: './admin-sign-in.html',
+  styleUrl: './admin-sign-in.scss'
+})
+export class AdminSignIn {
+  private readonly adminAccess = inject(AdminAccessService);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  protected readonly i18n = inject(I18nService);
+
+  readonly form = new FormGroup({
+    key: new FormControl('', { nonNullable: true, validators: Validators.required })
+  });
+  checking = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  signIn() {
+    const key = this.form.controls.key.value.trim();
+    if (!key || this.checking()) {
+      return;
+    }
+
+    this.checking.set(true);
+    this.error.set(null);
+    this.adminAccess.signIn(key).pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: () => {
+        this.checking.set(false);
+        // Matching `/admin` again now picks the admin page
+        this.router.navigateByUrl('/admin', { onSameUrlNavigation: 'reload' });
+      },
+      error: err => {
+        console.error('Error checking the admin key:', err);
+        this.error.set(this.errorMessage(err));
+        this.checking.set(false);
+      }
+    });
+  }
+
+  private errorMessage(err: unknown): string {
+    if (isApiError(err) && err.kind === 'client' && err.status === 401) {
+      return this.i18n.t('That admin key was not accepted.');
+    }
+    if (isApiError(err) && err.kind === 'client' && err.status === 404) {
+      return this.i18n.t('Admin access is turned off on this server.');
+    }
+    return this.i18n.t('The admin key could not be checked. Try again in a moment.');
+  }
+}
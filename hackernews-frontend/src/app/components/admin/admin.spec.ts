@@ -0,0 +1,264 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Router, provideRouter } from '@angular/router';
+import { MatDialog, MatDialogRef } from '@angular/material/dialog';
+import { of, throwError } from 'rxjs';
+import { Admin } from './admin';
+import { ConfirmDialog } from '../confirm-dialog/confirm-dialog';
+import { AdminService } from '../../services/admin.service';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { DatabaseHealth, MaintenanceResult } from '../../models/admin.model';
+import { ApiError } from '../../models/api-error.model';
+
+describe('Admin', () => {
+  let component: Admin;
+  let fixture: ComponentFixture<Admin>;
+  let mockAdminService: jasmine.SpyObj<AdminService>;
+  let mockAdminAccess: jasmine.SpyObj<AdminAccessService>;
+  let dialogOpen: jasmine.Spy;
+
+  const databaseHealth: DatabaseHealth = {
+    status: 'warning',
+    database: {
+      sizeMB: 650.25,
+      usagePercentage: 81.3,
+      maxSizeMB: 800,
+      storyCount: 120000,
+      oldestStory: '2024-01-01 08:00',
+      newestStory: '2025-03-01 12:30',
+      needsCleanup: true
+    },
+    timestamp: '2025-03-01T12:31:00Z'
+  };
+
+  const cleanupResult: MaintenanceResult = {
+    action: 'cleanup',
+    message: 'Removed 30000 stories, freeing 200 MB.',
+    before: { sizeMB: 650.25, storyCount: 120000 },
+    after: { sizeMB: 450.25, storyCount: 90000 },
+    durationMs: 2500
+  };
+
+  const confirmWith = (confirmed: boolean) =>
+    dialogOpen.and.returnValue({ afterClosed: () => of(confirmed) } as MatDialogRef<ConfirmDialog, boolean>);
+
+  beforeEach(async () => {
+    mockAdminService = jasmine.createSpyObj('AdminService', [
+      'getHealth',
+      'getDatabaseHealth',
+      'cleanupDatabase',
+      'rebuildSearchIndex'
+    ]);
+    mockAdminService.getHealth.and.returnValue(of({ status: 'Healthy', timestamp: '2025-03-01T12:31:00Z', version: '1.0.0' }));
+    mockAdminService.getDatabaseHealth.and.returnValue(of(databaseHealth));
+    mockAdminService.cleanupDatabase.and.returnValue(of(cleanupResult));
+    mockAdminAccess = jasmine.createSpyObj('AdminAccessService', ['signOut']);
+
+    await TestBed.configureTestingModule({
+      imports: [Admin],
+      providers: [
+        provideRouter([]),
+        { provide: AdminService, useValue: mockAdminService },
+        { provide: AdminAccessService, useValue: mockAdminAccess }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(Admin);
+    component = fixture.componentInstance;
+    dialogOpen = spyOn(TestBed.inject(MatDialog), 'open');
+  });
+
+  it('should load API and database health', () => {
+    fixture.detectChanges();
+
+    expect(component.health()?.version).toBe('1.0.0');
+    expect(component.databaseHealth()).toEqual(databaseHealth);
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.oldest-story')?.textContent).toContain('2024-01-01 08:00 UTC');
+    expect(compiled.querySelector('.newest-story')?.textContent).toContain('2025-03-01 12:30 UTC');
+    expect(compiled.querySelector('.cleanup-hint')).toBeTruthy();
+  });
+
+  it('should draw the usage gauge against the size limit', () => {
+    fixture.detectChanges();
+
+    expect(component.gaugeOffset()).toBeCloseTo(component.gaugeCircumference * 0.187, 5);
+    const gauge = (fixture.nativeElement as HTMLElement).querySelector('.usage-gauge');
+    expect(gauge?.classList).toContain('warning');
+    expect(gauge?.getAttribute('aria-label')).toBe('Database usage 81.3% of 800 MB');
+  });
+
+  it('should keep the gauge inside the ring when over the limit', () => {
+    mockAdminService.getDatabaseHealth.and.returnValue(of({
+      ...databaseHealth,
+      database: { ...databaseHealth.database, usagePercentage: 120 }
+    }));
+    fixture.detectChanges();
+
+    expect(component.gaugeOffset()).toBe(0);
+  });
+
+  it('should show the reason the database health check failed', () => {
+    spyOn(console, 'error');
+    mockAdminService.getDatabaseHealth.and.returnValue(throwError(() => new HttpErrorResponse({
+      status: 500,
+      error: { status: 'error', message: 'Database is locked' }
+    })));
+
+    fixture.detectChanges();
+
+    expect(component.databaseError()).toBe('Failed to load database statistics. Database is locked');
+    expect(console.error).toHaveBeenCalledWith('Error loading database health:', jasmine.any(HttpErrorResponse));
+  });
+
+  it('should not clean up unless confirmed', () => {
+    fixture.detectChanges();
+    confirmWith(false);
+
+    component.confirmCleanup();
+
+    expect(dialogOpen).toHaveBeenCalledWith(ConfirmDialog, jasmine.objectContaining({
+      data: jasmine.objectContaining({ confirmLabel: 'Clean up' })
+    }));
+    expect(mockAdminService.cleanupDatabase).not.toHaveBeenCalled();
+  });
+
+  it('should clean up after confirmation and summarize the result', () => {
+    fixture.detectChanges();
+    confirmWith(true);
+
+    component.confirmCleanup();
+    fixture.detectChanges();
+
+    expect(mockAdminService.cleanupDatabase).toHaveBeenCalled();
+    expect(component.lastResult()).toEqual(cleanupResult);
+    expect(component.runningAction()).toBeNull();
+    expect(mockAdminService.getDatabaseHealth).toHaveBeenCalledTimes(2);
+
+    const summary = (fixture.nativeElement as HTMLElement).querySelector('.result-summary');
+    expect(summary?.textContent).toContain('Cleanup finished in 2.5s');
+    expect(summary?.textContent).toContain('-30,000');
+    expect(summary?.textContent).toContain('-200');
+  });
+
+  it('should rebuild the index after confirmation', () => {
+    fixture.detectChanges();
+    confirmWith(true);
+    mockAdminService.rebuildSearchIndex.and.returnValue(of({
+      ...cleanupResult,
+      action: 'rebuild-index',
+      message: 'Search index has been rebuilt successfully'
+    }));
+
+    component.confirmRebuildIndex();
+
+    expect(mockAdminService.rebuildSearchIndex).toHaveBeenCalled();
+    expect(component.lastResult()?.action).toBe('rebuild-index');
+  });
+
+  it('should report a failed action', () => {
+    spyOn(console, 'error');
+    fixture.detectChanges();
+    confirmWith(true);
+    mockAdminService.rebuildSearchIndex.and.returnValue(throwError(() => new HttpErrorResponse({
+      status: 500,
+      error: { error: 'An error occurred while rebuilding the search index' }
+    })));
+
+    component.confirmRebuildIndex();
+
+    expect(component.actionError()).toBe('The index rebuild failed. An error occurred while rebuilding the search index');
+    expect(component.runningAction()).toBeNull();
+  });
+
+  it('should explain a timed out action', () => {
+    spyOn(console, 'error');
+    fixture.detectChanges();
+    confirmWith(true);
+    const timeoutError: ApiError = { kind: 'timeout', timeoutMs: 300000, message: 'No response', url: '/api/health/database/cleanup' };
+    mockAdminService.cleanupDatabase.and.returnValue(throwError(() => timeoutError));
+
+    component.confirmCleanup();
+
+    expect(component.actionError()).toBe('The cleanup failed. No response after 300 seconds.');
+  });
+
+  it('should ask for the key again when the API no longer accepts it', () => {
+    spyOn(console, 'error');
+    const navigateByUrl = spyOn(TestBed.inject(Router), 'navigateByUrl').and.returnValue(Promise.resolve(true));
+    fixture.detectChanges();
+    confirmWith(true);
+    const rejected: ApiError = { kind: 'client', status: 401, message: 'Unauthorized', url: '/api/health/database/cleanup' };
+    mockAdminService.cleanupDatabase.and.returnValue(throwError(() => rejected));
+
+    component.confirmCleanup();
+
+    expect(mockAdminAccess.signOut).toHaveBeenCalled();
+    expect(navigateByUrl).toHaveBeenCalledWith('/admin', { onSameUrlNavigation: 'reload' });
+    expect(component.runningAction()).toBeNull();
+  });
+
+  it('should sign out from the toolbar', () => {
+    const navigateByUrl = spyOn(TestBed.inject(Router), 'navigateByUrl').and.returnValue(Promise.resolve(true));
+    fixture.detectChanges();
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.sign-out-button')!.click();
+
+    expect(mockAdminAccess.signOut).toHaveBeenCalled();
+    expect(navigateByUrl).toHaveBeenCalledWith('/admin', { onSameUrlNavigation: 'reload' });
+  });
+
+  describe('in German', () => {
+    beforeEach(() => {
+      localStorage.removeItem('hn.preferences');
+      TestBed.inject(PreferencesService).update({ locale: 'de' });
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+      document.documentElement.lang = 'en';
+    });
+
+    it('should format numbers for the language shown', () => {
+      fixture.detectChanges();
+      confirmWith(true);
+
+      component.confirmCleanup();
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.database-stats')?.textContent).toContain('650,25 MB');
+      expect(compiled.querySelector('.database-stats')?.textContent).toContain('120.000');
+      expect(compiled.querySelector('.result-summary h3')?.textContent).toContain('Bereinigung nach 2,5 s abgeschlossen');
+      expect(compiled.querySelector('.result-summary')?.textContent).toContain('-30.000');
+    });
+
+    it('should describe the database and ask before a cleanup in the language shown', () => {
+      fixture.detectChanges();
+      confirmWith(false);
+
+      component.confirmCleanup();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.usage-gauge')?.getAttribute('aria-label')).toBe('Datenbank zu 81,3 % von 800 MB belegt');
+      expect(compiled.querySelector('.database-health .status-pill')?.textContent).toContain('Warnung');
+      expect(dialogOpen).toHaveBeenCalledWith(ConfirmDialog, jasmine.objectContaining({
+        data: jasmine.objectContaining({ title: 'Datenbank bereinigen?', confirmLabel: 'Bereinigen' })
+      }));
+    });
+
+    it('should translate errors', () => {
+      spyOn(console, 'error');
+      fixture.detectChanges();
+      confirmWith(true);
+      const timeoutError: ApiError = { kind: 'timeout', timeoutMs: 300000, message: 'No response', url: '/api/health/database/cleanup' };
+      mockAdminService.cleanupDatabase.and.returnValue(throwError(() => timeoutError));
+
+      component.confirmCleanup();
+
+      expect(component.actionError()).toBe('Die Bereinigung ist fehlgeschlagen. Keine Antwort nach 300 Sekunden.');
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { Component, DestroyRef, OnInit, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Router, RouterLink } from '@angular/router';
+import { Observable, filter, switchMap } from 'rxjs';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatDialog } from '@angular/material/dialog';
+import { ConfirmDialog, ConfirmDialogData } from '../confirm-dialog/confirm-dialog';
+import { AdminService } from '../../services/admin.service';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { I18nService } from '../../services/i18n.service';
+import { formatTimeAgo } from '../../utils/story-format';
+import { ApiHealth, DatabaseHealth, MaintenanceAction, MaintenanceResult } from '../../models/admin.model';
+import { ApiError, isApiError } from '../../models/api-error.model';
+
+const GAUGE_RADIUS = 52;
+
+@Component({
+  selector: 'app-admin',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule
+  ],
+  templateUrl: './admin.html',
+  styleUrl: './admin.scss'
+})
+export class Admin implements OnInit {
+  private readonly adminService = inject(AdminService);
+  private readonly adminAccess = inject(AdminAccessService);
+  private readonly router = inject(Router);
+  private readonly dialog = inject(MatDialog);
+  private readonly destroyRef = inject(DestroyRef);
+  protected readonly i18n = inject(I18nService);
+
+  readonly gaugeRadius = GAUGE_RADIUS;
+  readonly gaugeCircumference = 2 * Math.PI * GAUGE_RADIUS;
+
+  health = signal<ApiHealth | null>(null);
+  healthError = signal<string | null>(null);
+  databaseHealth = signal<DatabaseHealth | null>(null);
+  databaseError = signal<string | null>(null);
+  loadingDatabase = signal<boolean>(false);
+  runningAction = signal<MaintenanceAction | null>(null);
+  lastResult = signal<MaintenanceResult | null>(null);
+  actionError = signal<string | null>(null);
+
+  usagePercentage = computed(() => Math.min(Math.max(this.databaseHealth()?.database.usagePercentage ?? 0, 0), 100));
+  /** Stroke offset that leaves the used share of the gauge ring drawn. */
+  gaugeOffset = computed(() => this.gaugeCircumference * (1 - this.usagePercentage() / 100));
+
+  ngOnInit() {
+    this.refresh();
+  }
+
+  refresh() {
+    this.loadHealth();
+    this.loadDatabaseHealth();
+  }
+
+  confirmCleanup() {
+    this.confirmAndRun('cleanup', {
+      title: this.i18n.t('Clean up the database?'),
+      message: this.i18n.t('The oldest stories are deleted until the database is back under its size limit. This cannot be undone.'),
+      confirmLabel: this.i18n.t('Clean up')
+    }, () => this.adminService.cleanupDatabase());
+  }
+
+  confirmRebuildIndex() {
+    this.confirmAndRun('rebuild-index', {
+      title: this.i18n.t('Rebuild the search index?'),
+      message: this.i18n.t('Search results may be incomplete until the rebuild finishes. Large databases can take several minutes.'),
+      confirmLabel: this.i18n.t('Rebuild')
+    }, () => this.adminService.rebuildSearchIndex());
+  }
+
+  /** Forgets the admin key; matching `/admin` again brings back the sign-in page. */
+  signOut() {
+    this.adminAccess.signOut();
+    this.router.navigateByUrl('/admin', { onSameUrlNavigation: 'reload' });
+  }
+
+  /** `yyyy-MM-dd HH:mm` UTC from the API, with how long ago that was. */
+  formatStoryDate(value: string | null): string {
+    if (!value) return this.i18n.t('No stories yet');
+    return `${value} UTC (${formatTimeAgo(value.replace(' ', 'T') + ':00Z', this.i18n.locale())})`;
+  }
+
+  formatChange(before: number, after: number): string {
+    return this.i18n.formatNumber(after - before, { maximumFractionDigits: 2, signDisplay: 'exceptZero' });
+  }
+
+  private loadHealth() {
+    this.healthError.set(null);
+    this.adminService.getHealth().pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: health => this.health.set(health),
+      error: err => {
+        console.error('Error loading API health:', err);
+        this.health.set(null);
+        this.healthError.set(this.errorMessage(err, this.i18n.t('The API is not responding.')));
+      }
+    });
+  }
+
+  private loadDatabaseHealth() {
+    this.loadingDatabase.set(true);
+    this.databaseError.set(null);
+    this.adminService.getDatabaseHealth().pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: health => {
+        this.databaseHealth.set(health);
+        this.loadingDatabase.set(false);
+      },
+      error: err => {
+        console.error('Error loading database health:', err);
+        this.databaseError.set(this.errorMessage(err, this.i18n.t('Failed to load database statistics.')));
+        this.loadingDatabase.set(false);
+      }
+    });
+  }
+
+  private confirmAndRun(action: MaintenanceAction, data: ConfirmDialogData, run: () => Observable<MaintenanceResult>) {
+    this.dialog.open<ConfirmDialog, ConfirmDialogData, boolean>(ConfirmDialog, { data }).afterClosed().pipe(
+      filter(confirmed => confirmed === true),
+      switchMap(() => {
+        this.runningAction.set(action);
+        this.actionError.set(null);
+        return run();
+      }),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: result => {
+        this.lastResult.set(result);
+        this.runningAction.set(null);
+        this.loadDatabaseHealth();
+      },
+      error: err => {
+        console.error(`Error running ${action}:`, err);
+        this.runningAction.set(null);
+        // The key was changed on the server since it was accepted
+        if (isApiError(err) && err.kind === 'client' && err.status === 401) {
+          this.signOut();
+          return;
+        }
+        this.actionError.set(this.errorMessage(err, this.i18n.t(action === 'cleanup' ? 'The cleanup failed.' : 'The index rebuild failed.')));
+      }
+    });
+  }
+
+  /** Adds the reason the API gave, if any, to `fallback`. */
+  private errorMessage(err: unknown, fallback: string): string {
+    if (isApiError(err)) {
+      return this.withDetail(fallback, this.apiErrorDetail(err));
+    }
+    const body = err instanceof HttpErrorResponse ? err.error : null;
+    return this.withDetail(fallback, body?.message ?? body?.error);
+  }
+
+  private apiErrorDetail(err: ApiError): string | undefined {
+    switch (err.kind) {
+      case 'client':
+      case 'server':
+        return err.detail;
+      case 'network':
+        return this.i18n.t('The API could not be reached.');
+      case 'timeout':
+        return this.i18n.t('No response after {seconds} seconds.', { seconds: Math.round(err.timeoutMs / 1000) });
+      case 'parse':
+        return this.i18n.t('The response could not be read.');
+    }
+  }
+
+  private withDetail(fallback: string, detail: unknown): string {
+    return typeof detail === 'string' && detail ? `${fallback} ${detail}` : fallback;
+  }
+}
@@ -0,0 +1,114 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { AuthorProfile, AUTHOR_PAGE_COUNT, AUTHOR_STORIES_SHOWN } from './author-profile';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { INSIGHTS_PAGE_SIZE } from '../../services/insights.service';
+import { SearchSortOrder } from '../../models/story.model';
+import { makeStory } from '../../testing/fixtures';
+
+describe('AuthorProfile', () => {
+  let component: AuthorProfile;
+  let fixture: ComponentFixture<AuthorProfile>;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  const postedAt = (hour: number) => new Date(2025, 2, 1, hour, 0).getTime() / 1000;
+  const stories = [
+    makeStory(1, { by: 'pg', score: 100, url: 'https://paulgraham.com/a', time: postedAt(9), commentCount: 4 }),
+    makeStory(2, { by: 'pg', score: 50, url: 'https://paulgraham.com/b', time: postedAt(9), commentCount: 4 }),
+    makeStory(3, { by: 'pg', score: 30, url: 'https://ycombinator.com', time: postedAt(22), commentCount: 4 })
+  ];
+
+  beforeEach(async () => {
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    mockHackerNewsService.searchStories.and.returnValue(of({ items: stories, page: 1, pageSize: INSIGHTS_PAGE_SIZE }));
+
+    await TestBed.configureTestingModule({
+      imports: [AuthorProfile],
+      providers: [
+        provideRouter([]),
+        { provide: HackerNewsService, useValue: mockHackerNewsService },
+        { provide: ActivatedRoute, useValue: { paramMap: of(convertToParamMap({ id: 'pg' })) } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(AuthorProfile);
+    component = fixture.componentInstance;
+  });
+
+  it('should search for the author from the route', () => {
+    fixture.detectChanges();
+
+    expect(component.author()).toBe('pg');
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+      query: '',
+      page: 1,
+      sortBy: SearchSortOrder.Recent,
+      filters: { authors: ['pg'] }
+    }));
+  });
+
+  it('should total and average the scores', () => {
+    fixture.detectChanges();
+
+    expect(component.totalScore()).toBe(180);
+    expect(component.averageScore()).toBe(60);
+    expect(component.totalComments()).toBe(12);
+    expect(component.truncated()).toBe(false);
+  });
+
+  it('should chart posting hours and most posted domains', () => {
+    fixture.detectChanges();
+
+    expect(component.postingHours()[9].value).toBe(2);
+    expect(component.postingHours()[22].value).toBe(1);
+    expect(component.topDomains().map(datum => [datum.label, datum.value])).toEqual([
+      ['paulgraham.com', 2],
+      ['ycombinator.com', 1]
+    ]);
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.posting-hours button')).toBeNull();
+    expect(compiled.querySelector('.top-domains button.chart-bar')).toBeTruthy();
+  });
+
+  it('should open the author\'s stories on a domain', () => {
+    fixture.detectChanges();
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+
+    component.openDomain(component.topDomains()[0]);
+
+    expect(router.navigate).toHaveBeenCalledWith(['/'], {
+      queryParams: { sortBy: 'Recent', author: 'pg', domain: 'paulgraham.com' }
+    });
+  });
+
+  it('should mark totals as partial when every page was full', () => {
+    mockHackerNewsService.searchStories.and.callFake(query => of({
+      items: Array.from({ length: INSIGHTS_PAGE_SIZE }, (_, i) => makeStory(query.page! * 1000 + i)),
+      page: query.page!,
+      pageSize: INSIGHTS_PAGE_SIZE
+    }));
+
+    fixture.detectChanges();
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(AUTHOR_PAGE_COUNT);
+    expect(component.truncated()).toBe(true);
+    expect(component.visibleStories().length).toBe(AUTHOR_STORIES_SHOWN);
+
+    component.showMoreStories();
+
+    expect(component.visibleStories().length).toBe(2 * AUTHOR_STORIES_SHOWN);
+  });
+
+  it('should show an error when the stories fail to load', () => {
+    spyOn(console, 'error');
+    mockHackerNewsService.searchStories.and.returnValue(throwError(() => new Error('API Error')));
+
+    fixture.detectChanges();
+
+    expect(component.error()).toBe('Failed to load stories by this author. Please try again.');
+    expect(console.error).toHaveBeenCalledWith('Error loading author stories:', jasmine.any(Error));
+  });
+});
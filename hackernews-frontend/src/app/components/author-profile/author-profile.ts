@@ -0,0 +1,128 @@
+import { Component, DestroyRef, OnInit, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { BarChart } from '../bar-chart/bar-chart';
+import { InsightsService, INSIGHTS_PAGE_SIZE } from '../../services/insights.service';
+import { SearchUrlService } from '../../services/search-url.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { getDomainFromUrl } from '../../utils/story-format';
+import { ChartDatum } from '../../models/insights.model';
+import { Story, SearchQuery, SearchSortOrder } from '../../models/story.model';
+
+/** Pages of an author's stories collected for the profile, most recent first. */
+export const AUTHOR_PAGE_COUNT = 4;
+
+/** Stories listed before "Show more". */
+export const AUTHOR_STORIES_SHOWN = 20;
+
+@Component({
+  selector: 'app-author-profile',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    BarChart
+  ],
+  templateUrl: './author-profile.html',
+  styleUrl: './author-profile.scss'
+})
+export class AuthorProfile implements OnInit {
+  private readonly insightsService = inject(InsightsService);
+  private readonly preferencesService = inject(PreferencesService);
+  protected readonly i18n = inject(I18nService);
+  private readonly searchUrlService = inject(SearchUrlService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  private loadSubscription?: Subscription;
+
+  author = signal<string>('');
+  stories = signal<Story[]>([]);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+  storiesShown = signal<number>(AUTHOR_STORIES_SHOWN);
+
+  /** True when the author has more indexed stories than were collected. */
+  truncated = computed(() => this.stories().length >= AUTHOR_PAGE_COUNT * INSIGHTS_PAGE_SIZE);
+  totalScore = computed(() => this.stories().reduce((sum, story) => sum + story.score, 0));
+  averageScore = computed(() => this.stories().length > 0 ? Math.round(this.totalScore() / this.stories().length) : 0);
+  totalComments = computed(() => this.stories().reduce((sum, story) => sum + story.commentCount, 0));
+  postingHours = computed(() => this.insightsService.postingHours(this.stories()));
+  topDomains = computed(() => this.insightsService.summarize(this.stories()).topDomains);
+  visibleStories = computed(() => this.stories().slice(0, this.storiesShown()));
+
+  /** Query params for the author's stories in the story list. */
+  storyListParams = computed(() => this.searchUrlService.toQueryParams(this.authorQuery()));
+
+  ngOnInit() {
+    this.route.paramMap.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(params => {
+      this.author.set(params.get('id') ?? '');
+      this.storiesShown.set(AUTHOR_STORIES_SHOWN);
+      this.loadStories();
+    });
+    this.destroyRef.onDestroy(() => this.loadSubscription?.unsubscribe());
+  }
+
+  loadStories() {
+    this.loadSubscription?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.loadSubscription = this.insightsService.collectStories(this.authorQuery(), AUTHOR_PAGE_COUNT).subscribe({
+      next: stories => {
+        this.stories.set(stories);
+        this.loading.set(false);
+      },
+      error: err => {
+        console.error('Error loading author stories:', err);
+        this.error.set(this.i18n.t('Failed to load stories by this author. Please try again.'));
+        this.stories.set([]);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  showMoreStories() {
+    this.storiesShown.update(shown => shown + AUTHOR_STORIES_SHOWN);
+  }
+
+  /** Opens the story list for the author's stories on the clicked domain. */
+  openDomain(datum: ChartDatum) {
+    const query = this.authorQuery();
+    this.router.navigate(['/'], {
+      queryParams: this.searchUrlService.toQueryParams({ ...query, filters: { ...query.filters, ...datum.filters } })
+    });
+  }
+
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  formatNumber(value: number): string {
+    return this.i18n.formatNumber(value);
+  }
+
+  getDomainFromUrl(url: string | undefined): string {
+    return getDomainFromUrl(url);
+  }
+
+  private authorQuery(): SearchQuery {
+    return { query: '', sortBy: SearchSortOrder.Recent, filters: { authors: [this.author()] } };
+  }
+}
@@ -0,0 +1,80 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { BarChart } from './bar-chart';
+import { ChartDatum } from '../../models/insights.model';
+
+describe('BarChart', () => {
+  let component: BarChart;
+  let fixture: ComponentFixture<BarChart>;
+
+  const data: ChartDatum[] = [
+    { label: 'github.com', value: 4, filters: { domains: ['github.com'] } },
+    { label: 'example.com', value: 1, filters: { domains: ['example.com'] } }
+  ];
+
+  const bars = () => Array.from((fixture.nativeElement as HTMLElement).querySelectorAll<HTMLButtonElement>('.chart-bar'));
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [BarChart]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(BarChart);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('data', data);
+    fixture.detectChanges();
+  });
+
+  it('should size bars relative to the largest value', () => {
+    expect(component.size(data[0])).toBe(100);
+    expect(component.size(data[1])).toBe(25);
+    expect(bars()[1].querySelector<HTMLElement>('.bar-fill')?.style.width).toBe('25%');
+  });
+
+  it('should emit the datum of a clicked bar', () => {
+    const selected = jasmine.createSpy('selected');
+    component.selected.subscribe(selected);
+
+    bars()[1].click();
+
+    expect(selected).toHaveBeenCalledWith(data[1]);
+  });
+
+  it('should label bars for assistive technology', () => {
+    expect(bars()[0].getAttribute('aria-label')).toBe('github.com: 4 stories');
+  });
+
+  it('should label bars with what they count', () => {
+    fixture.componentRef.setInput('units', ['{value} comment per point', '{value} comments per point']);
+    fixture.detectChanges();
+
+    expect(bars()[0].getAttribute('aria-label')).toBe('github.com: 4 comments per point');
+    expect(bars()[1].getAttribute('aria-label')).toBe('example.com: 1 comment per point');
+  });
+
+  it('should draw columns with axis labels for time series', () => {
+    fixture.componentRef.setInput('layout', 'columns');
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelectorAll('.chart-column').length).toBe(2);
+    expect(compiled.querySelector('.column-axis')?.textContent).toContain('github.com');
+    expect(bars()[1].querySelector<HTMLElement>('.bar-fill')?.style.height).toBe('25%');
+  });
+
+  it('should draw static bars that cannot be clicked when not interactive', () => {
+    fixture.componentRef.setInput('interactive', false);
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('button.chart-bar')).toBeNull();
+    expect(compiled.querySelectorAll('.chart-bar.static').length).toBe(2);
+    expect(compiled.querySelector('.chart-bar.static')?.getAttribute('aria-label')).toBe('github.com: 4 stories');
+  });
+
+  it('should say when there is nothing to chart', () => {
+    fixture.componentRef.setInput('data', []);
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.no-data')).toBeTruthy();
+  });
+});
@@ -0,0 +1,46 @@
+import { Component, computed, inject, input, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { I18nService } from '../../services/i18n.service';
+import { ChartDatum } from '../../models/insights.model';
+
+/**
+ * A plain HTML bar chart. Each bar is a button, so charts work with the
+ * keyboard and screen readers and need no charting library.
+ */
+@Component({
+  selector: 'app-bar-chart',
+  imports: [CommonModule, MatTooltipModule],
+  templateUrl: './bar-chart.html',
+  styleUrl: './bar-chart.scss'
+})
+export class BarChart {
+  protected readonly i18n = inject(I18nService);
+
+  data = input.required<ChartDatum[]>();
+  /** `bars` grow sideways with a label on each row; `columns` grow upwards, for time series. */
+  layout = input<'bars' | 'columns'>('bars');
+  /** What a bar counts, for one and for many, with the value as `{value}`; used in each bar's accessible label. */
+  units = input<[string, string]>(['{value} story', '{value} stories']);
+  /** Whether bars are buttons that emit `selected`; off for data that can't be drilled into. */
+  interactive = input<boolean>(true);
+
+  selected = output<ChartDatum>();
+
+  private readonly maxValue = computed(() => Math.max(0, ...this.data().map(datum => datum.value)));
+
+  /** Bar length as a percentage of the largest value. */
+  size(datum: ChartDatum): number {
+    const max = this.maxValue();
+    return max > 0 ? (datum.value / max) * 100 : 0;
+  }
+
+  valueLabel(datum: ChartDatum): string {
+    return datum.valueLabel ?? this.i18n.formatNumber(datum.value);
+  }
+
+  describe(datum: ChartDatum): string {
+    const [one, other] = this.units();
+    return `${datum.label}: ${this.i18n.plural(datum.value, one, other, { value: this.valueLabel(datum) })}`;
+  }
+}
@@ -0,0 +1,129 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { Bookmarks } from './bookmarks';
+import { BookmarkService } from '../../services/bookmark.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { SearchSortOrder } from '../../models/story.model';
+import { makeStory } from '../../testing/fixtures';
+
+describe('Bookmarks', () => {
+  let component: Bookmarks;
+  let fixture: ComponentFixture<Bookmarks>;
+  let bookmarkService: BookmarkService;
+
+  beforeEach(async () => {
+    localStorage.removeItem('hn.bookmarks');
+
+    await TestBed.configureTestingModule({
+      imports: [Bookmarks],
+      providers: [provideRouter([])]
+    }).compileComponents();
+
+    bookmarkService = TestBed.inject(BookmarkService);
+    bookmarkService.add(makeStory(1, { title: 'Rust compiler internals', score: 50, time: 100, commentCount: 1 }));
+    bookmarkService.add(makeStory(2, { title: 'Writing a compiler', by: 'pg', score: 200, time: 300, commentCount: 9 }));
+    bookmarkService.add(makeStory(3, { title: 'Gardening tips', url: 'https://github.com/garden', score: 5, time: 200, commentCount: 3 }));
+
+    fixture = TestBed.createComponent(Bookmarks);
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.bookmarks');
+    localStorage.removeItem('hn.preferences');
+  });
+
+  const visibleIds = () => component.visibleBookmarks().map(bookmark => bookmark.story.id);
+
+  it('should list the most recently bookmarked first by default', () => {
+    expect(visibleIds()).toEqual([3, 2, 1]);
+  });
+
+  it('should filter by title, author and domain', () => {
+    component.filterText.set('compiler');
+    expect(visibleIds()).toEqual([2, 1]);
+
+    component.filterText.set('pg');
+    expect(visibleIds()).toEqual([2]);
+
+    component.filterText.set('github.com');
+    expect(visibleIds()).toEqual([3]);
+  });
+
+  it('should sort by the search sort orders', () => {
+    component.sortBy.set(SearchSortOrder.Score);
+    expect(visibleIds()).toEqual([2, 1, 3]);
+
+    component.sortBy.set(SearchSortOrder.Recent);
+    expect(visibleIds()).toEqual([2, 3, 1]);
+
+    component.sortBy.set(SearchSortOrder.Oldest);
+    expect(visibleIds()).toEqual([1, 3, 2]);
+
+    component.sortBy.set(SearchSortOrder.Comments);
+    expect(visibleIds()).toEqual([2, 3, 1]);
+  });
+
+  it('should rank title matches first when sorting by relevance', () => {
+    component.filterText.set('nichts');
+    bookmarkService.add(makeStory(4, { title: 'Unrelated', by: 'rustacean' }));
+
+    expect(visibleIds()).toEqual([1, 4]);
+  });
+
+  it('should remove a bookmark', () => {
+    component.removeBookmark(2);
+
+    expect(visibleIds()).toEqual([3, 1]);
+    expect(bookmarkService.isBookmarked(2)).toBe(false);
+  });
+
+  it('should import a JSON file and report the result', async () => {
+    const json = JSON.stringify([{ story: makeStory(9), bookmarkedAt: Date.now() }, { story: makeStory(1), bookmarkedAt: 1 }]);
+    const file = new File([json], 'bookmarks.json', { type: 'application/json' });
+
+    await component.onImportFile({ target: { files: [file], value: 'bookmarks.json' } } as unknown as Event);
+
+    expect(bookmarkService.isBookmarked(9)).toBe(true);
+    expect(component.importMessage()).toBe('Imported 1 bookmark, skipped 1.');
+  });
+
+  it('should show an error for an unreadable file', async () => {
+    spyOn(console, 'error');
+    const file = new File(['nope'], 'bookmarks.json');
+
+    await component.onImportFile({ target: { files: [file], value: 'bookmarks.json' } } as unknown as Event);
+
+    expect(component.error()).toBe('Could not import "bookmarks.json". The file is not valid JSON.');
+  });
+
+  it('should report imports in the language shown', async () => {
+    spyOn(console, 'error');
+    TestBed.inject(PreferencesService).update({ locale: 'de' });
+
+    await component.onImportFile({ target: { files: [new File(['nope'], 'bookmarks.json')] } } as unknown as Event);
+    expect(component.error()).toBe('„bookmarks.json“ konnte nicht importiert werden. Die Datei enthält kein gültiges JSON.');
+
+    const json = JSON.stringify([{ story: makeStory(9), bookmarkedAt: Date.now() }]);
+    await component.onImportFile({ target: { files: [new File([json], 'bookmarks.json')] } } as unknown as Event);
+    expect(component.importMessage()).toBe('1 Lesezeichen importiert.');
+  });
+
+  it('should render an empty state when no bookmark matches', () => {
+    component.filterText.set('nothing matches this');
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.empty-message')?.textContent).toContain('No bookmarks match');
+  });
+
+  it('should show the list in the language picked', () => {
+    TestBed.inject(PreferencesService).update({ locale: 'de' });
+    component.filterText.set('nichts');
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.header-title')?.textContent).toBe('Leseliste');
+    expect(compiled.querySelector('.empty-message')?.textContent).toBe('Keine Lesezeichen passen zu „nichts“.');
+  });
+});
@@ -0,0 +1,162 @@
+import { Component, inject, signal, computed } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatMenuModule } from '@angular/material/menu';
+import { BookmarkService } from '../../services/bookmark.service';
+import { Bookmark, BookmarkImportResult } from '../../models/bookmark.model';
+import { SearchSortOrder } from '../../models/story.model';
+import { PreferencesService } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { getDomainFromUrl } from '../../utils/story-format';
+
+@Component({
+  selector: 'app-bookmarks',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatMenuModule
+  ],
+  templateUrl: './bookmarks.html',
+  styleUrl: './bookmarks.scss'
+})
+export class Bookmarks {
+  protected readonly bookmarkService = inject(BookmarkService);
+  protected readonly preferencesService = inject(PreferencesService);
+  protected readonly i18n = inject(I18nService);
+
+  filterText = signal<string>('');
+  sortBy = signal<SearchSortOrder>(SearchSortOrder.Relevance);
+  importMessage = signal<string | null>(null);
+  error = signal<string | null>(null);
+
+  sortOptions = [
+    { value: SearchSortOrder.Relevance, label: 'Relevance' },
+    { value: SearchSortOrder.Score, label: 'Score' },
+    { value: SearchSortOrder.Recent, label: 'Most Recent' },
+    { value: SearchSortOrder.Oldest, label: 'Oldest' },
+    { value: SearchSortOrder.Comments, label: 'Most Comments' }
+  ];
+
+  visibleBookmarks = computed(() => {
+    const terms = this.filterText().toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    const matching = this.bookmarkService.bookmarks().filter(bookmark =>
+      terms.every(term => this.searchableText(bookmark).includes(term))
+    );
+    return this.sortBookmarks(matching, terms);
+  });
+
+  onFilterInput(event: Event) {
+    this.filterText.set((event.target as HTMLInputElement).value);
+  }
+
+  removeBookmark(id: number) {
+    this.bookmarkService.remove(id);
+  }
+
+  exportJson() {
+    this.download(this.bookmarkService.exportJson(), 'hackernews-bookmarks.json', 'application/json');
+  }
+
+  exportHtml() {
+    this.download(this.bookmarkService.exportNetscapeHtml(), 'hackernews-bookmarks.html', 'text/html');
+  }
+
+  async onImportFile(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.error.set(null);
+    this.importMessage.set(null);
+
+    try {
+      const text = await file.text();
+      const result = this.isHtmlFile(file.name, text)
+        ? this.bookmarkService.importNetscapeHtml(text)
+        : this.bookmarkService.importJson(text);
+      this.importMessage.set(this.describeImport(result));
+    } catch (err) {
+      console.error('Error importing bookmarks:', err);
+      this.error.set(this.describeImportError(file.name, err));
+    }
+  }
+
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  getDomainFromUrl(url: string | undefined): string {
+    return getDomainFromUrl(url);
+  }
+
+  private searchableText(bookmark: Bookmark): string {
+    const { story } = bookmark;
+    return `${story.title} ${story.by} ${getDomainFromUrl(story.url)}`.toLowerCase();
+  }
+
+  /** Relevance ranks title matches first and otherwise keeps the most recently bookmarked on top. */
+  private sortBookmarks(bookmarks: Bookmark[], terms: string[]): Bookmark[] {
+    const sorted = [...bookmarks];
+
+    switch (this.sortBy()) {
+      case SearchSortOrder.Score:
+        return sorted.sort((a, b) => b.story.score - a.story.score);
+      case SearchSortOrder.Recent:
+        return sorted.sort((a, b) => b.story.time - a.story.time);
+      case SearchSortOrder.Oldest:
+        return sorted.sort((a, b) => a.story.time - b.story.time);
+      case SearchSortOrder.Comments:
+        return sorted.sort((a, b) => b.story.commentCount - a.story.commentCount);
+      default: {
+        const titleMatches = (bookmark: Bookmark) =>
+          terms.filter(term => bookmark.story.title.toLowerCase().includes(term)).length;
+        return sorted.sort((a, b) => titleMatches(b) - titleMatches(a) || b.bookmarkedAt - a.bookmarkedAt);
+      }
+    }
+  }
+
+  private isHtmlFile(name: string, text: string): boolean {
+    return /\.html?$/i.test(name) || text.trimStart().startsWith('<');
+  }
+
+  private describeImport(result: BookmarkImportResult): string {
+    return result.skipped > 0
+      ? this.i18n.plural(result.imported, 'Imported {count} bookmark, skipped {skipped}.', 'Imported {count} bookmarks, skipped {skipped}.', { skipped: result.skipped })
+      : this.i18n.plural(result.imported, 'Imported {count} bookmark.', 'Imported {count} bookmarks.');
+  }
+
+  /** The service's messages are catalog keys, so the reason is translated too. */
+  private describeImportError(fileName: string, err: unknown): string {
+    return err instanceof Error
+      ? this.i18n.t('Could not import "{name}". {reason}', { name: fileName, reason: this.i18n.t(err.message) })
+      : this.i18n.t('Could not import "{name}".', { name: fileName });
+  }
+
+  private download(content: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
@@ -0,0 +1,93 @@
+import { Component } from '@angular/core';
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { FormControl, ReactiveFormsModule } from '@angular/forms';
+import { MatChipInputEvent } from '@angular/material/chips';
+import { ChipListInput, CHIP_LIST_MAX_OPTIONS } from './chip-list-input';
+import { findAccessibilityViolations } from '../../testing/accessibility';
+
+@Component({
+  imports: [ChipListInput, ReactiveFormsModule],
+  template: `
+    <app-chip-list-input
+      label="Domains"
+      [options]="options"
+      [normalize]="normalize"
+      [formControl]="control">
+    </app-chip-list-input>
+  `
+})
+class TestHost {
+  control = new FormControl<string[]>(['github.com'], { nonNullable: true });
+  options = ['github.com', 'gitlab.com', 'medium.com'];
+  normalize = (value: string) => value.includes('.') ? value.toLowerCase() : null;
+}
+
+describe('ChipListInput', () => {
+  let host: TestHost;
+  let component: ChipListInput;
+  let fixture: ComponentFixture<TestHost>;
+
+  const tokenEnd = (value: string) => {
+    const chipInput = jasmine.createSpyObj('MatChipInput', ['clear']);
+    component.onTokenEnd({ value, chipInput } as unknown as MatChipInputEvent);
+    return chipInput.clear as jasmine.Spy;
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TestHost]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(TestHost);
+    host = fixture.componentInstance;
+    fixture.detectChanges();
+    component = fixture.debugElement.children[0].componentInstance;
+  });
+
+  it('should show the control value as chips', () => {
+    const chips = (fixture.nativeElement as HTMLElement).querySelectorAll('mat-chip-row');
+
+    expect(chips.length).toBe(1);
+    expect(chips[0].textContent).toContain('github.com');
+  });
+
+  it('should label the input and the remove buttons', async () => {
+    expect(await findAccessibilityViolations(fixture.nativeElement)).toEqual([]);
+  });
+
+  it('should add typed values to the control', () => {
+    const clear = tokenEnd(' GitLab.com ');
+
+    expect(host.control.value).toEqual(['github.com', 'gitlab.com']);
+    expect(clear).toHaveBeenCalled();
+  });
+
+  it('should keep invalid and repeated values out', () => {
+    const clear = tokenEnd('localhost');
+    tokenEnd('GITHUB.COM');
+
+    expect(host.control.value).toEqual(['github.com']);
+    expect(clear).not.toHaveBeenCalled();
+  });
+
+  it('should remove values', () => {
+    component.remove('github.com');
+
+    expect(host.control.value).toEqual([]);
+  });
+
+  it('should offer options matching the text that are not picked yet', () => {
+    component.text.set('com');
+    expect(component.matchingOptions()).toEqual(['gitlab.com', 'medium.com']);
+
+    component.text.set('lab');
+    expect(component.matchingOptions()).toEqual(['gitlab.com']);
+  });
+
+  it('should cap the number of options', () => {
+    host.options = Array.from({ length: CHIP_LIST_MAX_OPTIONS + 5 }, (_, i) => `site${i}.com`);
+    fixture.detectChanges();
+
+    expect(component.matchingOptions().length).toBe(CHIP_LIST_MAX_OPTIONS);
+  });
+});
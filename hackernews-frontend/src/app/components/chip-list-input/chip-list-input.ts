@@ -0,0 +1,103 @@
+import { Component, computed, forwardRef, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ControlValueAccessor, NG_VALUE_ACCESSOR } from '@angular/forms';
+import { COMMA, ENTER } from '@angular/cdk/keycodes';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatChipInputEvent, MatChipsModule } from '@angular/material/chips';
+import { MatAutocompleteModule, MatAutocompleteSelectedEvent } from '@angular/material/autocomplete';
+import { MatIconModule } from '@angular/material/icon';
+import { I18nService } from '../../services/i18n.service';
+
+/** Options listed in the autocomplete at most. */
+export const CHIP_LIST_MAX_OPTIONS = 8;
+
+/**
+ * A form control holding a list of strings, entered as chips. Values are
+ * added with Enter or a comma, or picked from `options`.
+ */
+@Component({
+  selector: 'app-chip-list-input',
+  imports: [CommonModule, MatFormFieldModule, MatChipsModule, MatAutocompleteModule, MatIconModule],
+  templateUrl: './chip-list-input.html',
+  styleUrl: './chip-list-input.scss',
+  providers: [{ provide: NG_VALUE_ACCESSOR, useExisting: forwardRef(() => ChipListInput), multi: true }]
+})
+export class ChipListInput implements ControlValueAccessor {
+  protected readonly i18n = inject(I18nService);
+
+  label = input.required<string>();
+  placeholder = input<string>('');
+  icon = input<string>('');
+  /** Autocomplete candidates; the ones matching the typed text are listed. */
+  options = input<string[]>([]);
+  /** Cleans up a typed value; values it returns null for are rejected. */
+  normalize = input<(value: string) => string | null>(value => value);
+
+  readonly separatorKeys = [ENTER, COMMA];
+
+  values = signal<string[]>([]);
+  text = signal<string>('');
+  disabled = signal<boolean>(false);
+
+  matchingOptions = computed(() => {
+    const text = this.text().trim().toLowerCase();
+    const values = new Set(this.values().map(value => value.toLowerCase()));
+    return this.options()
+      .filter(option => !values.has(option.toLowerCase()) && option.toLowerCase().includes(text))
+      .slice(0, CHIP_LIST_MAX_OPTIONS);
+  });
+
+  private onChange: (values: string[]) => void = () => {};
+  onTouched: () => void = () => {};
+
+  /** Adds a value unless it is invalid or already in the list. Returns whether it was added. */
+  add(value: string): boolean {
+    const trimmed = value.trim();
+    const normalized = trimmed ? this.normalize()(trimmed) : null;
+    if (!normalized || this.values().some(existing => existing.toLowerCase() === normalized.toLowerCase())) {
+      return false;
+    }
+    this.setValues([...this.values(), normalized]);
+    return true;
+  }
+
+  remove(value: string) {
+    this.setValues(this.values().filter(existing => existing !== value));
+  }
+
+  onTokenEnd(event: MatChipInputEvent) {
+    // An invalid value stays in the input so it can be corrected
+    if (!event.value.trim() || this.add(event.value)) {
+      event.chipInput.clear();
+      this.text.set('');
+    }
+  }
+
+  onOptionSelected(event: MatAutocompleteSelectedEvent, textInput: HTMLInputElement) {
+    this.add(event.option.value);
+    textInput.value = '';
+    this.text.set('');
+  }
+
+  writeValue(values: string[] | null): void {
+    this.values.set(values ?? []);
+  }
+
+  registerOnChange(fn: (values: string[]) => void): void {
+    this.onChange = fn;
+  }
+
+  registerOnTouched(fn: () => void): void {
+    this.onTouched = fn;
+  }
+
+  setDisabledState(disabled: boolean): void {
+    this.disabled.set(disabled);
+  }
+
+  private setValues(values: string[]) {
+    this.values.set(values);
+    this.onChange(values);
+    this.onTouched();
+  }
+}
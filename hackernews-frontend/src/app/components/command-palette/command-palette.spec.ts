@@ -0,0 +1,68 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { CommandPalette, PaletteCommand } from './command-palette';
+
+describe('CommandPalette', () => {
+  let component: CommandPalette;
+  let fixture: ComponentFixture<CommandPalette>;
+  let commands: PaletteCommand[];
+  let closed: jasmine.Spy;
+
+  const keydown = (key: string) => component.onKeydown(new KeyboardEvent('keydown', { key }));
+
+  beforeEach(async () => {
+    commands = [
+      { id: 'sort-score', label: 'Sort by Score', group: 'Sort', icon: 'sort', run: jasmine.createSpy('sortScore') },
+      { id: 'sort-recent', label: 'Sort by Most Recent', group: 'Sort', icon: 'sort', run: jasmine.createSpy('sortRecent') },
+      { id: 'filters', label: 'Toggle filters', group: 'View', icon: 'tune', run: jasmine.createSpy('filters') }
+    ];
+
+    await TestBed.configureTestingModule({
+      imports: [CommandPalette]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(CommandPalette);
+    component = fixture.componentInstance;
+    fixture.componentRef.setInput('commands', commands);
+    closed = jasmine.createSpy('closed');
+    component.closed.subscribe(closed);
+    fixture.detectChanges();
+  });
+
+  it('should list every command initially', () => {
+    expect((fixture.nativeElement as HTMLElement).querySelectorAll('.palette-command').length).toBe(3);
+  });
+
+  it('should filter commands by group and label', () => {
+    component.onFilterInput({ target: { value: 'sort recent' } } as unknown as Event);
+
+    expect(component.filteredCommands().map(command => command.id)).toEqual(['sort-recent']);
+  });
+
+  it('should run the active command on Enter and close', () => {
+    keydown('ArrowDown');
+    keydown('Enter');
+
+    expect(commands[1].run).toHaveBeenCalled();
+    expect(closed).toHaveBeenCalled();
+  });
+
+  it('should wrap the active command with the arrow keys', () => {
+    keydown('ArrowUp');
+
+    expect(component.activeIndex()).toBe(2);
+  });
+
+  it('should close on Escape without running anything', () => {
+    keydown('Escape');
+
+    expect(closed).toHaveBeenCalled();
+    commands.forEach(command => expect(command.run).not.toHaveBeenCalled());
+  });
+
+  it('should run a command when clicked', () => {
+    const items = (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLElement>('.palette-command');
+    items[2].click();
+
+    expect(commands[2].run).toHaveBeenCalled();
+  });
+});
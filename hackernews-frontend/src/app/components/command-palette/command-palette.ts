@@ -0,0 +1,81 @@
+import { Component, ElementRef, afterNextRender, computed, inject, input, output, signal, viewChild } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatIconModule } from '@angular/material/icon';
+import { I18nService } from '../../services/i18n.service';
+
+/** An action the command palette can run. */
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  icon: string;
+  run: () => void;
+}
+
+@Component({
+  selector: 'app-command-palette',
+  imports: [CommonModule, MatCardModule, MatIconModule],
+  templateUrl: './command-palette.html',
+  styleUrl: './command-palette.scss'
+})
+export class CommandPalette {
+  private readonly searchInput = viewChild<ElementRef<HTMLInputElement>>('searchInput');
+  protected readonly i18n = inject(I18nService);
+
+  commands = input.required<PaletteCommand[]>();
+  closed = output<void>();
+
+  filterText = signal<string>('');
+  activeIndex = signal<number>(0);
+
+  /** Every word typed has to appear in the command's group or label. */
+  filteredCommands = computed(() => {
+    const terms = this.filterText().toLowerCase().split(/\s+/).filter(term => term.length > 0);
+    return this.commands().filter(command => {
+      const text = `${command.group} ${command.label}`.toLowerCase();
+      return terms.every(term => text.includes(term));
+    });
+  });
+
+  constructor() {
+    afterNextRender(() => this.searchInput()?.nativeElement.focus());
+  }
+
+  onFilterInput(event: Event) {
+    this.filterText.set((event.target as HTMLInputElement).value);
+    this.activeIndex.set(0);
+  }
+
+  onKeydown(event: KeyboardEvent) {
+    const count = this.filteredCommands().length;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        this.activeIndex.set(count === 0 ? 0 : (this.activeIndex() + 1) % count);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        this.activeIndex.set(count === 0 ? 0 : (this.activeIndex() - 1 + count) % count);
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const command = this.filteredCommands()[this.activeIndex()];
+        if (command) {
+          this.execute(command);
+        }
+        break;
+      }
+      case 'Escape':
+        event.preventDefault();
+        this.closed.emit();
+        break;
+    }
+  }
+
+  execute(command: PaletteCommand) {
+    this.closed.emit();
+    command.run();
+  }
+}
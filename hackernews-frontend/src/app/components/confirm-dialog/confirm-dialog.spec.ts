@@ -0,0 +1,48 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { MAT_DIALOG_DATA, MatDialogRef } from '@angular/material/dialog';
+import { ConfirmDialog, ConfirmDialogData } from './confirm-dialog';
+
+describe('ConfirmDialog', () => {
+  let fixture: ComponentFixture<ConfirmDialog>;
+  let dialogRef: jasmine.SpyObj<MatDialogRef<ConfirmDialog>>;
+
+  const data: ConfirmDialogData = {
+    title: 'Clean up database?',
+    message: 'Old stories will be deleted.',
+    confirmLabel: 'Clean up'
+  };
+
+  beforeEach(async () => {
+    dialogRef = jasmine.createSpyObj('MatDialogRef', ['close']);
+
+    await TestBed.configureTestingModule({
+      imports: [ConfirmDialog],
+      providers: [
+        { provide: MAT_DIALOG_DATA, useValue: data },
+        { provide: MatDialogRef, useValue: dialogRef }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ConfirmDialog);
+    fixture.detectChanges();
+  });
+
+  it('should show the question', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.textContent).toContain('Clean up database?');
+    expect(compiled.querySelector('.confirm-message')?.textContent).toContain('Old stories will be deleted.');
+    expect(compiled.querySelector('.confirm-button')?.textContent).toContain('Clean up');
+  });
+
+  it('should close with true when confirmed', () => {
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.confirm-button')?.click();
+
+    expect(dialogRef.close).toHaveBeenCalledWith(true);
+  });
+
+  it('should close with false when cancelled', () => {
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.cancel-button')?.click();
+
+    expect(dialogRef.close).toHaveBeenCalledWith(false);
+  });
+});
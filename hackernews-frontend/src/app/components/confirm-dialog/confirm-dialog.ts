@@ -0,0 +1,22 @@
+import { Component, inject } from '@angular/core';
+import { MAT_DIALOG_DATA, MatDialogModule } from '@angular/material/dialog';
+import { MatButtonModule } from '@angular/material/button';
+import { I18nService } from '../../services/i18n.service';
+
+export interface ConfirmDialogData {
+  title: string;
+  message: string;
+  confirmLabel: string;
+}
+
+/** Asks before a destructive or slow action; closes with true when confirmed. */
+@Component({
+  selector: 'app-confirm-dialog',
+  imports: [MatDialogModule, MatButtonModule],
+  templateUrl: './confirm-dialog.html',
+  styleUrl: './confirm-dialog.scss'
+})
+export class ConfirmDialog {
+  protected readonly data = inject<ConfirmDialogData>(MAT_DIALOG_DATA);
+  protected readonly i18n = inject(I18nService);
+}
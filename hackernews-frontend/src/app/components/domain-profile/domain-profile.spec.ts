@@ -0,0 +1,171 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { DomainProfile, DOMAIN_PAGE_COUNT, DOMAIN_STORIES_SHOWN } from './domain-profile';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { INSIGHTS_PAGE_SIZE } from '../../services/insights.service';
+import { MuteService } from '../../services/mute.service';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { Story, SearchSortOrder } from '../../models/story.model';
+import { makeStory } from '../../testing/fixtures';
+
+describe('DomainProfile', () => {
+  let component: DomainProfile;
+  let fixture: ComponentFixture<DomainProfile>;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  // Later ids are newer, so the merged list comes out in reverse id order
+  const siteStory = (id: number, overrides: Partial<Story>) =>
+    makeStory(id, { by: 'pg', time: 1740800000 + id, url: 'https://github.com/repo', commentCount: 4, ...overrides });
+
+  const hostStories = [siteStory(1, { score: 100 }), siteStory(2, { score: 50, by: 'dang' })];
+  // A text search for the host also finds look-alike domains, which the roll-up leaves out
+  const mentioningHost = [
+    siteStory(3, { score: 30, url: 'https://gist.github.com/snippet' }),
+    siteStory(4, { score: 5, url: 'https://notgithub.com/page' })
+  ];
+
+  beforeEach(async () => {
+    localStorage.removeItem('hn.muteRules');
+    localStorage.removeItem('hn.savedSearches');
+
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    mockHackerNewsService.searchStories.and.callFake(query =>
+      of({ items: query.filters?.domains ? hostStories : mentioningHost, page: 1, pageSize: INSIGHTS_PAGE_SIZE })
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [DomainProfile],
+      providers: [
+        provideRouter([]),
+        { provide: HackerNewsService, useValue: mockHackerNewsService },
+        { provide: ActivatedRoute, useValue: { paramMap: of(convertToParamMap({ host: 'www.GitHub.com' })) } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DomainProfile);
+    component = fixture.componentInstance;
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.muteRules');
+    localStorage.removeItem('hn.savedSearches');
+  });
+
+  it('should roll up subdomains of the host from the route', () => {
+    fixture.detectChanges();
+
+    expect(component.host()).toBe('github.com');
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+      query: 'github.com',
+      sortBy: SearchSortOrder.Recent
+    }));
+    expect(component.stories().map(story => story.id)).toEqual([3, 2, 1]);
+    expect(component.topSites().map(datum => [datum.label, datum.value])).toEqual([
+      ['github.com', 2],
+      ['gist.github.com', 1]
+    ]);
+  });
+
+  it('should show only the host when subdomains are excluded', () => {
+    fixture.detectChanges();
+
+    component.setIncludeSubdomains(false);
+
+    expect(component.stories().map(story => story.id)).toEqual([2, 1]);
+  });
+
+  it('should count stories, average scores and rank authors', () => {
+    fixture.detectChanges();
+
+    expect(component.averageScore()).toBe(60);
+    expect(component.totalComments()).toBe(12);
+    expect(component.truncated()).toBe(false);
+    expect(component.topAuthors().map(datum => [datum.label, datum.value])).toEqual([['pg', 2], ['dang', 1]]);
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.story-count .stat-value')?.textContent).toBe('3');
+  });
+
+  it('should open an author\'s stories on the host', () => {
+    fixture.detectChanges();
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+
+    component.openAuthor(component.topAuthors()[1]);
+
+    expect(router.navigate).toHaveBeenCalledWith(['/'], {
+      queryParams: { sortBy: 'Recent', domain: 'github.com', author: 'dang' }
+    });
+  });
+
+  it('should mute and unmute the host', () => {
+    fixture.detectChanges();
+    const muteService = TestBed.inject(MuteService);
+
+    component.toggleMuted();
+
+    expect(muteService.rules().domains).toEqual(['github.com']);
+    expect(component.muted()).toBe(true);
+
+    component.toggleMuted();
+
+    expect(muteService.rules().domains).toEqual([]);
+  });
+
+  it('should show a subdomain as muted by its parent and unmute the parent', () => {
+    Object.assign(TestBed.inject(ActivatedRoute), { paramMap: of(convertToParamMap({ host: 'gist.github.com' })) });
+    const muteService = TestBed.inject(MuteService);
+    muteService.add('domains', 'github.com');
+    fixture.detectChanges();
+
+    expect(component.muted()).toBe(true);
+    expect((fixture.nativeElement as HTMLElement).querySelector('.muted-note')?.textContent)
+      .toContain('Stories from github.com and its subdomains are hidden');
+
+    component.toggleMuted();
+
+    expect(muteService.rules().domains).toEqual([]);
+  });
+
+  it('should follow the host as a saved search', () => {
+    fixture.detectChanges();
+    const savedSearchService = TestBed.inject(SavedSearchService);
+
+    component.toggleFollowed();
+
+    expect(savedSearchService.savedSearches().length).toBe(1);
+    expect(savedSearchService.savedSearches()[0].name).toBe('github.com');
+    expect(component.followedSearch()?.query.filters).toEqual({ domains: ['github.com'] });
+
+    component.toggleFollowed();
+
+    expect(savedSearchService.savedSearches()).toEqual([]);
+    expect(component.followedSearch()).toBeUndefined();
+  });
+
+  it('should mark totals as partial when every page was full', () => {
+    mockHackerNewsService.searchStories.and.callFake(query => of({
+      items: Array.from({ length: INSIGHTS_PAGE_SIZE }, (_, i) => siteStory(query.page! * 1000 + i, {})),
+      page: query.page!,
+      pageSize: INSIGHTS_PAGE_SIZE
+    }));
+    component.includeSubdomains.set(false);
+
+    fixture.detectChanges();
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(DOMAIN_PAGE_COUNT);
+    expect(component.truncated()).toBe(true);
+    expect(component.visibleStories().length).toBe(DOMAIN_STORIES_SHOWN);
+  });
+
+  it('should show an error when the stories fail to load', () => {
+    spyOn(console, 'error');
+    mockHackerNewsService.searchStories.and.returnValue(throwError(() => new Error('API Error')));
+
+    fixture.detectChanges();
+
+    expect(component.error()).toBe('Failed to load stories from this site. Please try again.');
+    expect(console.error).toHaveBeenCalledWith('Error loading domain stories:', jasmine.any(Error));
+  });
+});
@@ -0,0 +1,182 @@
+import { Component, DestroyRef, OnInit, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { BarChart } from '../bar-chart/bar-chart';
+import { DomainStoriesService } from '../../services/domain-stories.service';
+import { InsightsService, INSIGHTS_PAGE_SIZE } from '../../services/insights.service';
+import { MuteService } from '../../services/mute.service';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { SearchUrlService } from '../../services/search-url.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { getDomainFromUrl } from '../../utils/story-format';
+import { ChartDatum } from '../../models/insights.model';
+import { Story } from '../../models/story.model';
+
+/** Pages collected per domain for the site page, most recent first. */
+export const DOMAIN_PAGE_COUNT = 4;
+
+/** Stories listed before "Show more". */
+export const DOMAIN_STORIES_SHOWN = 20;
+
+@Component({
+  selector: 'app-domain-profile',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatSlideToggleModule,
+    MatTooltipModule,
+    BarChart
+  ],
+  templateUrl: './domain-profile.html',
+  styleUrl: './domain-profile.scss'
+})
+export class DomainProfile implements OnInit {
+  private readonly domainStoriesService = inject(DomainStoriesService);
+  private readonly preferencesService = inject(PreferencesService);
+  protected readonly i18n = inject(I18nService);
+  private readonly insightsService = inject(InsightsService);
+  private readonly muteService = inject(MuteService);
+  private readonly savedSearchService = inject(SavedSearchService);
+  private readonly searchUrlService = inject(SearchUrlService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  private loadSubscription?: Subscription;
+
+  host = signal<string>('');
+  includeSubdomains = signal<boolean>(true);
+  stories = signal<Story[]>([]);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+  storiesShown = signal<number>(DOMAIN_STORIES_SHOWN);
+
+  private readonly summary = computed(() => this.insightsService.summarize(this.stories()));
+
+  /** True when a domain has more indexed stories than were collected. */
+  truncated = computed(() => this.topSites().some(site => site.value >= DOMAIN_PAGE_COUNT * INSIGHTS_PAGE_SIZE));
+  averageScore = computed(() => this.stories().length > 0
+    ? Math.round(this.stories().reduce((sum, story) => sum + story.score, 0) / this.stories().length)
+    : 0);
+  totalComments = computed(() => this.stories().reduce((sum, story) => sum + story.commentCount, 0));
+  topAuthors = computed(() => this.summary().topAuthors);
+  /** Story counts per subdomain; only worth showing when the rollup found more than the host. */
+  topSites = computed(() => this.summary().topDomains);
+  visibleStories = computed(() => this.stories().slice(0, this.storiesShown()));
+
+  /** The mute rule hiding this site, which may be one for a parent domain. */
+  mutedBy = computed(() => this.muteService.domainRule(this.host()));
+  muted = computed(() => this.mutedBy() !== null);
+  followedSearch = computed(() => this.savedSearchService.findByQuery(this.domainStoriesService.domainQuery(this.host())));
+
+  /** Query params for the host's stories in the story list. Search can't roll up subdomains. */
+  storyListParams = computed(() =>
+    this.searchUrlService.toQueryParams(this.domainStoriesService.domainQuery(this.host()))
+  );
+
+  ngOnInit() {
+    this.route.paramMap.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(params => {
+      this.host.set(this.normalizeHost(params.get('host') ?? ''));
+      this.storiesShown.set(DOMAIN_STORIES_SHOWN);
+      this.loadStories();
+    });
+    this.destroyRef.onDestroy(() => this.loadSubscription?.unsubscribe());
+  }
+
+  loadStories() {
+    this.loadSubscription?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.loadSubscription = this.domainStoriesService
+      .collectStories(this.host(), this.includeSubdomains(), DOMAIN_PAGE_COUNT)
+      .subscribe({
+        next: stories => {
+          this.stories.set(stories);
+          this.loading.set(false);
+        },
+        error: err => {
+          console.error('Error loading domain stories:', err);
+          this.error.set(this.i18n.t('Failed to load stories from this site. Please try again.'));
+          this.stories.set([]);
+          this.loading.set(false);
+        }
+      });
+  }
+
+  setIncludeSubdomains(include: boolean) {
+    this.includeSubdomains.set(include);
+    this.storiesShown.set(DOMAIN_STORIES_SHOWN);
+    this.loadStories();
+  }
+
+  showMoreStories() {
+    this.storiesShown.update(shown => shown + DOMAIN_STORIES_SHOWN);
+  }
+
+  /** A domain rule covers subdomains, so muting hides the same stories the roll-up shows. */
+  toggleMuted() {
+    const mutedBy = this.mutedBy();
+    if (mutedBy) {
+      this.muteService.remove('domains', mutedBy);
+    } else {
+      this.muteService.add('domains', this.host());
+    }
+  }
+
+  /** Following a site saves a search for it, so new stories show up with the other saved searches. */
+  toggleFollowed() {
+    const followed = this.followedSearch();
+    if (followed) {
+      this.savedSearchService.remove(followed.id);
+    } else {
+      this.savedSearchService.save(this.host(), this.domainStoriesService.domainQuery(this.host()));
+    }
+  }
+
+  /** Opens the story list for the clicked author's stories on this host. */
+  openAuthor(datum: ChartDatum) {
+    const query = this.domainStoriesService.domainQuery(this.host());
+    this.router.navigate(['/'], {
+      queryParams: this.searchUrlService.toQueryParams({ ...query, filters: { ...query.filters, ...datum.filters } })
+    });
+  }
+
+  openSite(datum: ChartDatum) {
+    this.router.navigate(['/domain', datum.label]);
+  }
+
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  formatNumber(value: number): string {
+    return this.i18n.formatNumber(value);
+  }
+
+  getDomainFromUrl(url: string | undefined): string {
+    return getDomainFromUrl(url);
+  }
+
+  /** Same hostname logic as the story cards, so "www." and stray paths are ignored. */
+  private normalizeHost(value: string): string {
+    const trimmed = value.trim();
+    return getDomainFromUrl(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  }
+}
@@ -0,0 +1,129 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, Router, convertToParamMap, provideRouter } from '@angular/router';
+import { of, throwError } from 'rxjs';
+import { Insights } from './insights';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { Story } from '../../models/story.model';
+
+describe('Insights', () => {
+  let component: Insights;
+  let fixture: ComponentFixture<Insights>;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  const stories: Story[] = [
+    {
+      id: 1,
+      title: 'Rust on GitHub',
+      by: 'pg',
+      time: Date.parse('2025-03-01T12:00:00Z') / 1000,
+      createdAt: '2025-03-01T12:00:00Z',
+      score: 150,
+      url: 'https://github.com/rust',
+      type: 'story',
+      hasUrl: true,
+      commentCount: 30,
+      hackerNewsUrl: 'https://news.ycombinator.com/item?id=1'
+    },
+    {
+      id: 2,
+      title: 'Ask HN: Rust',
+      by: 'dang',
+      time: Date.parse('2025-03-02T12:00:00Z') / 1000,
+      createdAt: '2025-03-02T12:00:00Z',
+      score: 20,
+      type: 'story',
+      hasUrl: false,
+      commentCount: 40,
+      hackerNewsUrl: 'https://news.ycombinator.com/item?id=2'
+    }
+  ];
+
+  beforeEach(async () => {
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    mockHackerNewsService.searchStories.and.returnValue(of({ items: stories, page: 1, pageSize: 50 }));
+
+    await TestBed.configureTestingModule({
+      imports: [Insights],
+      providers: [
+        provideRouter([]),
+        { provide: HackerNewsService, useValue: mockHackerNewsService },
+        {
+          provide: ActivatedRoute,
+          useValue: { queryParamMap: of(convertToParamMap({ q: 'rust', hasUrl: 'true', sortBy: 'Score' })) }
+        }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(Insights);
+    component = fixture.componentInstance;
+  });
+
+  it('should analyse the search from the URL', () => {
+    fixture.detectChanges();
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+      query: 'rust',
+      page: 1,
+      filters: { hasUrl: true }
+    }));
+    expect(component.queryDescription()).toBe('rust has:url sort:score');
+    expect(component.insights()?.storyCount).toBe(2);
+    expect(component.insights()?.topAuthors.map(datum => datum.label)).toEqual(['dang', 'pg']);
+  });
+
+  it('should render a chart for each aggregate', () => {
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    ['.stories-per-day', '.score-distribution', '.comment-ratio', '.top-domains', '.top-authors'].forEach(selector => {
+      expect(compiled.querySelector(`${selector} .chart-bar`)).withContext(selector).toBeTruthy();
+    });
+  });
+
+  it('should drill down into the story list with the chart filters added', () => {
+    fixture.detectChanges();
+    const router = TestBed.inject(Router);
+    spyOn(router, 'navigate');
+
+    component.drillDown(component.insights()!.topDomains[0]);
+
+    expect(router.navigate).toHaveBeenCalledWith(['/'], {
+      queryParams: { q: 'rust', sortBy: 'Score', domain: 'github.com', hasUrl: 'true' }
+    });
+  });
+
+  it('should drill down from a clicked bar', () => {
+    fixture.detectChanges();
+    spyOn(component, 'drillDown');
+
+    (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.top-authors .chart-bar')?.click();
+
+    expect(component.drillDown).toHaveBeenCalledWith(component.insights()!.topAuthors[0]);
+  });
+
+  it('should collect more pages when the sample size changes', () => {
+    mockHackerNewsService.searchStories.and.callFake(query => of({
+      items: Array.from({ length: 50 }, (_, i) => ({ ...stories[0], id: query.page! * 100 + i })),
+      page: query.page!,
+      pageSize: 50
+    }));
+    fixture.detectChanges();
+    mockHackerNewsService.searchStories.calls.reset();
+
+    component.setPageCount(2);
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(2);
+    expect(component.insights()?.storyCount).toBe(100);
+  });
+
+  it('should show an error when the search fails', () => {
+    spyOn(console, 'error');
+    mockHackerNewsService.searchStories.and.returnValue(throwError(() => new Error('API Error')));
+
+    fixture.detectChanges();
+
+    expect(component.error()).toBe('Failed to load insights. Please try again.');
+    expect(component.insights()).toBeNull();
+    expect(console.error).toHaveBeenCalledWith('Error loading insights:', jasmine.any(Error));
+  });
+});
@@ -0,0 +1,114 @@
+import { Component, DestroyRef, OnInit, inject, signal, computed } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subscription } from 'rxjs';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { BarChart } from '../bar-chart/bar-chart';
+import { InsightsService, INSIGHTS_PAGE_SIZE } from '../../services/insights.service';
+import { SearchUrlService } from '../../services/search-url.service';
+import { QueryLanguageService } from '../../services/query-language.service';
+import { I18nService } from '../../services/i18n.service';
+import { ChartDatum, StoryInsights } from '../../models/insights.model';
+import { SearchQuery } from '../../models/story.model';
+
+/** Page counts offered for sampling; each page holds INSIGHTS_PAGE_SIZE stories. */
+export const INSIGHTS_PAGE_COUNTS = [2, 5, 10];
+
+@Component({
+  selector: 'app-insights',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatTooltipModule,
+    BarChart
+  ],
+  templateUrl: './insights.html',
+  styleUrl: './insights.scss'
+})
+export class Insights implements OnInit {
+  private readonly insightsService = inject(InsightsService);
+  private readonly searchUrlService = inject(SearchUrlService);
+  private readonly queryLanguage = inject(QueryLanguageService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly destroyRef = inject(DestroyRef);
+  protected readonly i18n = inject(I18nService);
+  private loadSubscription?: Subscription;
+
+  readonly pageCounts = INSIGHTS_PAGE_COUNTS;
+  readonly pageSize = INSIGHTS_PAGE_SIZE;
+
+  query = signal<SearchQuery>({ query: '' });
+  pageCount = signal<number>(5);
+  insights = signal<StoryInsights | null>(null);
+  loading = signal<boolean>(false);
+  error = signal<string | null>(null);
+
+  /** The analysed search in query language form, e.g. `rust author:pg`. */
+  queryDescription = computed(() => {
+    const query = this.query();
+    const operators = this.queryLanguage.toOperatorChips(query.filters ?? {}, query.sortBy).map(chip => chip.label);
+    return [query.query, ...operators].filter(part => part.length > 0).join(' ');
+  });
+
+  /** Query params for going back to the same search in the story list. */
+  storyListParams = computed(() => this.searchUrlService.toQueryParams({ ...this.query(), page: 1 }));
+
+  ngOnInit() {
+    this.route.queryParamMap.pipe(
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(paramMap => {
+      this.query.set(this.searchUrlService.fromQueryParams(paramMap));
+      this.load();
+    });
+    this.destroyRef.onDestroy(() => this.loadSubscription?.unsubscribe());
+  }
+
+  setPageCount(pageCount: number) {
+    this.pageCount.set(pageCount);
+    this.load();
+  }
+
+  load() {
+    this.loadSubscription?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.loadSubscription = this.insightsService.collectStories(this.query(), this.pageCount()).subscribe({
+      next: stories => {
+        this.insights.set(this.insightsService.summarize(stories));
+        this.loading.set(false);
+      },
+      error: err => {
+        console.error('Error loading insights:', err);
+        this.error.set(this.i18n.t('Failed to load insights. Please try again.'));
+        this.insights.set(null);
+        this.loading.set(false);
+      }
+    });
+  }
+
+  /** Opens the story list for the analysed search narrowed to a chart element. */
+  drillDown(datum: ChartDatum) {
+    const query = this.query();
+    const queryParams = this.searchUrlService.toQueryParams({
+      ...query,
+      page: 1,
+      filters: { ...query.filters, ...datum.filters }
+    });
+    this.router.navigate(['/'], { queryParams });
+  }
+}
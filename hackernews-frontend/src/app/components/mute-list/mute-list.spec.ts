@@ -0,0 +1,77 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { MuteList } from './mute-list';
+import { MuteService } from '../../services/mute.service';
+import { PreferencesService } from '../../services/preferences.service';
+
+describe('MuteList', () => {
+  let component: MuteList;
+  let fixture: ComponentFixture<MuteList>;
+  let muteService: MuteService;
+
+  beforeEach(async () => {
+    localStorage.removeItem('hn.muteRules');
+
+    await TestBed.configureTestingModule({
+      imports: [MuteList],
+      providers: [provideRouter([])]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(MuteList);
+    component = fixture.componentInstance;
+    muteService = TestBed.inject(MuteService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.muteRules');
+    localStorage.removeItem('hn.preferences');
+    document.documentElement.lang = 'en';
+  });
+
+  it('should add a rule and clear the input', () => {
+    const input = document.createElement('input');
+    input.value = 'www.medium.com';
+
+    component.addRule('domains', input);
+
+    expect(muteService.rules().domains).toEqual(['medium.com']);
+    expect(input.value).toBe('');
+    expect(component.errors().domains).toBeUndefined();
+  });
+
+  it('should keep the input and show an error for an invalid rule', () => {
+    const input = document.createElement('input');
+    input.value = '/(unclosed/';
+
+    component.addRule('titlePatterns', input);
+    fixture.detectChanges();
+
+    expect(input.value).toBe('/(unclosed/');
+    expect((fixture.nativeElement as HTMLElement).querySelector('.rule-error')?.textContent)
+      .toContain('not a valid regular expression');
+  });
+
+  it('should list muted values and remove them', () => {
+    muteService.add('authors', 'pg');
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.rule-chips')?.textContent).toContain('pg');
+
+    component.removeRule('authors', 'pg');
+    expect(muteService.rules().authors).toEqual([]);
+  });
+
+  it('should show the rules and their errors in the language picked', () => {
+    TestBed.inject(PreferencesService).update({ locale: 'de' });
+    const input = document.createElement('input');
+    input.value = '/(unclosed/';
+
+    component.addRule('titlePatterns', input);
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.header-title')?.textContent).toBe('Stummgeschaltet');
+    expect(compiled.querySelector('.rule-error')?.textContent).toBe('Das ist kein gültiger regulärer Ausdruck.');
+    expect(compiled.querySelector('.no-rules')?.textContent).toBe('Nichts stummgeschaltet.');
+  });
+});
@@ -0,0 +1,70 @@
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatChipsModule } from '@angular/material/chips';
+import { MuteService } from '../../services/mute.service';
+import { I18nService } from '../../services/i18n.service';
+import { MuteRuleKind } from '../../models/mute.model';
+
+interface MuteSection {
+  kind: MuteRuleKind;
+  title: string;
+  icon: string;
+  label: string;
+  placeholder: string;
+}
+
+@Component({
+  selector: 'app-mute-list',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatChipsModule
+  ],
+  templateUrl: './mute-list.html',
+  styleUrl: './mute-list.scss'
+})
+export class MuteList {
+  protected readonly muteService = inject(MuteService);
+  protected readonly i18n = inject(I18nService);
+
+  errors = signal<Partial<Record<MuteRuleKind, string>>>({});
+
+  sections: MuteSection[] = [
+    { kind: 'authors', title: 'Authors', icon: 'person_off', label: 'Username', placeholder: 'e.g. pg' },
+    { kind: 'domains', title: 'Domains', icon: 'language', label: 'Domain', placeholder: 'e.g. medium.com' },
+    {
+      kind: 'titlePatterns',
+      title: 'Title keywords',
+      icon: 'title',
+      label: 'Keyword or /regex/',
+      placeholder: 'e.g. crypto or /^Show HN/'
+    }
+  ];
+
+  addRule(kind: MuteRuleKind, input: HTMLInputElement) {
+    const error = this.muteService.add(kind, input.value);
+    this.errors.update(errors => ({ ...errors, [kind]: error ?? undefined }));
+    if (!error) {
+      input.value = '';
+    }
+  }
+
+  removeRule(kind: MuteRuleKind, value: string) {
+    this.muteService.remove(kind, value);
+  }
+}
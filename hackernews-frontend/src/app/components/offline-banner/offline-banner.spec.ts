@@ -0,0 +1,39 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { signal } from '@angular/core';
+import { OfflineBanner } from './offline-banner';
+import { ConnectivityService } from '../../services/connectivity.service';
+
+describe('OfflineBanner', () => {
+  let fixture: ComponentFixture<OfflineBanner>;
+  const online = signal(true);
+
+  beforeEach(async () => {
+    online.set(true);
+
+    await TestBed.configureTestingModule({
+      imports: [OfflineBanner],
+      providers: [
+        provideRouter([]),
+        { provide: ConnectivityService, useValue: { online } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(OfflineBanner);
+  });
+
+  it('should render nothing while online', () => {
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.offline-banner')).toBeNull();
+  });
+
+  it('should show the banner with a link to saved stories while offline', () => {
+    online.set(false);
+    fixture.detectChanges();
+
+    const banner = (fixture.nativeElement as HTMLElement).querySelector('.offline-banner');
+    expect(banner?.textContent).toContain("You're offline");
+    expect(banner?.querySelector('a')?.getAttribute('href')).toBe('/saved');
+  });
+});
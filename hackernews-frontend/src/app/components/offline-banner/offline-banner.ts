@@ -0,0 +1,18 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatIconModule } from '@angular/material/icon';
+import { MatButtonModule } from '@angular/material/button';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { I18nService } from '../../services/i18n.service';
+
+@Component({
+  selector: 'app-offline-banner',
+  imports: [CommonModule, RouterLink, MatIconModule, MatButtonModule],
+  templateUrl: './offline-banner.html',
+  styleUrl: './offline-banner.scss'
+})
+export class OfflineBanner {
+  protected readonly connectivity = inject(ConnectivityService);
+  protected readonly i18n = inject(I18nService);
+}
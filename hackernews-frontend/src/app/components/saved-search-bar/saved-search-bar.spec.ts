@@ -0,0 +1,87 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { SavedSearchBar } from './saved-search-bar';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { SearchSortOrder } from '../../models/story.model';
+import { findAccessibilityViolations } from '../../testing/accessibility';
+
+describe('SavedSearchBar', () => {
+  let component: SavedSearchBar;
+  let fixture: ComponentFixture<SavedSearchBar>;
+  let savedSearchService: SavedSearchService;
+
+  beforeEach(async () => {
+    localStorage.removeItem('hn.savedSearches');
+
+    await TestBed.configureTestingModule({
+      imports: [SavedSearchBar],
+      providers: [
+        provideRouter([]),
+        { provide: HackerNewsService, useValue: jasmine.createSpyObj('HackerNewsService', ['searchStories']) }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SavedSearchBar);
+    component = fixture.componentInstance;
+    savedSearchService = TestBed.inject(SavedSearchService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.savedSearches');
+  });
+
+  it('should render nothing without saved searches or an active search', () => {
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.saved-search-bar')).toBeNull();
+  });
+
+  it('should save the active search under the given name', () => {
+    fixture.componentRef.setInput('query', { query: 'rust', sortBy: SearchSortOrder.Score });
+    fixture.detectChanges();
+
+    component.startNaming();
+    component.save('Rust');
+
+    expect(savedSearchService.savedSearches()[0].name).toBe('Rust');
+    expect(component.naming()).toBe(false);
+  });
+
+  it('should link each saved search to its results', () => {
+    savedSearchService.save('Rust', { query: 'rust', sortBy: SearchSortOrder.Score });
+    fixture.detectChanges();
+
+    const link = (fixture.nativeElement as HTMLElement).querySelector<HTMLAnchorElement>('.saved-search-link')!;
+    expect(link.textContent).toContain('Rust');
+    expect(link.getAttribute('href')).toBe('/?q=rust&sortBy=Score');
+  });
+
+  it('should render saved searches and the naming form without violations', async () => {
+    savedSearchService.save('Rust', { query: 'rust', sortBy: SearchSortOrder.Score });
+    fixture.componentRef.setInput('query', { query: 'go' });
+    fixture.detectChanges();
+
+    component.startNaming();
+    fixture.detectChanges();
+
+    expect(await findAccessibilityViolations(fixture.nativeElement)).toEqual([]);
+  });
+
+  it('should reset the new-match badge when a search is run', () => {
+    const saved = savedSearchService.save('Rust', { query: 'rust' });
+    savedSearchService.savedSearches.update(searches => searches.map(search => ({ ...search, newMatchCount: 3 })));
+
+    component.run(savedSearchService.savedSearches()[0]);
+
+    expect(savedSearchService.savedSearches()[0].newMatchCount).toBe(0);
+    expect(savedSearchService.savedSearches()[0].id).toBe(saved.id);
+  });
+
+  it('should cap the badge at the page size', () => {
+    const saved = savedSearchService.save('Rust', { query: 'rust' });
+
+    expect(component.newMatchLabel({ ...saved, newMatchCount: 4 })).toBe('4');
+    expect(component.newMatchLabel({ ...saved, newMatchCount: 20 })).toBe('20+');
+  });
+});
@@ -0,0 +1,85 @@
+import { Component, inject, input, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Params, RouterLink } from '@angular/router';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatBadgeModule } from '@angular/material/badge';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { SearchUrlService } from '../../services/search-url.service';
+import { I18nService } from '../../services/i18n.service';
+import { DEFAULT_PAGE_SIZE } from '../../services/preferences.service';
+import { SavedSearch } from '../../models/saved-search.model';
+import { SearchQuery } from '../../models/story.model';
+
+@Component({
+  selector: 'app-saved-search-bar',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatBadgeModule,
+    MatFormFieldModule,
+    MatInputModule
+  ],
+  templateUrl: './saved-search-bar.html',
+  styleUrl: './saved-search-bar.scss'
+})
+export class SavedSearchBar {
+  protected readonly savedSearchService = inject(SavedSearchService);
+  private readonly searchUrlService = inject(SearchUrlService);
+  protected readonly i18n = inject(I18nService);
+
+  /** The search currently on screen, or null when browsing the plain feed. */
+  query = input<SearchQuery | null>(null);
+
+  naming = signal<boolean>(false);
+
+  queryParams(search: SavedSearch): Params {
+    return this.searchUrlService.toQueryParams(search.query);
+  }
+
+  run(search: SavedSearch) {
+    this.savedSearchService.markRun(search.id);
+  }
+
+  remove(search: SavedSearch) {
+    this.savedSearchService.remove(search.id);
+  }
+
+  startNaming() {
+    this.naming.set(true);
+  }
+
+  save(name: string) {
+    const query = this.query();
+    if (!query) {
+      return;
+    }
+    this.savedSearchService.save(name, query);
+    this.naming.set(false);
+  }
+
+  cancelNaming() {
+    this.naming.set(false);
+  }
+
+  togglePolling() {
+    this.savedSearchService.setPollingEnabled(!this.savedSearchService.pollingEnabled());
+  }
+
+  /** Only the first page is checked, so a full page means there may be more. */
+  newMatchLabel(search: SavedSearch): string {
+    const pageSize = search.query.pageSize || DEFAULT_PAGE_SIZE;
+    return search.newMatchCount >= pageSize ? `${pageSize}+` : search.newMatchCount.toString();
+  }
+
+  suggestedName(): string {
+    const query = this.query();
+    return query ? this.savedSearchService.describe(query) : '';
+  }
+}
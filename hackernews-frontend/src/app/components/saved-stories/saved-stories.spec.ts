@@ -0,0 +1,82 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { signal } from '@angular/core';
+import { SavedStories } from './saved-stories';
+import { OfflineStoriesService, SavedStory } from '../../services/offline-stories.service';
+import { PreferencesService } from '../../services/preferences.service';
+
+describe('SavedStories', () => {
+  let fixture: ComponentFixture<SavedStories>;
+  let component: SavedStories;
+  const savedStories = signal<SavedStory[]>([]);
+  const removeStory = jasmine.createSpy('removeStory');
+
+  const saved: SavedStory = {
+    story: {
+      id: 7,
+      title: 'Saved Story',
+      by: 'reader',
+      time: 1672574400,
+      createdAt: '2023-01-01T10:00:00Z',
+      score: 10,
+      url: 'https://www.example.com/a',
+      type: 'story',
+      hasUrl: true,
+      commentCount: 2,
+      hackerNewsUrl: 'https://news.ycombinator.com/item?id=7'
+    },
+    comments: [],
+    savedAt: Date.now()
+  };
+
+  beforeEach(async () => {
+    savedStories.set([]);
+    removeStory.calls.reset();
+
+    await TestBed.configureTestingModule({
+      imports: [SavedStories],
+      providers: [
+        provideRouter([]),
+        { provide: OfflineStoriesService, useValue: { savedStories, removeStory } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(SavedStories);
+    component = fixture.componentInstance;
+  });
+
+  it('should show the empty state without saved stories', () => {
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.empty-section')).toBeTruthy();
+  });
+
+  it('should list saved stories linking to the detail view', () => {
+    savedStories.set([saved]);
+    fixture.detectChanges();
+
+    const link = (fixture.nativeElement as HTMLElement).querySelector<HTMLAnchorElement>('.story-link');
+    expect(link?.textContent).toContain('Saved Story');
+    expect(link?.getAttribute('href')).toBe('/story/7');
+    expect((fixture.nativeElement as HTMLElement).textContent).toContain('example.com');
+  });
+
+  it('should describe saved stories in the language picked', () => {
+    TestBed.inject(PreferencesService).update({ locale: 'de' });
+    savedStories.set([saved]);
+    fixture.detectChanges();
+
+    const subtitle = (fixture.nativeElement as HTMLElement).querySelector('mat-card-subtitle')?.textContent;
+    expect(subtitle).toContain('2 Kommentare');
+    expect(subtitle).toContain('gespeichert gerade eben');
+
+    localStorage.removeItem('hn.preferences');
+    document.documentElement.lang = 'en';
+  });
+
+  it('should remove a saved story', () => {
+    component.removeStory(7);
+
+    expect(removeStory).toHaveBeenCalledWith(7);
+  });
+});
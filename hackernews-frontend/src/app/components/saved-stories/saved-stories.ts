@@ -0,0 +1,44 @@
+import { Component, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { OfflineStoriesService } from '../../services/offline-stories.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { getDomainFromUrl } from '../../utils/story-format';
+
+@Component({
+  selector: 'app-saved-stories',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatTooltipModule
+  ],
+  templateUrl: './saved-stories.html',
+  styleUrl: './saved-stories.scss'
+})
+export class SavedStories {
+  protected readonly offlineStories = inject(OfflineStoriesService);
+  private readonly preferencesService = inject(PreferencesService);
+  protected readonly i18n = inject(I18nService);
+
+  removeStory(id: number) {
+    this.offlineStories.removeStory(id);
+  }
+
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  getDomainFromUrl(url: string | undefined): string {
+    return getDomainFromUrl(url);
+  }
+}
@@ -0,0 +1,110 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
+import { Settings } from './settings';
+import { PreferencesService } from '../../services/preferences.service';
+import { SearchSortOrder } from '../../models/story.model';
+
+describe('Settings', () => {
+  let component: Settings;
+  let fixture: ComponentFixture<Settings>;
+  let preferencesService: PreferencesService;
+
+  beforeEach(async () => {
+    localStorage.removeItem('hn.preferences');
+
+    await TestBed.configureTestingModule({
+      imports: [Settings],
+      providers: [provideRouter([])]
+    }).compileComponents();
+
+    preferencesService = TestBed.inject(PreferencesService);
+    preferencesService.update({ defaultFilters: { minScore: 10 } });
+    fixture = TestBed.createComponent(Settings);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.preferences');
+  });
+
+  it('should fill the filters form from the saved default filters', () => {
+    expect(component.filtersForm.value.minScore).toBe(10);
+  });
+
+  it('should save preferences as they change', () => {
+    component.update({ pageSize: 50, defaultSort: SearchSortOrder.Recent });
+
+    expect(preferencesService.preferences().pageSize).toBe(50);
+    expect(JSON.parse(localStorage.getItem('hn.preferences')!).defaultSort).toBe(SearchSortOrder.Recent);
+  });
+
+  it('should offer each language named in itself', () => {
+    const options = (fixture.nativeElement as HTMLElement).querySelectorAll('.locale-setting mat-button-toggle');
+
+    expect(Array.from(options).map(option => option.textContent?.trim())).toEqual(['English', 'Deutsch']);
+    expect(options[1].getAttribute('lang')).toBe('de');
+
+    component.update({ locale: 'de' });
+    expect(preferencesService.preferences().locale).toBe('de');
+  });
+
+  it('should show the page in the language picked', () => {
+    component.update({ locale: 'de' });
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.header-title')?.textContent).toBe('Einstellungen');
+    expect(compiled.querySelector('.reset-button')?.textContent).toContain('Auf Standardwerte zurücksetzen');
+    expect(Array.from(compiled.querySelectorAll('.theme-setting mat-button-toggle')).map(option => option.textContent?.trim()))
+      .toEqual(['Hell', 'Dunkel', 'System']);
+    document.documentElement.lang = 'en';
+  });
+
+  it('should save valid default filters and hold back invalid ones', () => {
+    component.filtersForm.patchValue({ fromDate: '-7d', excludedDomains: ['medium.com'], hasUrl: true });
+    expect(preferencesService.preferences().defaultFilters).toEqual({
+      fromDate: '-7d',
+      minScore: 10,
+      excludedDomains: ['medium.com'],
+      hasUrl: true
+    });
+
+    component.filtersForm.patchValue({ fromDate: 'last tuesday' });
+    expect(component.filtersForm.valid).toBe(false);
+    expect(preferencesService.preferences().defaultFilters.fromDate).toBe('-7d');
+  });
+
+  it('should import a preferences file and refresh the form', async () => {
+    const json = JSON.stringify({ version: 1, pageSize: 30, defaultFilters: { minScore: 50 } });
+    const file = new File([json], 'preferences.json', { type: 'application/json' });
+
+    await component.onImportFile({ target: { files: [file], value: 'preferences.json' } } as unknown as Event);
+    fixture.detectChanges();
+
+    expect(preferencesService.preferences().pageSize).toBe(30);
+    expect(component.filtersForm.value.minScore).toBe(50);
+    expect((fixture.nativeElement as HTMLElement).querySelector('.import-message')?.textContent)
+      .toContain('Imported preferences from "preferences.json"');
+  });
+
+  it('should show an error for an unreadable file', async () => {
+    spyOn(console, 'error');
+    const file = new File(['nope'], 'preferences.json');
+
+    await component.onImportFile({ target: { files: [file], value: 'preferences.json' } } as unknown as Event);
+    fixture.detectChanges();
+
+    expect((fixture.nativeElement as HTMLElement).querySelector('.import-error')?.textContent)
+      .toContain('The file is not valid JSON.');
+  });
+
+  it('should reset everything to the defaults', () => {
+    component.update({ theme: 'dark' });
+
+    component.resetToDefaults();
+
+    expect(preferencesService.preferences().theme).toBe('system');
+    expect(component.filtersForm.value.minScore).toBeNull();
+  });
+});
@@ -0,0 +1,167 @@
+import { Component, inject, signal } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { FormBuilder, ReactiveFormsModule } from '@angular/forms';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatIconModule } from '@angular/material/icon';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatFormFieldModule } from '@angular/material/form-field';
+import { MatInputModule } from '@angular/material/input';
+import { MatSelectModule } from '@angular/material/select';
+import { MatCheckboxModule } from '@angular/material/checkbox';
+import { ChipListInput } from '../chip-list-input/chip-list-input';
+import { PreferencesService, PAGE_SIZE_OPTIONS } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { QueryLanguageService } from '../../services/query-language.service';
+import { Preferences } from '../../models/preferences.model';
+import { SearchFilters, SearchSortOrder } from '../../models/story.model';
+import { dateFilterValidator } from '../../utils/date-filter';
+
+@Component({
+  selector: 'app-settings',
+  imports: [
+    CommonModule,
+    RouterLink,
+    ReactiveFormsModule,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatButtonToggleModule,
+    MatIconModule,
+    MatTooltipModule,
+    MatFormFieldModule,
+    MatInputModule,
+    MatSelectModule,
+    MatCheckboxModule,
+    ChipListInput
+  ],
+  templateUrl: './settings.html',
+  styleUrl: './settings.scss'
+})
+export class Settings {
+  protected readonly preferencesService = inject(PreferencesService);
+  private readonly queryLanguage = inject(QueryLanguageService);
+  private readonly fb = inject(FormBuilder);
+  protected readonly i18n = inject(I18nService);
+
+  importMessage = signal<string | null>(null);
+  error = signal<string | null>(null);
+
+  readonly pageSizeOptions = PAGE_SIZE_OPTIONS;
+  readonly localeOptions = this.i18n.localeOptions;
+  readonly sortOptions = [
+    { value: SearchSortOrder.Relevance, label: 'Relevance' },
+    { value: SearchSortOrder.Score, label: 'Score' },
+    { value: SearchSortOrder.Recent, label: 'Most Recent' },
+    { value: SearchSortOrder.Oldest, label: 'Oldest' },
+    { value: SearchSortOrder.Comments, label: 'Most Comments' }
+  ];
+
+  /** Default filters, saved whenever the form is valid. */
+  filtersForm = this.fb.group({
+    fromDate: ['', dateFilterValidator],
+    toDate: ['', dateFilterValidator],
+    minScore: [null as number | null],
+    maxScore: [null as number | null],
+    authors: [[] as string[]],
+    excludedAuthors: [[] as string[]],
+    domains: [[] as string[]],
+    excludedDomains: [[] as string[]],
+    hasUrl: [false]
+  });
+
+  readonly normalizeDomain = (value: string) => this.queryLanguage.toDomain(value);
+
+  constructor() {
+    this.resetFiltersForm();
+    this.filtersForm.valueChanges.pipe(
+      takeUntilDestroyed()
+    ).subscribe(() => {
+      if (this.filtersForm.valid) {
+        this.preferencesService.update({ defaultFilters: this.buildFilters() });
+      }
+    });
+  }
+
+  update(changes: Partial<Preferences>) {
+    this.preferencesService.update(changes);
+  }
+
+  resetToDefaults() {
+    this.preferencesService.reset();
+    this.resetFiltersForm();
+    this.importMessage.set(null);
+    this.error.set(null);
+  }
+
+  exportJson() {
+    this.download(this.preferencesService.exportJson(), 'hackernews-preferences.json', 'application/json');
+  }
+
+  async onImportFile(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) {
+      return;
+    }
+
+    this.error.set(null);
+    this.importMessage.set(null);
+
+    try {
+      this.preferencesService.importJson(await file.text());
+      this.resetFiltersForm();
+      this.importMessage.set(this.i18n.t('Imported preferences from "{name}".', { name: file.name }));
+    } catch (err) {
+      console.error('Error importing preferences:', err);
+      this.error.set(err instanceof Error
+        ? this.i18n.t('Could not import "{name}". {reason}', { name: file.name, reason: this.i18n.t(err.message) })
+        : this.i18n.t('Could not import "{name}".', { name: file.name }));
+    }
+  }
+
+  private resetFiltersForm() {
+    const filters = this.preferencesService.preferences().defaultFilters;
+    this.filtersForm.reset({
+      fromDate: filters.fromDate ?? '',
+      toDate: filters.toDate ?? '',
+      minScore: filters.minScore ?? null,
+      maxScore: filters.maxScore ?? null,
+      authors: filters.authors ?? [],
+      excludedAuthors: filters.excludedAuthors ?? [],
+      domains: filters.domains ?? [],
+      excludedDomains: filters.excludedDomains ?? [],
+      hasUrl: filters.hasUrl ?? false
+    }, { emitEvent: false });
+  }
+
+  /** Blank fields are left out; the service drops anything else a search couldn't use. */
+  private buildFilters(): SearchFilters {
+    const value = this.filtersForm.getRawValue();
+    return {
+      fromDate: value.fromDate || undefined,
+      toDate: value.toDate || undefined,
+      minScore: value.minScore ?? undefined,
+      maxScore: value.maxScore ?? undefined,
+      authors: value.authors ?? [],
+      excludedAuthors: value.excludedAuthors ?? [],
+      domains: value.domains ?? [],
+      excludedDomains: value.excludedDomains ?? [],
+      hasUrl: value.hasUrl || undefined
+    };
+  }
+
+  private download(content: string, fileName: string, type: string) {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
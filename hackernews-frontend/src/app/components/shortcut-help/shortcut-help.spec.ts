@@ -0,0 +1,32 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ShortcutHelp, KEYBOARD_SHORTCUTS } from './shortcut-help';
+
+describe('ShortcutHelp', () => {
+  let fixture: ComponentFixture<ShortcutHelp>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ShortcutHelp]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(ShortcutHelp);
+    fixture.detectChanges();
+  });
+
+  it('should list every shortcut', () => {
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelectorAll('dt').length).toBe(KEYBOARD_SHORTCUTS.length);
+    expect(compiled.textContent).toContain('Open the command palette');
+  });
+
+  it('should close from the backdrop and the close button', () => {
+    const closed = jasmine.createSpy('closed');
+    fixture.componentInstance.closed.subscribe(closed);
+    const compiled = fixture.nativeElement as HTMLElement;
+
+    compiled.querySelector<HTMLElement>('.help-backdrop')!.click();
+    compiled.querySelector<HTMLElement>('.close-help')!.click();
+
+    expect(closed).toHaveBeenCalledTimes(2);
+  });
+});
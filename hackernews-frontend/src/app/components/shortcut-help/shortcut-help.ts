@@ -0,0 +1,39 @@
+import { Component, inject, output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { I18nService } from '../../services/i18n.service';
+
+export interface KeyboardShortcut {
+  keys: string[];
+  description: string;
+}
+
+export const KEYBOARD_SHORTCUTS: KeyboardShortcut[] = [
+  { keys: ['j'], description: 'Select the next story' },
+  { keys: ['k'], description: 'Select the previous story' },
+  { keys: ['o'], description: 'Open the selected story' },
+  { keys: ['c'], description: 'Open the comments of the selected story' },
+  { keys: ['b'], description: 'Bookmark the selected story' },
+  { keys: ['/'], description: 'Focus the search field' },
+  { keys: ['n'], description: 'Next page' },
+  { keys: ['p'], description: 'Previous page' },
+  { keys: ['Ctrl', 'K'], description: 'Open the command palette' },
+  { keys: ['?'], description: 'Show this help' },
+  { keys: ['Esc'], description: 'Close this help or the command palette' }
+];
+
+@Component({
+  selector: 'app-shortcut-help',
+  imports: [CommonModule, MatCardModule, MatButtonModule, MatIconModule],
+  templateUrl: './shortcut-help.html',
+  styleUrl: './shortcut-help.scss'
+})
+export class ShortcutHelp {
+  protected readonly i18n = inject(I18nService);
+
+  closed = output<void>();
+
+  shortcuts = KEYBOARD_SHORTCUTS;
+}
@@ -0,0 +1,340 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { ActivatedRoute, ParamMap, convertToParamMap, provideRouter } from '@angular/router';
+import { signal } from '@angular/core';
+import { Subject, of, throwError } from 'rxjs';
+import { StoryDetail, REPLY_BATCH_SIZE } from './story-detail';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { OfflineStoriesService, SavedStory } from '../../services/offline-stories.service';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { ReadStateService } from '../../services/read-state.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { Story } from '../../models/story.model';
+import { StoryComment } from '../../models/comment.model';
+import { ApiError } from '../../models/api-error.model';
+import { makeComment, makeStory } from '../../testing/fixtures';
+
+describe('StoryDetail', () => {
+  let component: StoryDetail;
+  let fixture: ComponentFixture<StoryDetail>;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+  let mockOfflineStories: jasmine.SpyObj<OfflineStoriesService>;
+  const online = signal(true);
+
+  const commentsById = new Map<number, StoryComment>();
+
+  const mockStory = makeStory(1, {
+    title: 'Test Story',
+    score: 100,
+    url: 'https://example.com/story',
+    kids: [10, 20],
+    descendants: 4,
+    commentCount: 4
+  });
+
+  beforeEach(async () => {
+    commentsById.clear();
+    [
+      makeComment(10, { kids: [11] }),
+      makeComment(11, { kids: [12] }),
+      makeComment(12, { kids: [13] }),
+      makeComment(13),
+      makeComment(20)
+    ].forEach(comment => commentsById.set(comment.id, comment));
+
+    online.set(true);
+    localStorage.removeItem('hn.readStories');
+    mockOfflineStories = jasmine.createSpyObj('OfflineStoriesService', [
+      'getSavedStory',
+      'saveStory',
+      'removeStory',
+      'isSaved',
+      'isSaving'
+    ]);
+    mockOfflineStories.getSavedStory.and.returnValue(Promise.resolve(undefined));
+    mockOfflineStories.isSaved.and.returnValue(false);
+    mockOfflineStories.isSaving.and.returnValue(false);
+
+    const spy = jasmine.createSpyObj('HackerNewsService', ['getStory', 'getComments']);
+    spy.getStory.and.returnValue(of(mockStory));
+    spy.getComments.and.callFake((ids: number[]) =>
+      of(ids.map(id => commentsById.get(id)).filter((comment): comment is StoryComment => !!comment))
+    );
+
+    await TestBed.configureTestingModule({
+      imports: [StoryDetail],
+      providers: [
+        provideRouter([]),
+        { provide: HackerNewsService, useValue: spy },
+        { provide: OfflineStoriesService, useValue: mockOfflineStories },
+        { provide: ConnectivityService, useValue: { online } },
+        { provide: ActivatedRoute, useValue: { paramMap: of(convertToParamMap({ id: '1' })) } }
+      ]
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(StoryDetail);
+    component = fixture.componentInstance;
+    mockHackerNewsService = TestBed.inject(HackerNewsService) as jasmine.SpyObj<HackerNewsService>;
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should load the story from the route id', () => {
+    component.ngOnInit();
+
+    expect(mockHackerNewsService.getStory).toHaveBeenCalledWith(1);
+    expect(component.story()).toEqual(mockStory);
+    expect(component.loading()).toBe(false);
+  });
+
+  it('should mark the story as read when its thread is opened', () => {
+    component.ngOnInit();
+
+    expect(TestBed.inject(ReadStateService).isRead(1)).toBe(true);
+    localStorage.removeItem('hn.readStories');
+  });
+
+  it('should load top-level comments and auto-expand shallow replies', () => {
+    component.ngOnInit();
+
+    const threads = component.threads();
+    expect(threads.map(thread => thread.comment.id)).toEqual([10, 20]);
+    expect(threads[0].replies()[0].comment.id).toBe(11);
+    expect(threads[0].replies()[0].replies()[0].comment.id).toBe(12);
+  });
+
+  it('should leave deep branches for lazy loading', () => {
+    component.ngOnInit();
+
+    const deepThread = component.threads()[0].replies()[0].replies()[0];
+    expect(deepThread.replies()).toEqual([]);
+    expect(component.remainingReplies(deepThread)).toBe(1);
+
+    component.loadReplies(deepThread);
+
+    expect(deepThread.replies()[0].comment.id).toBe(13);
+    expect(component.remainingReplies(deepThread)).toBe(0);
+  });
+
+  it('should load more top-level comments in batches', () => {
+    const kids = Array.from({ length: REPLY_BATCH_SIZE + 3 }, (_, i) => 100 + i);
+    kids.forEach(id => commentsById.set(id, makeComment(id)));
+    mockHackerNewsService.getStory.and.returnValue(of({ ...mockStory, kids }));
+
+    component.ngOnInit();
+
+    expect(component.threads().length).toBe(REPLY_BATCH_SIZE);
+    expect(component.remainingComments()).toBe(3);
+
+    component.loadMoreComments();
+
+    expect(component.threads().length).toBe(REPLY_BATCH_SIZE + 3);
+    expect(component.remainingComments()).toBe(0);
+  });
+
+  it('should toggle a thread collapsed state', () => {
+    component.ngOnInit();
+    const thread = component.threads()[0];
+
+    component.toggleCollapsed(thread);
+    expect(thread.collapsed()).toBe(true);
+
+    component.toggleCollapsed(thread);
+    expect(thread.collapsed()).toBe(false);
+  });
+
+  it('should show an error when the story fails to load', async () => {
+    spyOn(console, 'error');
+    mockHackerNewsService.getStory.and.returnValue(throwError(() => new Error('API Error')));
+
+    component.ngOnInit();
+    await fixture.whenStable();
+
+    expect(component.error()).toBe('Failed to load story. Please try again.');
+    expect(component.loading()).toBe(false);
+  });
+
+  it('should say when the story does not exist', async () => {
+    spyOn(console, 'error');
+    const notFound: ApiError = { kind: 'client', status: 404, message: 'Not Found', url: '/api/stories/1' };
+    mockHackerNewsService.getStory.and.returnValue(throwError(() => notFound));
+
+    component.ngOnInit();
+    await fixture.whenStable();
+    fixture.detectChanges();
+
+    expect(component.error()).toBe('The story could not be found.');
+    expect((fixture.nativeElement as HTMLElement).querySelector('.retry-btn')).toBeNull();
+  });
+
+  it('should retry a story that timed out', async () => {
+    spyOn(console, 'error');
+    const timedOut: ApiError = { kind: 'timeout', timeoutMs: 15000, message: 'No response', url: '/api/stories/1' };
+    mockHackerNewsService.getStory.and.returnValue(throwError(() => timedOut));
+    component.ngOnInit();
+    await fixture.whenStable();
+
+    expect(component.errorDisplay()?.recovery).toBe('retry');
+
+    mockHackerNewsService.getStory.and.returnValue(of(mockStory));
+    component.retryLoad();
+
+    expect(component.error()).toBeNull();
+    expect(component.story()).toEqual(mockStory);
+  });
+
+  describe('changing stories', () => {
+    let paramMaps: Subject<ParamMap>;
+
+    beforeEach(() => {
+      paramMaps = new Subject<ParamMap>();
+      Object.assign(TestBed.inject(ActivatedRoute), { paramMap: paramMaps });
+    });
+
+    it('should drop a story still loading when the id changes', () => {
+      const firstStory = new Subject<Story>();
+      const secondStory: Story = { ...mockStory, id: 2, title: 'Second Story', kids: [] };
+      mockHackerNewsService.getStory.and.callFake(id => id === 1 ? firstStory : of(secondStory));
+      component.ngOnInit();
+
+      paramMaps.next(convertToParamMap({ id: '1' }));
+      paramMaps.next(convertToParamMap({ id: '2' }));
+      firstStory.next(mockStory);
+
+      expect(firstStory.observed).toBe(false);
+      expect(component.story()).toEqual(secondStory);
+    });
+
+    it('should drop comments of the previous story and start its thread afresh', () => {
+      const pendingComments = new Subject<StoryComment[]>();
+      mockHackerNewsService.getComments.and.returnValue(pendingComments);
+      component.ngOnInit();
+      paramMaps.next(convertToParamMap({ id: '1' }));
+      expect(component.loadingComments()).toBe(true);
+
+      mockHackerNewsService.getStory.and.returnValue(of({ ...mockStory, id: 2, kids: [] }));
+      paramMaps.next(convertToParamMap({ id: '2' }));
+      pendingComments.next([makeComment(10)]);
+
+      expect(pendingComments.observed).toBe(false);
+      expect(component.threads()).toEqual([]);
+      expect(component.requestedComments()).toBe(0);
+      expect(component.loadingComments()).toBe(false);
+    });
+
+    it('should stop loading comments when destroyed', () => {
+      const pendingComments = new Subject<StoryComment[]>();
+      mockHackerNewsService.getComments.and.returnValue(pendingComments);
+      component.ngOnInit();
+      paramMaps.next(convertToParamMap({ id: '1' }));
+
+      fixture.destroy();
+
+      expect(pendingComments.observed).toBe(false);
+    });
+
+    it('should reject an invalid id', () => {
+      component.ngOnInit();
+      paramMaps.next(convertToParamMap({ id: 'abc' }));
+
+      expect(mockHackerNewsService.getStory).not.toHaveBeenCalled();
+      expect(component.error()).toBe('Invalid story id.');
+      expect(component.loading()).toBe(false);
+    });
+  });
+
+  describe('offline reading', () => {
+    const saved: SavedStory = {
+      story: mockStory,
+      comments: [
+        { comment: makeComment(10, { kids: [11] }), replies: [{ comment: makeComment(11), replies: [] }] },
+        { comment: makeComment(20), replies: [] }
+      ],
+      savedAt: Date.now()
+    };
+
+    it('should fall back to the saved copy when the request fails', async () => {
+      spyOn(console, 'error');
+      mockHackerNewsService.getStory.and.returnValue(throwError(() => new Error('API Error')));
+      mockOfflineStories.getSavedStory.and.returnValue(Promise.resolve(saved));
+
+      component.ngOnInit();
+      await fixture.whenStable();
+
+      expect(component.error()).toBeNull();
+      expect(component.showingOfflineCopy()).toBe(true);
+      expect(component.threads()[0].replies()[0].comment.id).toBe(11);
+      expect(component.remainingComments()).toBe(0);
+      expect(component.remainingReplies(component.threads()[0])).toBe(0);
+    });
+
+    it('should read the saved copy without a request while offline', async () => {
+      online.set(false);
+      mockOfflineStories.getSavedStory.and.returnValue(Promise.resolve(saved));
+
+      component.ngOnInit();
+      await fixture.whenStable();
+
+      expect(mockHackerNewsService.getStory).not.toHaveBeenCalled();
+      expect(component.story()).toEqual(mockStory);
+    });
+
+    it('should save the story for offline reading', () => {
+      mockOfflineStories.saveStory.and.returnValue(of(saved));
+      component.ngOnInit();
+
+      component.toggleSavedForOffline();
+
+      expect(mockOfflineStories.saveStory).toHaveBeenCalledWith(mockStory);
+    });
+
+    it('should remove a story that is already saved', () => {
+      mockOfflineStories.isSaved.and.returnValue(true);
+      component.ngOnInit();
+
+      component.toggleSavedForOffline();
+
+      expect(mockOfflineStories.removeStory).toHaveBeenCalledWith(1);
+      expect(mockOfflineStories.saveStory).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should render the comment tree', () => {
+    fixture.detectChanges();
+
+    const compiled = fixture.nativeElement as HTMLElement;
+    expect(compiled.querySelector('.story-title')?.textContent).toContain('Test Story');
+    expect(compiled.querySelectorAll('.comment').length).toBe(4);
+    expect(compiled.querySelector('.load-more-replies')?.textContent).toContain('Show 1 reply');
+  });
+
+  describe('in German', () => {
+    beforeEach(() => {
+      localStorage.removeItem('hn.preferences');
+      TestBed.inject(PreferencesService).update({ locale: 'de' });
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+      document.documentElement.lang = 'en';
+    });
+
+    it('should show the story and its comments in German', () => {
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.header-title')?.textContent).toBe('Diskussion');
+      expect(compiled.querySelector('.meta-chips')?.textContent).toContain('4 Kommentare');
+      expect(compiled.querySelector('.load-more-replies')?.textContent).toContain('1 Antwort anzeigen');
+    });
+
+    it('should say when there are no comments in German', () => {
+      mockHackerNewsService.getStory.and.returnValue(of({ ...mockStory, kids: [] }));
+      fixture.detectChanges();
+
+      expect((fixture.nativeElement as HTMLElement).querySelector('.no-comments')?.textContent?.trim())
+        .toBe('Noch keine Kommentare.');
+    });
+  });
+});
@@ -0,0 +1,276 @@
+import { Component, inject, signal, OnInit, DestroyRef, WritableSignal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, RouterLink } from '@angular/router';
+import { EMPTY, Observable, Subject, catchError, from, map, startWith, switchMap, takeUntil, tap } from 'rxjs';
+import { MatToolbarModule } from '@angular/material/toolbar';
+import { MatCardModule } from '@angular/material/card';
+import { MatButtonModule } from '@angular/material/button';
+import { MatIconModule } from '@angular/material/icon';
+import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
+import { MatChipsModule } from '@angular/material/chips';
+import { MatTooltipModule } from '@angular/material/tooltip';
+import { HackerNewsService } from '../../services/hackernews.service';
+import { OfflineStoriesService, SavedStory } from '../../services/offline-stories.service';
+import { ConnectivityService } from '../../services/connectivity.service';
+import { ReadStateService } from '../../services/read-state.service';
+import { Story } from '../../models/story.model';
+import { StoryComment, StoryCommentNode } from '../../models/comment.model';
+import { PreferencesService } from '../../services/preferences.service';
+import { I18nService } from '../../services/i18n.service';
+import { getDomainFromUrl } from '../../utils/story-format';
+import { ErrorDisplay, describeLoadError } from '../../utils/error-format';
+
+/** Number of comments requested at once, both for top-level comments and replies. */
+export const REPLY_BATCH_SIZE = 10;
+
+/** Replies are fetched automatically down to this depth; deeper branches load on demand. */
+export const AUTO_EXPAND_DEPTH = 3;
+
+export interface CommentThread {
+  comment: StoryComment;
+  depth: number;
+  replies: WritableSignal<CommentThread[]>;
+  requestedReplies: WritableSignal<number>;
+  collapsed: WritableSignal<boolean>;
+  loading: WritableSignal<boolean>;
+}
+
+@Component({
+  selector: 'app-story-detail',
+  imports: [
+    CommonModule,
+    RouterLink,
+    MatToolbarModule,
+    MatCardModule,
+    MatButtonModule,
+    MatIconModule,
+    MatProgressSpinnerModule,
+    MatChipsModule,
+    MatTooltipModule
+  ],
+  templateUrl: './story-detail.html',
+  styleUrl: './story-detail.scss'
+})
+export class StoryDetail implements OnInit {
+  private readonly hackerNewsService = inject(HackerNewsService);
+  protected readonly preferencesService = inject(PreferencesService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly connectivity = inject(ConnectivityService);
+  private readonly readState = inject(ReadStateService);
+  protected readonly offlineStories = inject(OfflineStoriesService);
+  protected readonly i18n = inject(I18nService);
+
+  story = signal<Story | null>(null);
+  threads = signal<CommentThread[]>([]);
+  requestedComments = signal<number>(0);
+  loading = signal<boolean>(false);
+  loadingComments = signal<boolean>(false);
+  error = signal<string | null>(null);
+  errorDisplay = signal<ErrorDisplay | null>(null);
+  showingOfflineCopy = signal<boolean>(false);
+  /** Emits to load the current story again. */
+  private readonly reloads = new Subject<void>();
+  /** Emits whenever a story starts loading, ending comment requests made for the one before. */
+  private readonly storyChanges = new Subject<void>();
+
+  ngOnInit() {
+    // A new id, or a retry, cancels whatever was still loading
+    this.route.paramMap.pipe(
+      map(paramMap => Number(paramMap.get('id'))),
+      switchMap(id => this.reloads.pipe(startWith(undefined), map(() => id))),
+      switchMap(id => this.loadStory(id)),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe();
+  }
+
+  retryLoad() {
+    this.reloads.next();
+  }
+
+  reloadPage() {
+    window.location.reload();
+  }
+
+  toggleSavedForOffline() {
+    const story = this.story();
+    if (!story) {
+      return;
+    }
+
+    if (this.offlineStories.isSaved(story.id)) {
+      this.offlineStories.removeStory(story.id);
+      return;
+    }
+
+    this.offlineStories.saveStory(story).subscribe({
+      error: (err) => console.error('Error saving story for offline reading:', err)
+    });
+  }
+
+  loadMoreComments() {
+    const kids = this.story()?.kids ?? [];
+    const start = this.requestedComments();
+    const batch = kids.slice(start, start + REPLY_BATCH_SIZE);
+    if (batch.length === 0) {
+      return;
+    }
+
+    this.loadingComments.set(true);
+    this.requestedComments.set(start + batch.length);
+
+    this.hackerNewsService.getComments(batch).pipe(
+      takeUntil(this.storyChanges),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: (comments) => {
+        this.threads.update(threads => [...threads, ...comments.map(comment => this.createThread(comment, 0))]);
+        this.loadingComments.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading comments:', err);
+        this.requestedComments.set(start);
+        this.loadingComments.set(false);
+      }
+    });
+  }
+
+  loadReplies(thread: CommentThread) {
+    const kids = thread.comment.kids ?? [];
+    const start = thread.requestedReplies();
+    const batch = kids.slice(start, start + REPLY_BATCH_SIZE);
+    if (batch.length === 0 || thread.loading()) {
+      return;
+    }
+
+    thread.loading.set(true);
+    thread.requestedReplies.set(start + batch.length);
+
+    this.hackerNewsService.getComments(batch).pipe(
+      takeUntil(this.storyChanges),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe({
+      next: (comments) => {
+        thread.replies.update(replies => [
+          ...replies,
+          ...comments.map(comment => this.createThread(comment, thread.depth + 1))
+        ]);
+        thread.loading.set(false);
+      },
+      error: (err) => {
+        console.error('Error loading replies:', err);
+        thread.requestedReplies.set(start);
+        thread.loading.set(false);
+      }
+    });
+  }
+
+  toggleCollapsed(thread: CommentThread) {
+    thread.collapsed.set(!thread.collapsed());
+  }
+
+  remainingComments(): number {
+    return (this.story()?.kids?.length ?? 0) - this.requestedComments();
+  }
+
+  remainingReplies(thread: CommentThread): number {
+    return (thread.comment.kids?.length ?? 0) - thread.requestedReplies();
+  }
+
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  getDomainFromUrl(url: string | undefined): string {
+    return getDomainFromUrl(url);
+  }
+
+  /** Clears what was shown for the previous story and starts loading `id`. */
+  private loadStory(id: number): Observable<unknown> {
+    this.storyChanges.next();
+    this.story.set(null);
+    this.threads.set([]);
+    this.requestedComments.set(0);
+    this.loadingComments.set(false);
+    this.showingOfflineCopy.set(false);
+    this.errorDisplay.set(null);
+
+    if (!Number.isInteger(id) || id <= 0) {
+      this.loading.set(false);
+      this.error.set(this.i18n.t('Invalid story id.'));
+      return EMPTY;
+    }
+
+    this.loading.set(true);
+    this.error.set(null);
+    this.readState.markRead(id);
+
+    if (!this.connectivity.online()) {
+      return this.loadSavedStory(id);
+    }
+
+    return this.hackerNewsService.getStory(id).pipe(
+      tap(story => {
+        this.story.set(story);
+        this.loading.set(false);
+        this.loadMoreComments();
+      }),
+      catchError(err => {
+        console.error('Error loading story:', err);
+        return this.loadSavedStory(id, err);
+      })
+    );
+  }
+
+  /** Falls back to the copy saved for offline reading, if there is one. */
+  private loadSavedStory(id: number, err: unknown = null): Observable<unknown> {
+    return from(this.offlineStories.getSavedStory(id)).pipe(
+      tap(saved => {
+        if (saved) {
+          this.showSavedStory(saved);
+        } else {
+          const display = describeLoadError(err, 'story', this.i18n.locale());
+          this.errorDisplay.set(display);
+          this.error.set(display.message);
+        }
+        this.loading.set(false);
+      })
+    );
+  }
+
+  private showSavedStory(saved: SavedStory) {
+    this.story.set(saved.story);
+    this.requestedComments.set(saved.story.kids?.length ?? 0);
+    this.threads.set(saved.comments.map(node => this.createSavedThread(node, 0)));
+    this.showingOfflineCopy.set(true);
+  }
+
+  private createSavedThread(node: StoryCommentNode, depth: number): CommentThread {
+    return {
+      comment: node.comment,
+      depth,
+      replies: signal<CommentThread[]>(node.replies.map(reply => this.createSavedThread(reply, depth + 1))),
+      requestedReplies: signal<number>(node.comment.kids?.length ?? 0),
+      collapsed: signal<boolean>(false),
+      loading: signal<boolean>(false)
+    };
+  }
+
+  private createThread(comment: StoryComment, depth: number): CommentThread {
+    const thread: CommentThread = {
+      comment,
+      depth,
+      replies: signal<CommentThread[]>([]),
+      requestedReplies: signal<number>(0),
+      collapsed: signal<boolean>(false),
+      loading: signal<boolean>(false)
+    };
+
+    if (depth < AUTO_EXPAND_DEPTH - 1) {
+      this.loadReplies(thread);
+    }
+
+    return thread;
+  }
+}
@@ -1,19 +1,22 @@
+import { ApplicationRef } from '@angular/core';
 import { ComponentFixture, TestBed } from '@angular/core/testing';
-import { of, throwError, NEVER } from 'rxjs';
-import { StoryList } from './story-list';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
+import { of, throwError, NEVER, Subject } from 'rxjs';
+import { StoryList, MAX_LOADED_PAGES } from './story-list';
 import { HackerNewsService } from '../../services/hackernews.service';
-import { Story, PagedStoryResult } from '../../models/story.model';
+import { ReadStateService } from '../../services/read-state.service';
+import { MuteService } from '../../services/mute.service';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { LiveFeedService } from '../../services/live-feed.service';
+import { DisplaySettingsService } from '../../services/display-settings.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { Story, PagedStoryResult, SearchSortOrder, SearchTooBroadError } from '../../models/story.model';
+import { formatDateTime } from '../../utils/story-format';
+import { findAccessibilityViolations } from '../../testing/accessibility';
+import { ApiError } from '../../models/api-error.model';
 import { FormsModule } from '@angular/forms';
-import { RouterLink } from '@angular/router';
-import { Component } from '@angular/core';
-
-@Component({
-  selector: 'mock-router-link',
-  template: '<ng-content></ng-content>'
-})
-class MockRouterLinkComponent {
-  routerLink: any;
-}
+import { ActivatedRoute, ParamMap, Router, convertToParamMap, provideRouter } from '@angular/router';
 
 describe('StoryList', () => {
   let component: StoryList;
@@ -59,22 +62,28 @@ describe('StoryList', () => {
   };
 
   beforeEach(async () => {
+    localStorage.removeItem('hn.listMode');
+    localStorage.removeItem('hn.bookmarks');
+    localStorage.removeItem('hn.readStories');
+    localStorage.removeItem('hn.hideReadStories');
+    localStorage.removeItem('hn.savedSearches');
+    localStorage.removeItem('hn.muteRules');
+    localStorage.removeItem('hn.liveFeed');
+    localStorage.removeItem('hn.preferences');
     const spy = jasmine.createSpyObj('HackerNewsService', [
       'getStories',
       'searchStories',
-      'getSearchSuggestions'
+      'getSearchSuggestions',
+      'invalidateCache'
     ]);
 
     await TestBed.configureTestingModule({
       imports: [StoryList, FormsModule],
       providers: [
+        provideRouter([]),
         { provide: HackerNewsService, useValue: spy }
       ]
     })
-    .overrideComponent(StoryList, {
-      remove: { imports: [RouterLink] },
-      add: { imports: [MockRouterLinkComponent] }
-    })
     .compileComponents();
 
     fixture = TestBed.createComponent(StoryList);
@@ -228,28 +237,15 @@ describe('StoryList', () => {
       expect(component.currentPage()).toBe(1);
       expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(1, 20);
     });
-  });
-
-  describe('utility methods', () => {
-    it('should format time ago correctly', () => {
-      const now = new Date();
-      
-      const thirtyMinutesAgo = new Date(now.getTime() - 30 * 60 * 1000);
-      expect(component.formatTimeAgo(thirtyMinutesAgo)).toBe('30m ago');
-
-      const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-      expect(component.formatTimeAgo(oneHourAgo)).toBe('1h ago');
-
-      const threeHoursAgo = new Date(now.getTime() - 3 * 60 * 60 * 1000);
-      expect(component.formatTimeAgo(threeHoursAgo)).toBe('3h ago');
 
-      const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-      expect(component.formatTimeAgo(oneDayAgo)).toBe('1d ago');
+    it('should drop cached search results when clearing the search', () => {
+      component.clearSearch();
 
-      const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
-      expect(component.formatTimeAgo(threeDaysAgo)).toBe('3d ago');
+      expect(mockHackerNewsService.invalidateCache).toHaveBeenCalledWith('search');
     });
+  });
 
+  describe('utility methods', () => {
     it('should extract domain from URL', () => {
       expect(component.getDomainFromUrl('https://www.example.com/path')).toBe('example.com');
       expect(component.getDomainFromUrl('http://github.com/user/repo')).toBe('github.com');
@@ -346,7 +342,7 @@ describe('StoryList', () => {
     it('should clear all filters', () => {
       component.filtersForm.patchValue({
         fromDate: '2023-01-01',
-        author: 'test',
+        authors: ['test'],
         minScore: 50
       });
       spyOn(component, 'onFiltersChanged');
@@ -354,7 +350,7 @@ describe('StoryList', () => {
       component.clearAllFilters();
       
       expect(component.filtersForm.get('fromDate')?.value).toBeNull();
-      expect(component.filtersForm.get('author')?.value).toBeNull();
+      expect(component.filtersForm.get('authors')?.value).toBeNull();
       expect(component.filtersForm.get('minScore')?.value).toBeNull();
       expect(component.onFiltersChanged).toHaveBeenCalled();
     });
@@ -374,8 +370,8 @@ describe('StoryList', () => {
       expect(component.getActiveFiltersCount()).toBe(0);
       
       component.filtersForm.patchValue({
-        fromDate: new Date(),
-        author: 'test',
+        fromDate: '-7d',
+        authors: ['test', 'pg'],
         minScore: 50
       });
       
@@ -388,12 +384,14 @@ describe('StoryList', () => {
         toDate: '2023-12-31',
         minScore: 10,
         maxScore: 100,
-        author: 'testuser',
-        domain: 'example.com',
+        authors: ['testuser'],
+        excludedAuthors: ['bot'],
+        domains: ['example.com'],
+        excludedDomains: ['medium.com'],
         hasUrl: true
       });
       
-      expect(component.getActiveFiltersCount()).toBe(7);
+      expect(component.getActiveFiltersCount()).toBe(9);
     });
 
     it('should build filters object correctly', () => {
@@ -405,8 +403,8 @@ describe('StoryList', () => {
         toDate,
         minScore: 10,
         maxScore: 100,
-        author: 'testuser',
-        domain: 'example.com',
+        authors: ['testuser', 'pg'],
+        excludedDomains: ['example.com'],
         hasUrl: true
       });
       
@@ -418,17 +416,64 @@ describe('StoryList', () => {
         jasmine.objectContaining({
           filters: jasmine.objectContaining({
             minScore: 10,
-            author: 'testuser',
+            authors: ['testuser', 'pg'],
+            excludedDomains: ['example.com'],
             hasUrl: true
           })
         })
       );
     });
 
-    it('should handle empty and whitespace-only filter values', () => {
+    it('should trust the next page flag of merged search results', () => {
+      mockHackerNewsService.searchStories.and.returnValue(of({ items: mockStories, page: 1, pageSize: 20, hasNextPage: true }));
+      component.filtersForm.patchValue({ domains: ['github.com', 'gitlab.com'] });
+
+      component.onFiltersChanged();
+
+      expect(component.hasNextPage()).toBe(true);
+    });
+
+    it('should apply a date preset and clear it when selected again', () => {
+      const pastWeek = component.datePresets.find(preset => preset.label === 'Past week')!;
+
+      component.applyDatePreset(pastWeek);
+
+      expect(component.activeDatePreset()).toBe(pastWeek);
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        filters: { fromDate: '-7d' }
+      }));
+
+      component.applyDatePreset(pastWeek);
+
+      expect(component.filtersForm.value.fromDate).toBeNull();
+      expect(component.activeDatePreset()).toBeUndefined();
+    });
+
+    it('should leave unparseable dates out of the search and flag them', () => {
+      component.filtersForm.patchValue({ fromDate: 'last tuesday', toDate: '2025-01-31T14' });
+
+      expect(component.filtersForm.get('fromDate')?.hasError('dateFilter')).toBe(true);
+      expect(component.getActiveFiltersCount()).toBe(1);
+
+      component.onFiltersChanged();
+
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        filters: { toDate: '2025-01-31T14' }
+      }));
+    });
+
+    it('should write a picked calendar day into the date field', () => {
+      component.onDatePicked('toDate', new Date(2025, 11, 31, 15));
+
+      expect(component.filtersForm.value.toDate).toBe('2025-12-31');
+      expect(component.describeDateBound('toDate')).toContain('Until');
+      expect(component.describeDateBound('fromDate')).toBe('');
+    });
+
+    it('should handle empty filter values', () => {
       component.filtersForm.patchValue({
-        author: '  ',
-        domain: '',
+        authors: [],
+        domains: null,
         minScore: '',
         maxScore: null
       });
@@ -437,35 +482,93 @@ describe('StoryList', () => {
     });
   });
 
-  describe('formatTimeAgo edge cases', () => {
-    it('should handle "just now" case', () => {
-      const now = new Date();
-      const justNow = new Date(now.getTime() - 30000); // 30 seconds ago
-      
-      expect(component.formatTimeAgo(justNow)).toBe('just now');
-    });
+  const timeAgoCases = [
+    {
+      locale: 'en' as const,
+      thirtyMinutes: '30m ago',
+      oneHour: '1h ago',
+      threeHours: '3h ago',
+      oneDay: '1d ago',
+      threeDays: '3d ago',
+      sixMonths: '6mo ago',
+      twoYears: '2y ago',
+      justNow: 'just now',
+      unknown: 'unknown',
+      longAgo: /\d+[dmy] ago/
+    },
+    {
+      locale: 'de' as const,
+      thirtyMinutes: 'vor 30 m',
+      oneHour: 'vor 1 Std.',
+      threeHours: 'vor 3 Std.',
+      oneDay: 'vor 1 Tag',
+      threeDays: 'vor 3 Tagen',
+      sixMonths: 'vor 6 Monaten',
+      twoYears: 'vor 2 Jahren',
+      justNow: 'gerade eben',
+      unknown: 'unbekannt',
+      longAgo: /^vor \d+ (Tagen|Monaten|Jahren)$/
+    }
+  ];
 
-    it('should handle invalid dates', () => {
-      const invalidDate = new Date('invalid');
-      
-      expect(component.formatTimeAgo(invalidDate)).toBe('unknown');
-    });
+  timeAgoCases.forEach(expected => {
+    describe(`formatTimeAgo in ${expected.locale}`, () => {
+      beforeEach(() => {
+        TestBed.inject(PreferencesService).update({ locale: expected.locale });
+      });
 
-    it('should handle string dates', () => {
-      const dateString = '2023-01-01T00:00:00Z';
-      const result = component.formatTimeAgo(dateString);
-      
-      expect(result).toMatch(/\d+[dmy] ago/);
-    });
+      afterEach(() => {
+        localStorage.removeItem('hn.preferences');
+      });
 
-    it('should handle months and years', () => {
-      const now = new Date();
-      
-      const sixMonthsAgo = new Date(now.getTime() - 6 * 30 * 24 * 60 * 60 * 1000);
-      expect(component.formatTimeAgo(sixMonthsAgo)).toBe('6mo ago');
-      
-      const twoYearsAgo = new Date(now.getTime() - 2 * 365 * 24 * 60 * 60 * 1000);
-      expect(component.formatTimeAgo(twoYearsAgo)).toBe('2y ago');
+      it('should format time ago correctly', () => {
+        const now = new Date();
+
+        const thirtyMinutesAgo = new Date(now.getTime() - 30 * 60 * 1000);
+        expect(component.formatTimeAgo(thirtyMinutesAgo)).toBe(expected.thirtyMinutes);
+
+        const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
+        expect(component.formatTimeAgo(oneHourAgo)).toBe(expected.oneHour);
+
+        const threeHoursAgo = new Date(now.getTime() - 3 * 60 * 60 * 1000);
+        expect(component.formatTimeAgo(threeHoursAgo)).toBe(expected.threeHours);
+
+        const oneDayAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+        expect(component.formatTimeAgo(oneDayAgo)).toBe(expected.oneDay);
+
+        const threeDaysAgo = new Date(now.getTime() - 3 * 24 * 60 * 60 * 1000);
+        expect(component.formatTimeAgo(threeDaysAgo)).toBe(expected.threeDays);
+      });
+
+      it('should handle "just now" case', () => {
+        const now = new Date();
+        const justNow = new Date(now.getTime() - 30000); // 30 seconds ago
+
+        expect(component.formatTimeAgo(justNow)).toBe(expected.justNow);
+      });
+
+      it('should handle invalid dates', () => {
+        const invalidDate = new Date('invalid');
+
+        expect(component.formatTimeAgo(invalidDate)).toBe(expected.unknown);
+      });
+
+      it('should handle string dates', () => {
+        const dateString = '2023-01-01T00:00:00Z';
+        const result = component.formatTimeAgo(dateString);
+
+        expect(result).toMatch(expected.longAgo);
+      });
+
+      it('should handle months and years', () => {
+        const now = new Date();
+
+        const sixMonthsAgo = new Date(now.getTime() - 6 * 30 * 24 * 60 * 60 * 1000);
+        expect(component.formatTimeAgo(sixMonthsAgo)).toBe(expected.sixMonths);
+
+        const twoYearsAgo = new Date(now.getTime() - 2 * 365 * 24 * 60 * 60 * 1000);
+        expect(component.formatTimeAgo(twoYearsAgo)).toBe(expected.twoYears);
+      });
     });
   });
 
@@ -483,43 +586,1312 @@ describe('StoryList', () => {
       expect(component.stories()).toEqual([]);
       expect(console.error).toHaveBeenCalledWith('Error loading stories:', jasmine.any(Error));
     });
-  });
 
-  describe('component template integration', () => {
-    it('should display stories in template', () => {
-      component.ngOnInit();
+    const failWith = (error: ApiError) => {
+      spyOn(console, 'error');
+      mockHackerNewsService.getStories.and.returnValue(throwError(() => error));
+      component.loadStories(1);
+    };
+
+    it('should explain network failures and offer a retry', () => {
+      failWith({ kind: 'network', message: 'Http failure', url: '/api/stories' });
+
+      expect(component.error()).toBe("Couldn't reach the server to load stories. Check your connection and try again.");
+      expect(component.errorDisplay()?.recovery).toBe('retry');
+
+      mockHackerNewsService.getStories.and.returnValue(of(mockPagedResult));
+      component.recoverFromError();
+
+      expect(component.stories()).toEqual(mockStories);
+      expect(component.errorDisplay()).toBeNull();
+    });
+
+    it('should tell timeouts apart from server errors', () => {
+      failWith({ kind: 'timeout', timeoutMs: 15000, message: 'No response', url: '/api/stories' });
+
+      expect(component.error()).toContain('took too long');
+    });
+
+    it('should show the reference of a server error', () => {
+      failWith({ kind: 'server', status: 503, message: 'Service Unavailable', url: '/api/stories', correlationId: 'abc-123' });
       fixture.detectChanges();
 
       const compiled = fixture.nativeElement as HTMLElement;
-      expect(compiled.querySelector('.stories-grid')).toBeTruthy();
+      expect(component.error()).toContain('(error 503)');
+      expect(compiled.querySelector('.error-reference')?.textContent).toContain('abc-123');
+      expect(compiled.querySelector('.retry-btn')?.textContent).toContain('Try Again');
     });
 
-    it('should show loading state', () => {
+    it('should offer to clear the search when the request is rejected', () => {
+      spyOn(console, 'error');
+      component.searchQuery.set('rust');
+      mockHackerNewsService.searchStories.and.returnValue(throwError((): ApiError => ({
+        kind: 'client',
+        status: 400,
+        detail: 'Invalid date range',
+        message: 'Bad Request',
+        url: '/api/search'
+      })));
+      component.loadStories(1);
+
+      expect(component.error()).toBe('The server rejected the request for stories: Invalid date range');
+      expect(component.errorDisplay()?.recovery).toBe('reset');
+
+      component.recoverFromError();
+
+      expect(component.searchQuery()).toBe('');
+      expect(component.stories()).toEqual(mockStories);
+    });
+
+    it('should ask to narrow a search with too many authors and domains', () => {
+      spyOn(console, 'error');
+      component.searchQuery.set('rust');
+      mockHackerNewsService.searchStories.and.returnValue(throwError((): SearchTooBroadError => ({
+        kind: 'tooBroad',
+        message: '16 author and domain pairs, at most 12 are searched',
+        combinations: 16,
+        limit: 12
+      })));
+      component.loadStories(1);
+
+      expect(component.error()).toBe(
+        'This search needs 16 author and domain pairs, but at most 12 can be searched at once. Remove some authors or domains and try again.'
+      );
+      expect(component.errorDisplay()?.recovery).toBe('reset');
+    });
+
+    it('should suggest a reload when the response cannot be read', () => {
+      failWith({ kind: 'parse', message: 'Unexpected token', url: '/api/stories' });
+      fixture.detectChanges();
+
+      expect(component.errorDisplay()?.recovery).toBe('reload');
+      expect((fixture.nativeElement as HTMLElement).querySelector('.retry-btn')?.textContent).toContain('Reload page');
+    });
+  });
+
+  describe('request races', () => {
+    const pageOf = (page: number): PagedStoryResult => ({
+      items: [{ ...mockStories[0], id: page * 100, title: `Page ${page}` }],
+      page,
+      // A full page, so there is always a next one
+      pageSize: 1
+    });
+
+    it('should discard a slow response for a page that was left', () => {
+      const slowFirstPage = new Subject<PagedStoryResult>();
+      const secondPage = new Subject<PagedStoryResult>();
+      mockHackerNewsService.getStories.and.returnValues(slowFirstPage, secondPage);
+
+      component.loadStories(1);
+      component.loadStories(2);
+      secondPage.next(pageOf(2));
+      slowFirstPage.next(pageOf(1));
+
+      expect(slowFirstPage.observed).toBe(false);
+      expect(component.currentPage()).toBe(2);
+      expect(component.stories().map(story => story.id)).toEqual([200]);
+    });
+
+    it('should keep the newest search when answers arrive in reverse order', () => {
+      const oldSearch = new Subject<PagedStoryResult>();
+      const newSearch = new Subject<PagedStoryResult>();
+      mockHackerNewsService.searchStories.and.returnValues(oldSearch, newSearch);
+
+      component.onSearch('rust');
+      component.onSearch('rust async');
+      newSearch.next(pageOf(2));
+      newSearch.complete();
+      oldSearch.next(pageOf(1));
+      oldSearch.complete();
+
+      expect(component.stories().map(story => story.id)).toEqual([200]);
+      expect(component.loading()).toBe(false);
+    });
+
+    it('should ignore a failure of a request that was replaced', () => {
+      spyOn(console, 'error');
+      const failing = new Subject<PagedStoryResult>();
+      const pending = new Subject<PagedStoryResult>();
+      mockHackerNewsService.getStories.and.returnValues(failing, pending);
+
+      component.loadStories(1);
+      component.loadStories(2);
+      failing.error(new Error('API Error'));
+
+      expect(component.error()).toBeNull();
+      expect(component.loading()).toBe(true);
+
+      pending.next(pageOf(2));
+
+      expect(component.loading()).toBe(false);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should cancel an infinite scroll append when the list is replaced', () => {
+      const chunk = new Subject<PagedStoryResult>();
+      mockHackerNewsService.getStories.and.returnValues(of(pageOf(1)), chunk, of(pageOf(1)));
+      component.setListMode('infinite');
+      component.loadStories(1);
+      component.loadNextChunk();
+      expect(component.loadingMore()).toBe(true);
+
+      component.loadStories(1);
+      chunk.next(pageOf(2));
+
+      expect(chunk.observed).toBe(false);
+      expect(component.loadingMore()).toBe(false);
+      expect(component.stories().map(story => story.id)).toEqual([100]);
+      localStorage.removeItem('hn.listMode');
+    });
+
+    it('should cancel the request in flight when destroyed', () => {
+      const pending = new Subject<PagedStoryResult>();
+      mockHackerNewsService.getStories.and.returnValue(pending);
+
+      component.loadStories(1);
+      fixture.destroy();
+
+      expect(pending.observed).toBe(false);
+    });
+  });
+
+  describe('infinite scroll mode', () => {
+    const pageOf = (page: number, count: number = 20): PagedStoryResult => ({
+      items: Array.from({ length: count }, (_, i) => ({
+        ...mockStories[0],
+        id: page * 100 + i
+      })),
+      page,
+      pageSize: 20
+    });
+
+    beforeEach(() => {
+      mockHackerNewsService.getStories.and.callFake((page: number = 1) => of(pageOf(page)));
       component.ngOnInit();
+      component.setListMode('infinite');
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.listMode');
+    });
+
+    it('should persist the selected mode', () => {
+      expect(localStorage.getItem('hn.listMode')).toBe('"infinite"');
+
+      const second = TestBed.createComponent(StoryList).componentInstance;
+      expect(second.listMode()).toBe('infinite');
+    });
+
+    it('should append the next page instead of replacing stories', () => {
+      component.loadNextChunk();
+
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(2, 20);
+      expect(component.stories().length).toBe(40);
+      expect(component.stories()[0].id).toBe(100);
+      expect(component.currentPage()).toBe(2);
+    });
+
+    it('should skip stories that are already shown', () => {
+      const overlapping = pageOf(2);
+      overlapping.items[0] = { ...overlapping.items[0], id: 100 };
+      mockHackerNewsService.getStories.and.returnValue(of(overlapping));
+
+      component.loadNextChunk();
+
+      const ids = component.stories().map(story => story.id);
+      expect(ids.length).toBe(39);
+      expect(new Set(ids).size).toBe(39);
+    });
+
+    it('should unload the oldest pages once the memory cap is reached', () => {
+      for (let i = 0; i < MAX_LOADED_PAGES + 2; i++) {
+        component.loadNextChunk();
+      }
+
+      expect(component.stories().length).toBe(MAX_LOADED_PAGES * 20);
+      expect(component.firstLoadedPage()).toBe(4);
+      expect(component.stories()[0].id).toBe(400);
+    });
+
+    it('should stop at the end of the results', () => {
+      mockHackerNewsService.getStories.and.returnValue(of(pageOf(2, 5)));
+      component.loadNextChunk();
+      const callCount = mockHackerNewsService.getStories.calls.count();
+
+      component.loadNextChunk();
+
+      expect(component.hasNextPage()).toBe(false);
+      expect(mockHackerNewsService.getStories.calls.count()).toBe(callCount);
+    });
+
+    it('should keep loaded stories when an append fails', () => {
+      spyOn(console, 'error');
+      mockHackerNewsService.getStories.and.returnValue(throwError(() => new Error('API Error')));
+
+      component.loadNextChunk();
+
+      expect(component.stories().length).toBe(20);
+      expect(component.error()).toBeNull();
+      expect(component.loadMoreError()).toBe('Failed to load more stories.');
+    });
+
+    it('should reload a single page when switching back to paged mode', () => {
+      component.loadNextChunk();
+
+      component.setListMode('paged');
+
+      expect(component.stories().length).toBe(20);
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(2, 20);
+      expect(localStorage.getItem('hn.listMode')).toBe('"paged"');
+    });
+  });
+
+  describe('saved searches', () => {
+    it('should offer the active search for saving', () => {
+      component.searchQuery.set('rust');
+      component.loadStories(1);
+
+      expect(component.activeSearchQuery()).toEqual(jasmine.objectContaining({ query: 'rust', page: 1 }));
+    });
+
+    it('should not offer the plain feed for saving', () => {
+      component.loadStories(1);
+
+      expect(component.activeSearchQuery()).toBeNull();
+    });
+
+    it('should open insights on the active search', () => {
+      component.searchQuery.set('rust');
+      component.filtersForm.patchValue({ authors: ['pg'] });
+      component.loadStories(2);
+
+      expect(component.insightsParams()).toEqual({ q: 'rust', author: 'pg' });
+    });
+  });
+
+  describe('query language', () => {
+    it('should move operators into the filters form', () => {
+      component.onSearch('rust author:pg score:>100 after:2025-01-01 has:url sort:comments');
+
+      expect(component.searchQuery()).toBe('rust');
+      expect(component.filtersForm.value).toEqual(jasmine.objectContaining({
+        authors: ['pg'],
+        minScore: 101,
+        fromDate: '2025-01-01',
+        hasUrl: true,
+        sortBy: SearchSortOrder.Comments
+      }));
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        query: 'rust',
+        sortBy: SearchSortOrder.Comments,
+        filters: jasmine.objectContaining({ authors: ['pg'], minScore: 101, hasUrl: true })
+      }));
+    });
+
+    it('should keep filters the query does not mention', () => {
+      component.filtersForm.patchValue({ domains: ['example.com'] });
+
+      component.onSearch('author:pg');
+
+      expect(component.filtersForm.value.domains).toEqual(['example.com']);
+      expect(component.filtersForm.value.authors).toEqual(['pg']);
+    });
+
+    it('should add repeated and negated operators to the lists', () => {
+      component.filtersForm.patchValue({ authors: ['pg'] });
+
+      component.onSearch('author:dang author:pg -author:bot -domain:medium.com');
+
+      expect(component.filtersForm.value.authors).toEqual(['pg', 'dang']);
+      expect(component.filtersForm.value.excludedAuthors).toEqual(['bot']);
+      expect(component.filtersForm.value.excludedDomains).toEqual(['medium.com']);
+    });
+
+    it('should not search while the query has syntax errors', () => {
+      component.onSearch('rust has:comments');
+
+      expect(mockHackerNewsService.searchStories).not.toHaveBeenCalled();
+      expect(component.searchQuery()).toBe('rust has:comments');
+      expect(component.syntaxErrors()[0].message).toBe('Use "has:url" or "-has:url"');
+      expect(component.highlightedQuery()).toEqual([
+        { text: 'rust ', error: null },
+        { text: 'has:comments', error: 'Use "has:url" or "-has:url"' }
+      ]);
+    });
+
+    it('should search for titles such as "Show HN:" as text', () => {
+      component.onSearch('Show HN: rust');
+
+      expect(component.syntaxErrors()).toEqual([]);
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({ query: 'Show HN: rust' }));
+    });
+
+    it('should flag syntax errors while typing', () => {
+      component.onSearchInput({ target: { value: 'score:lots' } } as unknown as Event);
+
+      expect(component.syntaxErrors().length).toBe(1);
+
+      component.onSearchInput({ target: { value: 'score:10' } } as unknown as Event);
+
+      expect(component.syntaxErrors()).toEqual([]);
+    });
+
+    it('should show the active filters as operator chips', () => {
+      component.filtersForm.patchValue({ authors: ['pg'], excludedDomains: ['medium.com'], maxScore: 50, sortBy: SearchSortOrder.Recent });
+
+      expect(component.getOperatorChips().map(chip => chip.label))
+        .toEqual(['author:pg', '-domain:medium.com', 'score:<=50', 'sort:recent']);
+    });
+
+    it('should clear the form control when its chip is removed', () => {
+      component.onSearch('author:pg sort:score');
+
+      component.removeOperator({ control: 'sortBy', label: 'sort:score' });
+      component.removeOperator({ control: 'authors', label: 'author:pg', value: 'pg' });
+
+      expect(component.filtersForm.value.authors).toEqual([]);
+      expect(component.filtersForm.value.sortBy).toBe(SearchSortOrder.Relevance);
+      expect(component.getOperatorChips()).toEqual([]);
+      expect(component.isSearchMode()).toBe(false);
+    });
+
+    it('should remove only the list entry of a removed chip', () => {
+      component.onSearch('author:pg author:dang');
+
+      component.removeOperator({ control: 'authors', label: 'author:pg', value: 'pg' });
+
+      expect(component.filtersForm.value.authors).toEqual(['dang']);
+    });
+
+    it('should hide stories that miss a phrase or contain an excluded term', () => {
+      component.onSearch('"story 1" -excluded');
+
+      expect(component.visibleStories().map(story => story.id)).toEqual([1]);
+
+      component.onSearch('test -"story 1"');
+
+      expect(component.visibleStories().map(story => story.id)).toEqual([2]);
+    });
+
+    it('should render chips and the highlighted error', () => {
       fixture.detectChanges();
-      
-      component.loading.set(true);
-      component.stories.set([]);
-      component.error.set(null);
+      component.filtersForm.patchValue({ authors: ['pg'] });
+      component.onSearch('rust "open');
       fixture.detectChanges();
 
       const compiled = fixture.nativeElement as HTMLElement;
-      expect(compiled.querySelector('.loading-section')).toBeTruthy();
-      expect(compiled.textContent).toContain('Loading stories...');
+      expect(compiled.querySelector('.operator-chips')?.textContent).toContain('author:pg');
+      expect(compiled.querySelector('.query-syntax .syntax-error')?.textContent).toBe('"open');
+      expect(compiled.querySelector('.query-syntax .syntax-message')?.textContent).toContain('Missing closing quote');
+    });
+  });
+
+  describe('mute list', () => {
+    let muteService: MuteService;
+
+    beforeEach(() => {
+      muteService = TestBed.inject(MuteService);
     });
 
-    it('should show error state', () => {
+    afterEach(() => {
+      localStorage.removeItem('hn.muteRules');
+    });
+
+    it('should hide muted stories from the feed and count them', () => {
+      muteService.add('authors', 'user1');
       component.ngOnInit();
-      fixture.detectChanges();
-      
-      component.error.set('Test error message');
-      component.loading.set(false);
-      component.stories.set([]);
+
+      expect(component.visibleStories()).toEqual([mockStories[1]]);
+      expect(component.mutedCount()).toBe(1);
+    });
+
+    it('should hide muted stories from search results', () => {
+      muteService.add('domains', 'example.com');
+
+      component.onSearch('test');
+
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalled();
+      expect(component.visibleStories()).toEqual([mockStories[1]]);
+    });
+
+    it('should show muted stories while peeking', () => {
+      muteService.add('titlePatterns', 'Story 2');
+      component.ngOnInit();
+
+      component.togglePeekMuted();
       fixture.detectChanges();
 
+      expect(component.visibleStories().length).toBe(2);
       const compiled = fixture.nativeElement as HTMLElement;
-      expect(compiled.querySelector('.error-section')).toBeTruthy();
-      expect(compiled.textContent).toContain('Test error message');
+      expect(compiled.querySelector('.story-card.muted .muted-marker')?.textContent).toContain('Muted: title Story 2');
+      expect(compiled.querySelector('.muted-indicator')?.textContent).toContain('1 hidden');
+    });
+
+    it('should keep paging when muted stories shrink a full page', () => {
+      const fullPage = Array.from({ length: 20 }, (_, i) => ({ ...mockStories[0], id: 100 + i }));
+      mockHackerNewsService.getStories.and.returnValue(of({ items: fullPage, page: 1, pageSize: 20 }));
+      muteService.add('authors', 'user1');
+
+      component.loadStories(1);
+
+      expect(component.visibleStories()).toEqual([]);
+      expect(component.hasNextPage()).toBe(true);
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.all-hidden-notice')).toBeTruthy();
+      expect(compiled.querySelector('.empty-section')).toBeNull();
+      expect(compiled.querySelector('.pagination-section')).toBeTruthy();
+    });
+
+    it('should keep loading in infinite mode while whole chunks are muted', () => {
+      const pageOf = (page: number, by: string) => ({
+        items: Array.from({ length: 20 }, (_, i) => ({ ...mockStories[0], id: page * 100 + i, by })),
+        page,
+        pageSize: 20
+      });
+      mockHackerNewsService.getStories.and.callFake((page: number = 1) =>
+        of(pageOf(page, page === 2 ? 'muted' : 'visible')));
+      muteService.add('authors', 'muted');
+      component.ngOnInit();
+      component.setListMode('infinite');
+
+      component.loadNextChunk();
+
+      expect(component.currentPage()).toBe(3);
+      expect(component.visibleStories().length).toBe(40);
+    });
+
+    it('should mute the author and domain of a story', () => {
+      component.muteAuthor(mockStories[0]);
+      component.muteDomain(mockStories[0]);
+
+      expect(muteService.rules().authors).toEqual(['user1']);
+      expect(muteService.rules().domains).toEqual(['example.com']);
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const press = (key: string, init: KeyboardEventInit = {}) => {
+      const event = new KeyboardEvent('keydown', { key, cancelable: true, ...init });
+      document.dispatchEvent(event);
+      fixture.detectChanges();
+      return event;
+    };
+
+    beforeEach(() => {
+      component.ngOnInit();
+      fixture.detectChanges();
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.bookmarks');
+      localStorage.removeItem('hn.readStories');
+    });
+
+    it('should move the selection with j and k', () => {
+      press('j');
+      expect(component.selectedStory()).toEqual(mockStories[0]);
+
+      press('j');
+      press('j');
+      expect(component.selectedStory()).toEqual(mockStories[1]);
+
+      press('k');
+      expect(component.selectedIndex()).toBe(0);
+      expect((fixture.nativeElement as HTMLElement).querySelector('.story-card.selected')).toBeTruthy();
+    });
+
+    it('should open the selected link with o and its comments with c', () => {
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+      spyOn(window, 'open');
+
+      press('j');
+      press('o');
+      expect(window.open).toHaveBeenCalledWith('https://example.com/story1', '_blank', 'noopener');
+
+      press('c');
+      expect(router.navigate).toHaveBeenCalledWith(['/story', 1]);
+      expect(TestBed.inject(ReadStateService).isRead(1)).toBe(true);
+    });
+
+    it('should bookmark the selected story with b', () => {
+      press('j');
+      press('b');
+
+      expect(JSON.parse(localStorage.getItem('hn.bookmarks')!)[0].story.id).toBe(1);
+    });
+
+    it('should focus the search field with /', () => {
+      const event = press('/');
+
+      expect(document.activeElement).toBe((fixture.nativeElement as HTMLElement).querySelector('.search-field input'));
+      expect(event.defaultPrevented).toBe(true);
+    });
+
+    it('should change pages with n and p', () => {
+      spyOn(component, 'loadStories').and.callThrough();
+      component.hasNextPage.set(true);
+
+      press('n');
+      expect(component.loadStories).toHaveBeenCalledWith(2);
+
+      press('p');
+      expect(component.loadStories).toHaveBeenCalledWith(1);
+    });
+
+    it('should ignore shortcuts typed into form fields', () => {
+      const input = (fixture.nativeElement as HTMLElement).querySelector<HTMLInputElement>('.search-field input')!;
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'j', bubbles: true }));
+
+      expect(component.selectedIndex()).toBe(-1);
+    });
+
+    it('should toggle the shortcut help with ? and Escape', () => {
+      press('?');
+      expect((fixture.nativeElement as HTMLElement).querySelector('app-shortcut-help')).toBeTruthy();
+
+      press('Escape');
+      expect(component.showShortcutHelp()).toBe(false);
+    });
+
+    it('should open the command palette with Ctrl+K from anywhere', () => {
+      const input = (fixture.nativeElement as HTMLElement).querySelector<HTMLInputElement>('.search-field input')!;
+      input.dispatchEvent(new KeyboardEvent('keydown', { key: 'k', ctrlKey: true, bubbles: true }));
+      fixture.detectChanges();
+
+      expect(component.commandPaletteOpen()).toBe(true);
+      expect((fixture.nativeElement as HTMLElement).querySelector('app-command-palette')).toBeTruthy();
+    });
+
+    it('should offer sorts, filters and saved searches in the command palette', () => {
+      const savedSearchService = TestBed.inject(SavedSearchService);
+      savedSearchService.save('Rust', { query: 'rust' });
+      const commands = component.paletteCommands();
+
+      const sortByScore = commands.find(command => command.id === `sort-${SearchSortOrder.Score}`)!;
+      sortByScore.run();
+      expect(component.filtersForm.get('sortBy')?.value).toBe(SearchSortOrder.Score);
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalled();
+
+      commands.find(command => command.id === 'toggle-filters')!.run();
+      expect(component.filtersExpanded()).toBe(true);
+
+      expect(commands.some(command => command.group === 'Saved search' && command.label === 'Rust')).toBe(true);
+      localStorage.removeItem('hn.savedSearches');
+    });
+  });
+
+  describe('read tracking', () => {
+    afterEach(() => {
+      localStorage.removeItem('hn.readStories');
+      localStorage.removeItem('hn.hideReadStories');
+    });
+
+    it('should mark a story read when its link is opened', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const link = (fixture.nativeElement as HTMLElement).querySelector<HTMLAnchorElement>('.story-link')!;
+      link.addEventListener('click', event => event.preventDefault());
+      link.click();
+      fixture.detectChanges();
+
+      expect(TestBed.inject(ReadStateService).isRead(1)).toBe(true);
+      expect((fixture.nativeElement as HTMLElement).querySelector('.story-card')?.classList).toContain('read');
+    });
+
+    it('should hide read stories and persist the choice', () => {
+      component.ngOnInit();
+      component.markRead(mockStories[0]);
+
+      component.setHideRead(true);
+
+      expect(component.visibleStories()).toEqual([mockStories[1]]);
+      expect(component.stories().length).toBe(2);
+      expect(localStorage.getItem('hn.hideReadStories')).toBe('true');
+    });
+
+    it('should offer to show read stories when everything on the page is read', () => {
+      component.ngOnInit();
+      mockStories.forEach(story => component.markRead(story));
+      component.setHideRead(true);
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.all-hidden-notice')).toBeTruthy();
+      expect(compiled.querySelector('.empty-section')).toBeNull();
+    });
+
+    it('should mark stories submitted since the previous visit as new', () => {
+      const readState = TestBed.inject(ReadStateService);
+      readState.previousVisit.set(mockStories[0].time * 1000);
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const markers = (fixture.nativeElement as HTMLElement).querySelectorAll('.new-marker');
+      expect(markers.length).toBe(1);
+    });
+  });
+
+  describe('live updates', () => {
+    let polled: Subject<Story[]>;
+
+    const newStory = (id: number): Story => ({ ...mockStories[1], id, title: `New story ${id}` });
+
+    beforeEach(() => {
+      polled = new Subject<Story[]>();
+      spyOn(TestBed.inject(LiveFeedService), 'poll').and.returnValue(polled);
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.liveFeed');
+    });
+
+    it('should not poll until live mode is turned on', () => {
+      const liveFeed = TestBed.inject(LiveFeedService);
+      component.loadStories(1);
+
+      expect(liveFeed.poll).not.toHaveBeenCalled();
+
+      component.setLiveMode(true);
+
+      expect(liveFeed.poll).toHaveBeenCalledWith(20);
+      expect(localStorage.getItem('hn.liveFeed')).toBe('true');
+    });
+
+    it('should hold new stories behind the banner until it is clicked', () => {
+      component.loadStories(1);
+      component.setLiveMode(true);
+
+      polled.next([newStory(4), newStory(3), ...mockStories]);
+
+      expect(component.stories()).toEqual(mockStories);
+      expect(component.newStoryCount()).toBe(2);
+
+      component.showNewStories();
+
+      expect(component.stories().map(story => story.id)).toEqual([4, 3, 1, 2]);
+      expect(component.pendingStories()).toEqual([]);
+    });
+
+    it('should update scores and comment counts in place', () => {
+      component.loadStories(1);
+      component.setLiveMode(true);
+
+      polled.next([{ ...mockStories[0], score: 150, commentCount: 9 }, mockStories[1]]);
+
+      expect(component.stories()[0].score).toBe(150);
+      expect(component.stories()[0].commentCount).toBe(9);
+      expect(component.newStoryCount()).toBe(0);
+    });
+
+    it('should keep the selected story selected when new stories are shown', () => {
+      component.loadStories(1);
+      component.setLiveMode(true);
+      component.selectedIndex.set(1);
+
+      polled.next([newStory(3), ...mockStories]);
+      component.showNewStories();
+
+      expect(component.selectedStory()?.id).toBe(2);
+    });
+
+    it('should stop polling for searches and other pages', () => {
+      component.loadStories(1);
+      component.setLiveMode(true);
+      polled.next([newStory(3), ...mockStories]);
+
+      component.loadStories(2);
+
+      expect(polled.observed).toBe(false);
+      expect(component.pendingStories()).toEqual([]);
+
+      component.loadStories(1);
+      expect(polled.observed).toBe(true);
+
+      component.onSearch('rust');
+      expect(polled.observed).toBe(false);
+    });
+
+    it('should render the banner', () => {
+      fixture.detectChanges();
+      component.setLiveMode(true);
+      polled.next([newStory(3), ...mockStories]);
+      fixture.detectChanges();
+
+      const banner = (fixture.nativeElement as HTMLElement).querySelector('.new-stories-banner');
+      expect(banner?.textContent).toContain('1 new story — click to show');
+    });
+  });
+
+  describe('display settings', () => {
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+      document.documentElement.classList.remove('theme-light', 'theme-dark', 'theme-system', 'density-comfortable', 'density-compact');
+    });
+
+    it('should switch between cards and the classic list without reloading stories', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      const loads = mockHackerNewsService.getStories.calls.count();
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      TestBed.inject(DisplaySettingsService).setLayout('classic');
+      fixture.detectChanges();
+
+      expect(compiled.querySelector('.stories-grid')).toBeNull();
+      const rows = compiled.querySelectorAll('.classic-list .story-row');
+      expect(rows.length).toBe(2);
+      expect(rows[0].querySelector('.rank')?.textContent).toContain('1.');
+      expect(rows[0].querySelector('.story-link')?.textContent).toContain('Test Story 1');
+      expect(rows[0].querySelector('.domain-link')?.textContent).toContain('example.com');
+      expect(rows[1].querySelector('.comments-link')?.textContent).toContain('3 comments');
+      expect(mockHackerNewsService.getStories.calls.count()).toBe(loads);
+      expect(JSON.parse(localStorage.getItem('hn.preferences')!).layout).toBe('classic');
+    });
+
+    it('should number classic rows from the page shown', () => {
+      mockHackerNewsService.getStories.and.returnValue(of({ ...mockPagedResult, page: 3 }));
+      TestBed.inject(DisplaySettingsService).setLayout('classic');
+      component.loadStories(3);
+      fixture.detectChanges();
+
+      const rank = (fixture.nativeElement as HTMLElement).querySelector('.story-row .rank');
+      expect(rank?.textContent).toContain('41.');
+    });
+
+    it('should keep the keyboard selection in the classic list', () => {
+      TestBed.inject(DisplaySettingsService).setLayout('classic');
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      component.moveSelection(1);
+      fixture.detectChanges();
+
+      expect((fixture.nativeElement as HTMLElement).querySelector('.story-row.selected .story-link')?.textContent)
+        .toContain('Test Story 1');
+    });
+
+    it('should offer theme, density and layout commands in the palette', () => {
+      const settings = TestBed.inject(DisplaySettingsService);
+      const command = (id: string) => component.paletteCommands().find(c => c.id === id)!;
+
+      command('theme-dark').run();
+      command('density-compact').run();
+      command('toggle-layout').run();
+
+      expect(settings.theme()).toBe('dark');
+      expect(settings.density()).toBe('compact');
+      expect(settings.layout()).toBe('classic');
+      expect(command('toggle-layout').label).toBe('Switch to cards');
+    });
+  });
+
+  describe('admin link', () => {
+    it('should offer the admin page once signed in', () => {
+      spyOn(TestBed.inject(AdminAccessService), 'signedIn').and.returnValue(true);
+      fixture.detectChanges();
+
+      expect((fixture.nativeElement as HTMLElement).querySelector('a[href="/admin"]')).toBeTruthy();
+      expect(component.paletteCommands().some(c => c.id === 'go-admin')).toBe(true);
+    });
+
+    it('should hide the admin page while signed out', () => {
+      fixture.detectChanges();
+
+      expect((fixture.nativeElement as HTMLElement).querySelector('a[href="/admin"]')).toBeNull();
+      expect(component.paletteCommands().some(c => c.id === 'go-admin')).toBe(false);
+    });
+  });
+
+  describe('language', () => {
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+      document.documentElement.lang = 'en';
+    });
+
+    it('should offer a language switcher in the toolbar', () => {
+      fixture.detectChanges();
+
+      const trigger = (fixture.nativeElement as HTMLElement).querySelector('.locale-menu-trigger');
+      expect(trigger?.getAttribute('aria-label')).toBe('Language');
+    });
+
+    it('should translate the page without reloading stories when the locale changes', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      const loads = mockHackerNewsService.getStories.calls.count();
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      component.paletteCommands().find(c => c.id === 'locale-de')!.run();
+      fixture.detectChanges();
+
+      expect(compiled.querySelector('.header-title')?.textContent).toContain('HackerNews-Storys');
+      expect(compiled.querySelector('.page-info')?.textContent).toContain('Seite 1');
+      expect(compiled.querySelector('.stats-row')?.textContent).toContain('100 Punkte');
+      expect(compiled.querySelector('.locale-menu-trigger')?.getAttribute('aria-label')).toBe('Sprache');
+      expect(component.paletteCommands().find(c => c.id === 'toggle-layout')!.label).toBe('Zur klassischen Liste wechseln');
+      expect(mockHackerNewsService.getStories.calls.count()).toBe(loads);
+    });
+
+    it('should show load errors in the language shown', () => {
+      spyOn(console, 'error');
+      TestBed.inject(PreferencesService).update({ locale: 'de' });
+      mockHackerNewsService.getStories.and.returnValue(throwError((): ApiError => ({
+        kind: 'server',
+        status: 503,
+        message: 'Service Unavailable',
+        url: '/api/stories'
+      })));
+
+      component.loadStories(1);
+      fixture.detectChanges();
+
+      expect(component.error())
+        .toBe('Beim Laden der Storys ist auf dem Server ein Problem aufgetreten (Fehler 503). Versuchen Sie es gleich noch einmal.');
+      expect((fixture.nativeElement as HTMLElement).querySelector('.error-message')?.textContent).toContain('Fehler 503');
+    });
+  });
+
+  describe('preferences', () => {
+    let preferencesService: PreferencesService;
+
+    beforeEach(() => {
+      preferencesService = TestBed.inject(PreferencesService);
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+    });
+
+    it('should load the preferred page size and treat the preferred sort as no filter', () => {
+      preferencesService.update({ pageSize: 50, defaultSort: SearchSortOrder.Score });
+
+      component.ngOnInit();
+
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(1, 50);
+      expect(component.filtersForm.value.sortBy).toBe(SearchSortOrder.Score);
+      expect(component.isSearchMode()).toBe(false);
+      expect(component.getActiveFiltersCount()).toBe(0);
+    });
+
+    it('should start from the default filters without adding a history entry', () => {
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ defaultFilters: { minScore: 10 } });
+
+      component.ngOnInit();
+
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        filters: jasmine.objectContaining({ minScore: 10 })
+      }));
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { minScore: '10' },
+        replaceUrl: true
+      }));
+    });
+
+    it('should write the preferred page size and sort into the URL it starts from', () => {
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ pageSize: 50, defaultSort: SearchSortOrder.Score });
+
+      component.ngOnInit();
+
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { pageSize: '50', sortBy: SearchSortOrder.Score },
+        replaceUrl: true
+      }));
+    });
+
+    it('should not bring the default filters back once they are cleared', () => {
+      const route = TestBed.inject(ActivatedRoute);
+      const queryParamMap = new Subject<ParamMap>();
+      spyOnProperty(route, 'queryParamMap').and.returnValue(queryParamMap);
+      spyOn(TestBed.inject(Router), 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ defaultFilters: { minScore: 10 } });
+
+      component.ngOnInit();
+      queryParamMap.next(convertToParamMap({}));
+      expect(component.filtersForm.value.minScore).toBe(10);
+
+      component.clearAllFilters();
+      queryParamMap.next(convertToParamMap({}));
+
+      expect(component.filtersForm.value.minScore).toBeNull();
+      expect(component.isSearchMode()).toBe(false);
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(1, 20);
+    });
+
+    it('should show an unfiltered list when going back to a URL without params', () => {
+      const route = TestBed.inject(ActivatedRoute);
+      const queryParamMap = new Subject<ParamMap>();
+      spyOnProperty(route, 'queryParamMap').and.returnValue(queryParamMap);
+      spyOn(TestBed.inject(Router), 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ defaultFilters: { minScore: 10 } });
+
+      component.ngOnInit();
+      queryParamMap.next(convertToParamMap({ q: 'rust' }));
+      queryParamMap.next(convertToParamMap({}));
+
+      expect(component.searchQuery()).toBe('');
+      expect(component.filtersForm.value.minScore).toBeNull();
+      expect(component.isSearchMode()).toBe(false);
+    });
+
+    it('should keep relevance in the URL when another sort is preferred', () => {
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ defaultSort: SearchSortOrder.Score });
+      component.ngOnInit();
+
+      component.applySort(SearchSortOrder.Relevance);
+
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { sortBy: SearchSortOrder.Relevance }
+      }));
+      expect(component.getActiveFiltersCount()).toBe(1);
+    });
+
+    it('should read a URL without a sort as the preferred one', () => {
+      const route = TestBed.inject(ActivatedRoute);
+      const queryParamMap = new Subject<ParamMap>();
+      spyOnProperty(route, 'queryParamMap').and.returnValue(queryParamMap);
+      spyOn(TestBed.inject(Router), 'navigate').and.returnValue(Promise.resolve(true));
+      preferencesService.update({ defaultSort: SearchSortOrder.Score });
+
+      component.ngOnInit();
+      queryParamMap.next(convertToParamMap({ q: 'rust' }));
+
+      expect(component.filtersForm.value.sortBy).toBe(SearchSortOrder.Score);
+      expect(component.getActiveFiltersCount()).toBe(0);
+    });
+
+    it('should open story links in the same tab when preferred', () => {
+      spyOn(window, 'open');
+      preferencesService.update({ linkTarget: 'same-tab' });
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      component.openStory(mockStories[0]);
+
+      expect(window.open).toHaveBeenCalledWith('https://example.com/story1', '_self');
+      expect((fixture.nativeElement as HTMLElement).querySelector('.story-card .story-link')?.getAttribute('target'))
+        .toBe('_self');
+    });
+
+    it('should show absolute times when preferred', () => {
+      preferencesService.update({ timeDisplay: 'absolute' });
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      expect((fixture.nativeElement as HTMLElement).querySelector('.stats-row')?.textContent)
+        .toContain(formatDateTime(mockStories[0].time));
+    });
+  });
+
+  describe('URL synchronization', () => {
+    it('should restore search state from query params on init', () => {
+      const route = TestBed.inject(ActivatedRoute);
+      spyOnProperty(route, 'queryParamMap').and.returnValue(of(convertToParamMap({
+        q: 'rust',
+        page: '3',
+        sortBy: 'Score',
+        author: 'pg',
+        minScore: '10',
+        fromDate: '2025-01-02'
+      })));
+
+      component.ngOnInit();
+
+      expect(component.searchQuery()).toBe('rust');
+      expect(component.isSearchMode()).toBe(true);
+      expect(component.filtersForm.get('authors')?.value).toEqual(['pg']);
+      expect(component.filtersForm.get('sortBy')?.value).toBe(SearchSortOrder.Score);
+      expect(component.filtersForm.get('fromDate')?.value).toBe('2025-01-02');
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        query: 'rust',
+        page: 3,
+        sortBy: SearchSortOrder.Score,
+        filters: jasmine.objectContaining({ authors: ['pg'], minScore: 10 })
+      }));
+    });
+
+    it('should write the search and page into the URL', () => {
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+
+      component.searchQuery.set('angular');
+      component.filtersForm.patchValue({ domains: ['github.com'] });
+      component.loadStories(2);
+
+      expect(router.navigate).toHaveBeenCalledWith([], jasmine.objectContaining({
+        queryParams: { q: 'angular', page: '2', domain: 'github.com' },
+        replaceUrl: false
+      }));
+    });
+
+    it('should not reload when the URL change came from the component itself', () => {
+      const route = TestBed.inject(ActivatedRoute);
+      const router = TestBed.inject(Router);
+      spyOn(router, 'navigate').and.returnValue(Promise.resolve(true));
+      spyOnProperty(route, 'queryParamMap').and.returnValue(of(convertToParamMap({ q: 'go' })));
+
+      component.searchQuery.set('go');
+      component.loadStories(1);
+      const callCount = mockHackerNewsService.searchStories.calls.count();
+
+      component.ngOnInit();
+
+      expect(mockHackerNewsService.searchStories.calls.count()).toBe(callCount);
+    });
+  });
+
+  describe('accessibility', () => {
+    let announce: jasmine.Spy;
+
+    beforeEach(() => {
+      announce = spyOn(TestBed.inject(LiveAnnouncer), 'announce').and.resolveTo();
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+    });
+
+    it('should render the cards as a list without violations', async () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      const list = compiled.querySelector('.stories-grid');
+      expect(list?.getAttribute('role')).toBe('list');
+      expect(list?.querySelectorAll('[role="listitem"]').length).toBe(2);
+      expect(await findAccessibilityViolations(compiled)).toEqual([]);
+    });
+
+    it('should render the classic list without violations', async () => {
+      TestBed.inject(DisplaySettingsService).setLayout('classic');
+      component.ngOnInit();
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      expect(compiled.querySelector('.classic-list')?.getAttribute('role')).toBe('list');
+      expect(await findAccessibilityViolations(compiled)).toEqual([]);
+    });
+
+    it('should expose the filters panel state without violations', async () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+      const toggle = Array.from(compiled.querySelectorAll('button'))
+        .find(button => button.textContent?.includes('Filters'))!;
+      expect(toggle.getAttribute('aria-expanded')).toBe('false');
+
+      component.toggleFilters();
+      fixture.detectChanges();
+
+      expect(toggle.getAttribute('aria-expanded')).toBe('true');
+      expect(await findAccessibilityViolations(compiled)).toEqual([]);
+    });
+
+    it('should render the loading and error states without violations', async () => {
+      spyOn(console, 'error');
+      const pending = new Subject<PagedStoryResult>();
+      mockHackerNewsService.getStories.and.returnValue(pending);
+      component.ngOnInit();
+      fixture.detectChanges();
+      const compiled = fixture.nativeElement as HTMLElement;
+
+      expect(compiled.querySelector('.loading-card')?.getAttribute('role')).toBe('status');
+      expect(await findAccessibilityViolations(compiled)).toEqual([]);
+
+      pending.error(new Error('down'));
+      fixture.detectChanges();
+
+      expect(compiled.querySelector('.error-section')).toBeTruthy();
+      expect(await findAccessibilityViolations(compiled)).toEqual([]);
+    });
+
+    it('should announce each loaded page once', () => {
+      mockHackerNewsService.getStories.and.returnValue(of(mockPagedResult, { ...mockPagedResult }));
+
+      component.loadStories(3);
+
+      expect(announce).toHaveBeenCalledOnceWith('Loaded page 3, 2 stories');
+    });
+
+    it('should announce an empty result', () => {
+      mockHackerNewsService.getStories.and.returnValue(of({ ...mockPagedResult, items: [] }));
+
+      component.loadStories(1);
+
+      expect(announce).toHaveBeenCalledWith('No stories found.');
+    });
+
+    it('should announce errors assertively', () => {
+      spyOn(console, 'error');
+      mockHackerNewsService.getStories.and.returnValue(throwError(() => new Error('down')));
+
+      component.loadStories(1);
+
+      expect(announce).toHaveBeenCalledWith('Failed to load stories. Please try again.', 'assertive');
+    });
+
+    it('should announce stories appended by infinite scroll', () => {
+      mockHackerNewsService.getStories.and.callFake((page: number = 1) => of({
+        ...mockPagedResult,
+        items: mockStories.map(story => ({ ...story, id: story.id + page * 100 })),
+        page,
+        pageSize: 2
+      }));
+      component.ngOnInit();
+      component.setListMode('infinite');
+
+      component.loadNextChunk();
+
+      expect(announce).toHaveBeenCalledWith('Loaded 2 more stories');
+      localStorage.removeItem('hn.listMode');
+    });
+
+    it('should move focus to the first story after changing page', () => {
+      component.ngOnInit();
+      component.hasNextPage.set(true);
+      fixture.detectChanges();
+      TestBed.inject(ApplicationRef).tick();
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(document.activeElement).not.toBe(compiled.querySelector('.story-link'));
+
+      component.goToNextPage();
+      fixture.detectChanges();
+      TestBed.inject(ApplicationRef).tick();
+
+      expect(document.activeElement).toBe(compiled.querySelector('.story-link'));
+    });
+
+    it('should leave focus alone when a search loads', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      component.onSearch('rust');
+      fixture.detectChanges();
+      TestBed.inject(ApplicationRef).tick();
+
+      expect(document.activeElement).not.toBe((fixture.nativeElement as HTMLElement).querySelector('.story-link'));
+    });
+  });
+
+  describe('component template integration', () => {
+    it('should display stories in template', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.stories-grid')).toBeTruthy();
+    });
+
+    it('should show loading state', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      
+      component.loading.set(true);
+      component.stories.set([]);
+      component.error.set(null);
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.loading-section')).toBeTruthy();
+      expect(compiled.textContent).toContain('Loading stories...');
+    });
+
+    it('should show error state', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+      
+      component.error.set('Test error message');
+      component.loading.set(false);
+      component.stories.set([]);
+      fixture.detectChanges();
+
+      const compiled = fixture.nativeElement as HTMLElement;
+      expect(compiled.querySelector('.error-section')).toBeTruthy();
+      expect(compiled.textContent).toContain('Test error message');
+    });
+
+    it('should link author names to their profile', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const authorLink = (fixture.nativeElement as HTMLElement).querySelector<HTMLAnchorElement>('.author-link');
+      expect(authorLink?.getAttribute('href')).toBe('/user/user1');
+      expect(authorLink?.textContent).toBe('user1');
+    });
+
+    it('should link domains to their site page', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const domainLink = (fixture.nativeElement as HTMLElement).querySelector<HTMLAnchorElement>('.domain-link');
+      expect(domainLink?.getAttribute('href')).toBe('/domain/example.com');
+      expect(domainLink?.textContent).toBe('example.com');
+    });
+
+    it('should link stories without a URL to the discussion page', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const links = Array.from(
+        (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLAnchorElement>('.story-link')
+      );
+      expect(links[0].getAttribute('href')).toBe('https://example.com/story1');
+      expect(links[1].getAttribute('href')).toBe('/story/2');
+    });
+
+    it('should link every card to its comments with the count', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const links = Array.from(
+        (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLAnchorElement>('.comments-link')
+      );
+      expect(links.map(link => link.getAttribute('href'))).toEqual(['/story/1', '/story/2']);
+      expect(links[0].textContent?.trim()).toBe('5 comments');
+    });
+
+    it('should mark recent stories with more comments than points as hot discussions', () => {
+      const now = Math.floor(Date.now() / 1000);
+      mockHackerNewsService.getStories.and.returnValue(of({
+        ...mockPagedResult,
+        items: [
+          { ...mockStories[0], time: now - 2 * 60 * 60, score: 30, commentCount: 45 },
+          { ...mockStories[1], time: now - 2 * 60 * 60, score: 300, commentCount: 45 }
+        ]
+      }));
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const cards = Array.from((fixture.nativeElement as HTMLElement).querySelectorAll('.story-card'));
+      expect(cards[0].querySelector('.hot-discussion-marker')).toBeTruthy();
+      expect(cards[0].querySelector('.comments-chip')?.classList).toContain('hot-discussion');
+      expect(cards[1].querySelector('.hot-discussion-marker')).toBeNull();
+    });
+
+    it('should toggle a story in the reading list from its card', () => {
+      component.ngOnInit();
+      fixture.detectChanges();
+
+      const toggle = (fixture.nativeElement as HTMLElement).querySelector<HTMLButtonElement>('.bookmark-toggle')!;
+      toggle.click();
+      fixture.detectChanges();
+
+      expect(JSON.parse(localStorage.getItem('hn.bookmarks')!)[0].story).toEqual(mockStories[0]);
+      expect(toggle.getAttribute('aria-pressed')).toBe('true');
+
+      toggle.click();
+      fixture.detectChanges();
+
+      expect(toggle.getAttribute('aria-pressed')).toBe('false');
+      localStorage.removeItem('hn.bookmarks');
     });
 
     it('should show search section', () => {
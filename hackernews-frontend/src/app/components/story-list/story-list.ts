@@ -1,5 +1,8 @@
-import { Component, inject, signal, OnInit } from '@angular/core';
+import { Component, inject, signal, computed, OnInit, DestroyRef, ElementRef, Injector, afterNextRender, viewChild } from '@angular/core';
+import { takeUntilDestroyed } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
 import { CommonModule } from '@angular/common';
+import { LiveAnnouncer } from '@angular/cdk/a11y';
 import { FormsModule, ReactiveFormsModule, FormBuilder, FormGroup } from '@angular/forms';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { MatCardModule } from '@angular/material/card';
@@ -17,11 +20,69 @@ import { MatDatepickerModule } from '@angular/material/datepicker';
 import { MatNativeDateModule } from '@angular/material/core';
 import { MatSliderModule } from '@angular/material/slider';
 import { MatTooltipModule } from '@angular/material/tooltip';
+import { MatButtonToggleModule } from '@angular/material/button-toggle';
+import { MatSlideToggleModule } from '@angular/material/slide-toggle';
+import { MatMenuModule } from '@angular/material/menu';
+import { MatDividerModule } from '@angular/material/divider';
 import { HackerNewsService } from '../../services/hackernews.service';
-import { Story, SearchQuery, SearchFilters, SearchSortOrder } from '../../models/story.model';
-import { debounceTime, distinctUntilChanged, switchMap, of } from 'rxjs';
+import { formatTimeAgo, getDomainFromUrl, isHotDiscussion } from '../../utils/story-format';
+import { DATE_PRESETS, DatePreset, dateFilterValidator, findDatePreset, isDateFilterValue, resolveDateFilter, toDayValue } from '../../utils/date-filter';
+import { ErrorDisplay, describeLoadError } from '../../utils/error-format';
+import { SearchUrlService } from '../../services/search-url.service';
+import { PreferencesService } from '../../services/preferences.service';
+import { LocalStorageService } from '../../services/local-storage.service';
+import { BookmarkService } from '../../services/bookmark.service';
+import { ReadStateService } from '../../services/read-state.service';
+import { MuteService } from '../../services/mute.service';
+import { InfiniteScrollDirective } from '../../directives/infinite-scroll.directive';
+import { SavedSearchBar } from '../saved-search-bar/saved-search-bar';
+import { CommandPalette, PaletteCommand } from '../command-palette/command-palette';
+import { ShortcutHelp } from '../shortcut-help/shortcut-help';
+import { ChipListInput } from '../chip-list-input/chip-list-input';
+import { SavedSearchService } from '../../services/saved-search.service';
+import { LiveFeedService } from '../../services/live-feed.service';
+import { DisplaySettingsService } from '../../services/display-settings.service';
+import { I18nService } from '../../services/i18n.service';
+import { AdminAccessService } from '../../services/admin-access.service';
+import { QueryLanguageService, ParsedSearchText, QueryOperatorChip, QuerySyntaxError } from '../../services/query-language.service';
+import { Story, PagedStoryResult, SearchQuery, SearchFilters, SearchSortOrder } from '../../models/story.model';
+import { DensitySetting, ThemeSetting } from '../../models/preferences.model';
+import { MuteReason, MuteRuleKind } from '../../models/mute.model';
+import { Observable, Subscription, catchError, debounceTime, distinctUntilChanged, map, switchMap, of, startWith, take } from 'rxjs';
 import { Subject } from 'rxjs';
 
+export type ListMode = 'paged' | 'infinite';
+
+const LIST_MODE_STORAGE_KEY = 'listMode';
+const HIDE_READ_STORAGE_KEY = 'hideReadStories';
+const LIVE_MODE_STORAGE_KEY = 'liveFeed';
+
+/** `replace` shows a page in place of the list; `append` adds the next infinite scroll chunk. */
+interface StoryLoadRequest {
+  mode: 'replace' | 'append';
+  page: number;
+  /** Moves focus to the first story once the page renders, after paging. */
+  focusFirstStory?: boolean;
+}
+
+type StoryLoadEvent =
+  | { status: 'loading'; request: StoryLoadRequest }
+  | { status: 'loaded'; request: StoryLoadRequest; result: PagedStoryResult }
+  | { status: 'failed'; request: StoryLoadRequest; error: unknown };
+
+/** Filters form controls that hold a list of values. */
+const LIST_FILTER_CONTROLS = ['authors', 'excludedAuthors', 'domains', 'excludedDomains'] as const;
+
+/** Marker text for a muted story shown while peeking, by the kind of rule hiding it. */
+const MUTE_REASON_MESSAGES: Record<MuteRuleKind, string> = {
+  authors: 'Muted: author {rule}',
+  domains: 'Muted: domain {rule}',
+  titlePatterns: 'Muted: title {rule}'
+};
+
+/** Pages kept in memory in infinite mode before the oldest are unloaded. */
+export const MAX_LOADED_PAGES = 10;
+
 @Component({
   selector: 'app-story-list',
   imports: [
@@ -43,31 +104,218 @@ import { Subject } from 'rxjs';
     MatDatepickerModule,
     MatNativeDateModule,
     MatSliderModule,
-    MatTooltipModule
+    MatTooltipModule,
+    MatButtonToggleModule,
+    MatSlideToggleModule,
+    MatMenuModule,
+    MatDividerModule,
+    RouterLink,
+    InfiniteScrollDirective,
+    SavedSearchBar,
+    CommandPalette,
+    ShortcutHelp,
+    ChipListInput
   ],
   templateUrl: './story-list.html',
-  styleUrl: './story-list.scss'
+  styleUrl: './story-list.scss',
+  host: {
+    '(document:keydown)': 'onKeydown($event)'
+  }
 })
 export class StoryList implements OnInit {
   private readonly hackerNewsService = inject(HackerNewsService);
   private readonly searchSubject = new Subject<string>();
+  private readonly loadRequests = new Subject<StoryLoadRequest>();
   private readonly fb = inject(FormBuilder);
+  private readonly router = inject(Router);
+  private readonly route = inject(ActivatedRoute);
+  private readonly searchUrlService = inject(SearchUrlService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly localStorage = inject(LocalStorageService);
+  protected readonly bookmarkService = inject(BookmarkService);
+  protected readonly readState = inject(ReadStateService);
+  protected readonly muteService = inject(MuteService);
+  private readonly savedSearchService = inject(SavedSearchService);
+  private readonly elementRef = inject(ElementRef);
+  private readonly injector = inject(Injector);
+  private readonly liveAnnouncer = inject(LiveAnnouncer);
+  private readonly queryLanguage = inject(QueryLanguageService);
+  private readonly liveFeed = inject(LiveFeedService);
+  protected readonly displaySettings = inject(DisplaySettingsService);
+  protected readonly preferencesService = inject(PreferencesService);
+  protected readonly i18n = inject(I18nService);
+  protected readonly adminAccess = inject(AdminAccessService);
+  /** Sort a search uses when it doesn't pick one; anything else counts as a filter. */
+  private readonly defaultSort = computed(() => this.preferencesService.preferences().defaultSort);
+  private readonly searchInput = viewChild<ElementRef<HTMLInputElement>>('searchInput');
+  private lastRequestedKey: string | null = null;
+  private chunkSizes: number[] = [];
+  private hiddenChunkStreak = 0;
+  private liveSubscription?: Subscription;
+  /** A replace load can emit a cached page and then a fresh one; only the first is announced. */
+  private announcedRequest: StoryLoadRequest | null = null;
 
   stories = signal<Story[]>([]);
   currentPage = signal<number>(1);
   loading = signal<boolean>(false);
   error = signal<string | null>(null);
+  /** Icon, recovery action and reference for the current error. */
+  errorDisplay = signal<ErrorDisplay | null>(null);
   searchQuery = signal<string>('');
   isSearchMode = signal<boolean>(false);
   suggestions = signal<string[]>([]);
   loadingSuggestions = signal<boolean>(false);
   filtersExpanded = signal<boolean>(false);
   hasNextPage = signal<boolean>(true);
-  currentPageSize = signal<number>(20);
+  currentPageSize = signal<number>(this.preferencesService.preferences().pageSize);
+  pageSize = signal<number>(this.preferencesService.preferences().pageSize);
+  listMode = signal<ListMode>(this.localStorage.getItem<ListMode>(LIST_MODE_STORAGE_KEY, 'paged'));
+  loadingMore = signal<boolean>(false);
+  loadMoreError = signal<string | null>(null);
+  firstLoadedPage = signal<number>(1);
+  activeSearchQuery = signal<SearchQuery | null>(null);
+  hideRead = signal<boolean>(this.localStorage.getItem<boolean>(HIDE_READ_STORAGE_KEY, false));
+  peekMuted = signal<boolean>(false);
+  liveMode = signal<boolean>(this.localStorage.getItem<boolean>(LIVE_MODE_STORAGE_KEY, false));
+  /** Stories found by live polling, held back until the banner is clicked. */
+  pendingStories = signal<Story[]>([]);
+  newStoryCount = computed(() => this.pendingStories().filter(story => !this.isHidden(story)).length);
+  mutedCount = computed(() => this.stories().filter(story => this.muteService.isMuted(story)).length);
+  visibleStories = computed(() => this.stories().filter(story => !this.isHidden(story)));
+  /** Rank of the first story shown, less one, for the classic layout's numbering. */
+  rankOffset = computed(() =>
+    ((this.listMode() === 'infinite' ? this.firstLoadedPage() : this.currentPage()) - 1) * this.currentPageSize()
+  );
+  /** Query params that open the insights dashboard on the search being shown. */
+  insightsParams = computed(() => {
+    const query = this.activeSearchQuery();
+    return query ? this.searchUrlService.toQueryParams({ ...query, page: 1 }) : {};
+  });
+  /** Authors and domains of the loaded stories, offered by the filter chip inputs. */
+  authorOptions = computed(() => this.distinctSorted(this.stories().map(story => story.by)));
+  domainOptions = computed(() => this.distinctSorted(this.stories().map(story => this.getDomainFromUrl(story.url))));
+  /** Domain chips take a host or a pasted URL. */
+  readonly normalizeDomain = (value: string) => this.queryLanguage.toDomain(value);
+  syntaxErrors = signal<QuerySyntaxError[]>([]);
+  highlightedQuery = computed(() => this.queryLanguage.highlight(this.searchQuery(), this.syntaxErrors()));
+  /** Phrase and exclusion matching for the active search, which the API can't do. */
+  private readonly titleMatcher = computed(() =>
+    this.queryLanguage.createTitleMatcher(this.activeSearchQuery()?.query ?? '')
+  );
+  selectedIndex = signal<number>(-1);
+  selectedStory = computed(() => this.visibleStories()[this.selectedIndex()] ?? null);
+  showShortcutHelp = signal<boolean>(false);
+  commandPaletteOpen = signal<boolean>(false);
+
+  /** Labels are English message texts, translated where they're shown. */
+  readonly themeOptions: { value: ThemeSetting; label: string; command: string; icon: string }[] = [
+    { value: 'light', label: 'Light theme', command: 'Use light theme', icon: 'light_mode' },
+    { value: 'dark', label: 'Dark theme', command: 'Use dark theme', icon: 'dark_mode' },
+    { value: 'system', label: 'System theme', command: 'Use system theme', icon: 'contrast' }
+  ];
+  readonly densityOptions: { value: DensitySetting; label: string; command: string; icon: string }[] = [
+    { value: 'comfortable', label: 'Comfortable', command: 'Use comfortable density', icon: 'density_medium' },
+    { value: 'compact', label: 'Compact', command: 'Use compact density', icon: 'density_small' }
+  ];
+
+  paletteCommands = computed<PaletteCommand[]>(() => [
+    ...this.sortOptions.map(option => ({
+      id: `sort-${option.value}`,
+      label: this.i18n.t('Sort by {sort}', { sort: this.i18n.t(option.label) }),
+      group: this.i18n.t('Sort'),
+      icon: 'sort',
+      run: () => this.applySort(option.value)
+    })),
+    {
+      id: 'toggle-filters',
+      label: this.i18n.t(this.filtersExpanded() ? 'Hide filters' : 'Show filters'),
+      group: this.i18n.t('Filters'),
+      icon: 'tune',
+      run: () => this.toggleFilters()
+    },
+    { id: 'clear-filters', label: this.i18n.t('Clear all filters'), group: this.i18n.t('Filters'), icon: 'clear_all', run: () => this.clearAllFilters() },
+    {
+      id: 'toggle-hide-read',
+      label: this.i18n.t(this.hideRead() ? 'Show read stories' : 'Hide read stories'),
+      group: this.i18n.t('View'),
+      icon: 'done_all',
+      run: () => this.setHideRead(!this.hideRead())
+    },
+    {
+      id: 'toggle-live-mode',
+      label: this.i18n.t(this.liveMode() ? 'Stop live updates' : 'Start live updates'),
+      group: this.i18n.t('View'),
+      icon: 'update',
+      run: () => this.setLiveMode(!this.liveMode())
+    },
+    {
+      id: 'toggle-list-mode',
+      label: this.i18n.t(this.listMode() === 'paged' ? 'Switch to infinite scroll' : 'Switch to pages'),
+      group: this.i18n.t('View'),
+      icon: this.listMode() === 'paged' ? 'all_inclusive' : 'view_agenda',
+      run: () => this.setListMode(this.listMode() === 'paged' ? 'infinite' : 'paged')
+    },
+    {
+      id: 'toggle-layout',
+      label: this.i18n.t(this.displaySettings.layout() === 'cards' ? 'Switch to classic list' : 'Switch to cards'),
+      group: this.i18n.t('View'),
+      icon: this.displaySettings.layout() === 'cards' ? 'view_list' : 'grid_view',
+      run: () => this.displaySettings.setLayout(this.displaySettings.layout() === 'cards' ? 'classic' : 'cards')
+    },
+    ...this.themeOptions.map(option => ({
+      id: `theme-${option.value}`,
+      label: this.i18n.t(option.command),
+      group: this.i18n.t('Display'),
+      icon: option.icon,
+      run: () => this.displaySettings.setTheme(option.value)
+    })),
+    ...this.densityOptions.map(option => ({
+      id: `density-${option.value}`,
+      label: this.i18n.t(option.command),
+      group: this.i18n.t('Display'),
+      icon: option.icon,
+      run: () => this.displaySettings.setDensity(option.value)
+    })),
+    ...this.i18n.localeOptions.map(option => ({
+      id: `locale-${option.value}`,
+      label: option.label,
+      group: this.i18n.t('Language'),
+      icon: 'translate',
+      run: () => this.i18n.setLocale(option.value)
+    })),
+    ...this.savedSearchService.savedSearches().map(search => ({
+      id: `saved-search-${search.id}`,
+      label: search.name,
+      group: this.i18n.t('Saved search'),
+      icon: 'saved_search',
+      run: () => {
+        this.savedSearchService.markRun(search.id);
+        this.router.navigate(['/'], { queryParams: this.searchUrlService.toQueryParams(search.query) });
+      }
+    })),
+    {
+      id: 'go-insights',
+      label: this.i18n.t('Insights for this search'),
+      group: this.i18n.t('Go to'),
+      icon: 'insights',
+      run: () => this.router.navigate(['/insights'], { queryParams: this.insightsParams() })
+    },
+    { id: 'go-bookmarks', label: this.i18n.t('Reading list'), group: this.i18n.t('Go to'), icon: 'bookmarks', run: () => this.router.navigate(['/bookmarks']) },
+    { id: 'go-saved', label: this.i18n.t('Saved for offline'), group: this.i18n.t('Go to'), icon: 'offline_pin', run: () => this.router.navigate(['/saved']) },
+    { id: 'go-muted', label: this.i18n.t('Muted'), group: this.i18n.t('Go to'), icon: 'block', run: () => this.router.navigate(['/muted']) },
+    { id: 'go-settings', label: this.i18n.t('Settings'), group: this.i18n.t('Go to'), icon: 'settings', run: () => this.router.navigate(['/settings']) },
+    ...(this.adminAccess.signedIn()
+      ? [{ id: 'go-admin', label: this.i18n.t('Admin'), group: this.i18n.t('Go to'), icon: 'admin_panel_settings', run: () => this.router.navigate(['/admin']) }]
+      : []),
+    { id: 'shortcuts', label: this.i18n.t('Keyboard shortcuts'), group: this.i18n.t('Help'), icon: 'keyboard', run: () => this.showShortcutHelp.set(true) }
+  ]);
 
   filtersForm: FormGroup;
 
   SearchSortOrder = SearchSortOrder;
+  datePresets = DATE_PRESETS;
+  /** Date filters resolve in this zone, the same one story times are shown in. */
+  timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
   sortOptions = [
     { value: SearchSortOrder.Relevance, label: 'Relevance' },
     { value: SearchSortOrder.Score, label: 'Score' },
@@ -78,20 +326,92 @@ export class StoryList implements OnInit {
 
   constructor() {
     this.filtersForm = this.fb.group({
-      fromDate: [null],
-      toDate: [null],
+      fromDate: [null, dateFilterValidator],
+      toDate: [null, dateFilterValidator],
       minScore: [null],
       maxScore: [null],
-      author: [''],
-      domain: [''],
+      authors: [[]],
+      excludedAuthors: [[]],
+      domains: [[]],
+      excludedDomains: [[]],
       hasUrl: [null],
-      sortBy: [SearchSortOrder.Relevance]
+      sortBy: [this.defaultSort()]
     });
+    this.setupStoryLoading();
   }
 
   ngOnInit() {
-    this.loadStories();
+    this.setupUrlSync();
     this.setupSearchSuggestions();
+    this.destroyRef.onDestroy(() => this.liveSubscription?.unsubscribe());
+  }
+
+  /**
+   * Restores the search from the URL on load and on back/forward navigation.
+   * Only the first URL without params starts from the preferred defaults;
+   * later ones, such as after clearing every filter, are an unfiltered list.
+   * Emissions caused by our own URL updates match the last request and are ignored.
+   */
+  private setupUrlSync() {
+    this.route.queryParamMap.pipe(
+      map((paramMap, index) => index === 0 && paramMap.keys.length === 0
+        ? this.searchUrlService.defaultQuery()
+        : this.searchUrlService.fromQueryParams(paramMap)),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(restored => {
+      if (this.searchUrlService.toKey(restored) === this.lastRequestedKey) {
+        return;
+      }
+      this.applySearchQuery(restored);
+      this.loadStories(restored.page, true);
+    });
+  }
+
+  private applySearchQuery(searchQuery: SearchQuery) {
+    const filters = searchQuery.filters || {};
+
+    this.searchQuery.set(searchQuery.query);
+    this.syntaxErrors.set([]);
+    this.pageSize.set(searchQuery.pageSize || this.preferencesService.preferences().pageSize);
+    this.filtersForm.reset({
+      fromDate: filters.fromDate ?? null,
+      toDate: filters.toDate ?? null,
+      minScore: filters.minScore ?? null,
+      maxScore: filters.maxScore ?? null,
+      authors: filters.authors ?? [],
+      excludedAuthors: filters.excludedAuthors ?? [],
+      domains: filters.domains ?? [],
+      excludedDomains: filters.excludedDomains ?? [],
+      hasUrl: filters.hasUrl ?? null,
+      sortBy: searchQuery.sortBy || this.defaultSort()
+    });
+    this.isSearchMode.set(searchQuery.query.length > 0 || this.hasActiveFilters());
+  }
+
+  private buildSearchQuery(page: number): SearchQuery {
+    return {
+      query: this.searchQuery() || '',
+      page: page,
+      pageSize: this.pageSize(),
+      sortBy: this.filtersForm.get('sortBy')?.value || this.defaultSort(),
+      filters: this.buildFilters()
+    };
+  }
+
+  private syncUrl(page: number, replaceUrl: boolean = false) {
+    const searchQuery = this.buildSearchQuery(page);
+    const queryParams = this.searchUrlService.toQueryParams(searchQuery);
+    this.lastRequestedKey = this.searchUrlService.toKey(searchQuery);
+
+    if (JSON.stringify(queryParams) === JSON.stringify(this.route.snapshot.queryParams)) {
+      return;
+    }
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams,
+      replaceUrl
+    });
   }
 
   private setupSearchSuggestions() {
@@ -118,84 +438,395 @@ export class StoryList implements OnInit {
     });
   }
 
-  loadStories(page: number = 1) {
-    this.loading.set(true);
-    this.error.set(null);
-    
-    const query = this.searchQuery();
-    
-    if (query || this.hasActiveFilters()) {
-      const searchQuery: SearchQuery = {
-        query: query || '',
-        page: page,
-        pageSize: 20,
-        sortBy: this.filtersForm.get('sortBy')?.value || SearchSortOrder.Relevance,
-        filters: this.buildFilters()
-      };
-
-      this.hackerNewsService.searchStories(searchQuery).subscribe({
-        next: (result) => {
-          console.log(`Search results for page ${page}:`, result.items.length, 'items');
-          if (result.items.length === 0 && page > 1) {
-            // No results on this page, stay on previous page and disable next
-            console.log('No results found, staying on previous page');
-            this.currentPage.set(page - 1);
-            this.hasNextPage.set(false);
-            this.loading.set(false);
-            return;
-          }
-          this.currentPage.set(page);
-          this.stories.set(result.items);
-          this.currentPageSize.set(result.pageSize);
-          // If we got fewer items than requested, we're at the end
-          this.hasNextPage.set(result.items.length === result.pageSize);
-          this.loading.set(false);
-        },
-        error: (err) => {
-          console.error('Error loading stories:', err);
-          this.error.set('Failed to load stories. Please try again.');
-          this.loading.set(false);
-        }
-      });
+  /**
+   * Starts loading `page` in place of the stories shown. Any load still in
+   * flight is cancelled, so a slow earlier response can't overwrite it.
+   * `replaceUrl` keeps a URL filled in from the preferences out of history.
+   */
+  loadStories(page: number = 1, replaceUrl: boolean = false, focusFirstStory: boolean = false) {
+    this.hiddenChunkStreak = 0;
+    this.selectedIndex.set(-1);
+    this.stopLivePolling();
+    this.syncUrl(page, replaceUrl);
+    this.activeSearchQuery.set(this.searchQuery() || this.hasActiveFilters() ? this.buildSearchQuery(1) : null);
+    this.loadRequests.next({ mode: 'replace', page, focusFirstStory });
+  }
+
+  /**
+   * Infinite scroll: appends the next page below the stories already shown.
+   * Stories already on screen are skipped, since new submissions shift items
+   * between pages while the user scrolls.
+   */
+  loadNextChunk() {
+    if (this.listMode() !== 'infinite' || this.loading() || this.loadingMore() || !this.hasNextPage()) {
+      return;
+    }
+    this.loadRequests.next({ mode: 'append', page: this.currentPage() + 1 });
+  }
+
+  /**
+   * Every load goes through one stream: switchMap drops the previous request
+   * as soon as a new one starts, and the loading and error signals are only
+   * ever set from the events of the request that is still current.
+   */
+  private setupStoryLoading() {
+    this.loadRequests.pipe(
+      switchMap(request => {
+        // Appends only need one emission; a cached page is good enough there
+        const page$ = request.mode === 'append' ? this.fetchPage(request.page).pipe(take(1)) : this.fetchPage(request.page);
+        return page$.pipe(
+          map((result): StoryLoadEvent => ({ status: 'loaded', request, result })),
+          catchError(error => of<StoryLoadEvent>({ status: 'failed', request, error })),
+          startWith<StoryLoadEvent>({ status: 'loading', request })
+        );
+      }),
+      takeUntilDestroyed(this.destroyRef)
+    ).subscribe(event => {
+      if (event.request.mode === 'replace') {
+        this.applyPageEvent(event);
+      } else {
+        this.applyChunkEvent(event);
+      }
+    });
+  }
+
+  private applyPageEvent(event: StoryLoadEvent) {
+    const page = event.request.page;
+    switch (event.status) {
+      case 'loading':
+        this.loading.set(true);
+        // A replace cancels an append that was still in flight
+        this.loadingMore.set(false);
+        this.error.set(null);
+        this.errorDisplay.set(null);
+        this.loadMoreError.set(null);
+        return;
+      case 'failed': {
+        console.error('Error loading stories:', event.error);
+        const display = describeLoadError(event.error, 'stories', this.i18n.locale());
+        this.errorDisplay.set(display);
+        this.error.set(display.message);
+        this.loading.set(false);
+        this.liveAnnouncer.announce(display.message, 'assertive');
+        return;
+      }
+    }
+
+    const result = event.result;
+    console.log(`Stories for page ${page}:`, result.items.length, 'items');
+    if (result.items.length === 0 && page > 1) {
+      // No results on this page, stay on previous page and disable next
+      console.log('No results found, staying on previous page');
+      this.currentPage.set(page - 1);
+      this.hasNextPage.set(false);
+      this.syncUrl(page - 1, true);
+      this.loading.set(false);
+      this.announcePage(event.request, this.i18n.t('There are no more stories.'));
+      return;
+    }
+    this.currentPage.set(page);
+    this.firstLoadedPage.set(page);
+    this.chunkSizes = [result.items.length];
+    this.stories.set(result.items);
+    this.currentPageSize.set(result.pageSize);
+    // If we got fewer items than requested, we're at the end
+    this.hasNextPage.set(result.hasNextPage ?? result.items.length === result.pageSize);
+    this.loading.set(false);
+    this.syncLivePolling();
+
+    const count = this.visibleStories().length;
+    this.announcePage(event.request, count === 0
+      ? this.i18n.t('No stories found.')
+      : this.i18n.plural(count, 'Loaded page {page}, {count} story', 'Loaded page {page}, {count} stories', { page }));
+  }
+
+  /** Announces a loaded page once and, after paging, focuses its first story. */
+  private announcePage(request: StoryLoadRequest, message: string) {
+    if (request === this.announcedRequest) {
+      return;
+    }
+    this.announcedRequest = request;
+    this.liveAnnouncer.announce(message);
+
+    if (request.focusFirstStory) {
+      afterNextRender(() => {
+        const link = (this.elementRef.nativeElement as HTMLElement)
+          .querySelector<HTMLElement>('.story-card .story-link, .story-row .story-link');
+        link?.focus();
+      }, { injector: this.injector });
+    }
+  }
+
+  private applyChunkEvent(event: StoryLoadEvent) {
+    switch (event.status) {
+      case 'loading':
+        this.loadingMore.set(true);
+        this.loadMoreError.set(null);
+        return;
+      case 'failed': {
+        console.error('Error loading more stories:', event.error);
+        const message = this.i18n.t('Failed to load more stories.');
+        this.loadMoreError.set(message);
+        this.loadingMore.set(false);
+        this.liveAnnouncer.announce(message, 'assertive');
+        return;
+      }
+    }
+
+    const result = event.result;
+    const seenIds = new Set(this.stories().map(story => story.id));
+    const added = result.items.filter(story => !seenIds.has(story.id));
+    this.currentPage.set(event.request.page);
+    this.hasNextPage.set(result.hasNextPage ?? result.items.length === result.pageSize);
+    this.appendChunk(added);
+    this.loadingMore.set(false);
+
+    // A chunk that is entirely muted or read leaves the sentinel in view,
+    // and the observer won't report it again, so keep loading
+    const shown = added.filter(story => !this.isHidden(story)).length;
+    if (shown > 0) {
+      this.hiddenChunkStreak = 0;
+      this.liveAnnouncer.announce(this.i18n.plural(shown, 'Loaded {count} more story', 'Loaded {count} more stories'));
+    } else if (++this.hiddenChunkStreak < MAX_LOADED_PAGES) {
+      this.loadNextChunk();
+    }
+  }
+
+  setListMode(mode: ListMode) {
+    if (mode === this.listMode()) {
+      return;
+    }
+
+    this.listMode.set(mode);
+    this.localStorage.setItem(LIST_MODE_STORAGE_KEY, mode);
+
+    if (mode === 'infinite') {
+      // The current page becomes the first chunk of the scrolling list
+      this.firstLoadedPage.set(this.currentPage());
+      this.chunkSizes = [this.stories().length];
     } else {
-      this.hackerNewsService.getStories(page, 20).subscribe({
-        next: (result) => {
-          console.log(`Stories for page ${page}:`, result.items.length, 'items');
-          if (result.items.length === 0 && page > 1) {
-            // No results on this page, stay on previous page and disable next
-            console.log('No results found, staying on previous page');
-            this.currentPage.set(page - 1);
-            this.hasNextPage.set(false);
-            this.loading.set(false);
-            return;
-          }
-          this.currentPage.set(page);
-          this.stories.set(result.items);
-          this.currentPageSize.set(result.pageSize);
-          // If we got fewer items than requested, we're at the end
-          this.hasNextPage.set(result.items.length === result.pageSize);
-          this.loading.set(false);
-        },
-        error: (err) => {
-          console.error('Error loading stories:', err);
-          this.error.set('Failed to load stories. Please try again.');
-          this.loading.set(false);
+      this.loadStories(this.currentPage());
+    }
+  }
+
+  setLiveMode(live: boolean) {
+    this.liveMode.set(live);
+    this.localStorage.setItem(LIVE_MODE_STORAGE_KEY, live);
+    this.syncLivePolling();
+  }
+
+  /** Prepends the stories held back by live polling. */
+  showNewStories() {
+    const pending = this.pendingStories();
+    const shownCount = this.newStoryCount();
+    this.pendingStories.set([]);
+    this.stories.update(stories => [...pending, ...stories]);
+    this.chunkSizes[0] = (this.chunkSizes[0] ?? 0) + pending.length;
+    this.selectedIndex.update(index => index < 0 ? index : index + shownCount);
+    (this.elementRef.nativeElement as HTMLElement).querySelector('.stories-grid')?.scrollIntoView({ block: 'start' });
+  }
+
+  /**
+   * Live updates cover the first page of the plain newest-stories feed. Polling
+   * restarts from scratch whenever the list is reloaded.
+   */
+  private syncLivePolling() {
+    this.stopLivePolling();
+    if (!this.liveMode() || this.searchQuery() || this.hasActiveFilters() || this.firstLoadedPage() !== 1) {
+      return;
+    }
+    this.liveSubscription = this.liveFeed.poll(this.pageSize()).subscribe(latest => this.applyLiveUpdate(latest));
+  }
+
+  private stopLivePolling() {
+    this.liveSubscription?.unsubscribe();
+    this.liveSubscription = undefined;
+    this.pendingStories.set([]);
+  }
+
+  /** New stories wait behind the banner so the list doesn't move; counts on shown stories change in place. */
+  private applyLiveUpdate(latest: Story[]) {
+    const { added, updated } = this.liveFeed.diff([...this.pendingStories(), ...this.stories()], latest);
+
+    if (updated.size > 0) {
+      const applyUpdates = (stories: Story[]) => stories.map(story => updated.get(story.id) ?? story);
+      this.stories.update(applyUpdates);
+      this.pendingStories.update(applyUpdates);
+    }
+    if (added.length > 0) {
+      this.pendingStories.update(pending => [...added, ...pending]);
+    }
+  }
+
+  setHideRead(hideRead: boolean) {
+    this.hideRead.set(hideRead);
+    this.localStorage.setItem(HIDE_READ_STORAGE_KEY, hideRead);
+  }
+
+  togglePeekMuted() {
+    this.peekMuted.update(peek => !peek);
+  }
+
+  muteAuthor(story: Story) {
+    this.muteService.add('authors', story.by);
+  }
+
+  muteDomain(story: Story) {
+    this.muteService.add('domains', this.getDomainFromUrl(story.url));
+  }
+
+  /**
+   * Muted and read stories are filtered on the client. Paging still follows the
+   * unfiltered API pages, so a page with hidden stories doesn't end the list.
+   */
+  private isHidden(story: Story): boolean {
+    const titleMatcher = this.titleMatcher();
+    return (!this.peekMuted() && this.muteService.isMuted(story))
+      || (this.hideRead() && this.readState.isRead(story.id))
+      || (titleMatcher !== null && !titleMatcher(story.title));
+  }
+
+  /**
+   * Single-key shortcuts for the feed; see KEYBOARD_SHORTCUTS. Keys typed into
+   * form fields are left alone, except for Ctrl+K which works everywhere.
+   */
+  onKeydown(event: KeyboardEvent) {
+    if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+      event.preventDefault();
+      this.commandPaletteOpen.update(open => !open);
+      return;
+    }
+    if (event.key === 'Escape' && this.showShortcutHelp()) {
+      this.showShortcutHelp.set(false);
+      return;
+    }
+    if (this.commandPaletteOpen() || event.ctrlKey || event.metaKey || event.altKey || this.isEditable(event.target)) {
+      return;
+    }
+
+    const story = this.selectedStory();
+    switch (event.key) {
+      case 'j':
+        this.moveSelection(1);
+        break;
+      case 'k':
+        this.moveSelection(-1);
+        break;
+      case 'o':
+        if (story) this.openStory(story);
+        break;
+      case 'c':
+        if (story) this.openComments(story);
+        break;
+      case 'b':
+        if (story) this.bookmarkService.toggle(story);
+        break;
+      case '/':
+        this.searchInput()?.nativeElement.focus();
+        break;
+      case 'n':
+        if (this.listMode() === 'infinite') {
+          this.loadNextChunk();
+        } else {
+          this.goToNextPage();
+        }
+        break;
+      case 'p':
+        if (this.listMode() === 'paged') {
+          this.goToPreviousPage();
         }
-      });
+        break;
+      case '?':
+        this.showShortcutHelp.set(true);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  moveSelection(delta: number) {
+    const count = this.visibleStories().length;
+    if (count === 0) {
+      return;
+    }
+
+    this.selectedIndex.set(Math.min(Math.max(this.selectedIndex() + delta, 0), count - 1));
+    const cards = (this.elementRef.nativeElement as HTMLElement).querySelectorAll<HTMLElement>('.story-card, .story-row');
+    cards[this.selectedIndex()]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  openStory(story: Story) {
+    this.markRead(story);
+    if (story.hasUrl && story.url) {
+      if (this.preferencesService.preferences().linkTarget === 'same-tab') {
+        window.open(story.url, '_self');
+      } else {
+        window.open(story.url, '_blank', 'noopener');
+      }
+    } else {
+      this.router.navigate(['/story', story.id]);
     }
   }
 
+  openComments(story: Story) {
+    this.markRead(story);
+    this.router.navigate(['/story', story.id]);
+  }
+
+  applySort(sortBy: SearchSortOrder) {
+    this.filtersForm.patchValue({ sortBy });
+    this.onFiltersChanged();
+  }
+
+  private isEditable(target: EventTarget | null): boolean {
+    const element = target as HTMLElement | null;
+    return !!element && (
+      element.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)
+    );
+  }
+
+  /** Called when the story link or its comment thread is opened. */
+  markRead(story: Story) {
+    this.readState.markRead(story.id);
+  }
+
+  private fetchPage(page: number): Observable<PagedStoryResult> {
+    if (this.searchQuery() || this.hasActiveFilters()) {
+      return this.hackerNewsService.searchStories(this.buildSearchQuery(page));
+    }
+    return this.hackerNewsService.getStories(page, this.pageSize());
+  }
+
+  /** Appends a page and unloads the oldest pages once MAX_LOADED_PAGES is exceeded. */
+  private appendChunk(items: Story[]) {
+    let stories = [...this.stories(), ...items];
+    this.chunkSizes.push(items.length);
+
+    while (this.chunkSizes.length > MAX_LOADED_PAGES) {
+      stories = stories.slice(this.chunkSizes.shift());
+      this.firstLoadedPage.update(page => page + 1);
+    }
+    if (this.firstLoadedPage() !== 1) {
+      // The newest stories are no longer in the list, so there is nothing to update live
+      this.stopLivePolling();
+    }
+
+    this.stories.set(stories);
+  }
+
   private buildFilters(): SearchFilters | undefined {
     const formValue = this.filtersForm.value;
     const filters: SearchFilters = {};
     let hasFilters = false;
 
-    if (formValue.fromDate) {
-      filters.fromDate = formValue.fromDate;
+    if (this.hasDateValue(formValue.fromDate)) {
+      filters.fromDate = formValue.fromDate.trim();
       hasFilters = true;
     }
-    if (formValue.toDate) {
-      filters.toDate = formValue.toDate;
+    if (this.hasDateValue(formValue.toDate)) {
+      filters.toDate = formValue.toDate.trim();
       hasFilters = true;
     }
     if (formValue.minScore !== null && formValue.minScore !== '') {
@@ -206,14 +837,12 @@ export class StoryList implements OnInit {
       filters.maxScore = Number(formValue.maxScore);
       hasFilters = true;
     }
-    if (formValue.author?.trim()) {
-      filters.author = formValue.author.trim();
-      hasFilters = true;
-    }
-    if (formValue.domain?.trim()) {
-      filters.domain = formValue.domain.trim();
-      hasFilters = true;
-    }
+    LIST_FILTER_CONTROLS.forEach(control => {
+      if (formValue[control]?.length) {
+        filters[control] = [...formValue[control]];
+        hasFilters = true;
+      }
+    });
     if (formValue.hasUrl !== null) {
       filters.hasUrl = formValue.hasUrl;
       hasFilters = true;
@@ -222,81 +851,89 @@ export class StoryList implements OnInit {
     return hasFilters ? filters : undefined;
   }
 
+  /** Values that don't parse are left out of the search and flagged in the form instead. */
+  private hasDateValue(value: string | null | undefined): value is string {
+    return !!value?.trim() && isDateFilterValue(value);
+  }
+
+  private distinctSorted(values: (string | undefined)[]): string[] {
+    return Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+  }
+
   private hasActiveFilters(): boolean {
     const formValue = this.filtersForm.value;
     return !!(
-      formValue.fromDate ||
-      formValue.toDate ||
+      this.hasDateValue(formValue.fromDate) ||
+      this.hasDateValue(formValue.toDate) ||
       (formValue.minScore !== null && formValue.minScore !== '') ||
       (formValue.maxScore !== null && formValue.maxScore !== '') ||
-      formValue.author?.trim() ||
-      formValue.domain?.trim() ||
+      LIST_FILTER_CONTROLS.some(control => formValue[control]?.length) ||
       formValue.hasUrl !== null ||
-      formValue.sortBy !== SearchSortOrder.Relevance
+      formValue.sortBy !== this.defaultSort()
     );
   }
 
+  /** Runs the recovery action offered for the current error. */
+  recoverFromError() {
+    switch (this.errorDisplay()?.recovery ?? 'retry') {
+      case 'retry':
+        this.loadStories(this.currentPage());
+        break;
+      case 'reset':
+        this.clearSearch();
+        break;
+      case 'reload':
+        window.location.reload();
+        break;
+    }
+  }
+
   goToNextPage() {
     if (this.hasNextPage()) {
-      this.loadStories(this.currentPage() + 1);
+      this.loadStories(this.currentPage() + 1, false, true);
     }
   }
 
   goToPreviousPage() {
     if (this.currentPage() > 1) {
-      this.loadStories(this.currentPage() - 1);
+      this.loadStories(this.currentPage() - 1, false, true);
     }
   }
 
   formatTimeAgo(date: Date | string | number): string {
-    const now = new Date();
-    let targetDate: Date;
-    
-    if (typeof date === 'number') {
-      // Unix timestamp (in seconds), convert to milliseconds
-      targetDate = new Date(date * 1000);
-    } else if (typeof date === 'string') {
-      targetDate = new Date(date);
-    } else {
-      targetDate = date;
-    }
-    
-    // Handle invalid dates
-    if (isNaN(targetDate.getTime())) {
-      return 'unknown';
-    }
-    
-    const diffInMinutes = Math.floor((now.getTime() - targetDate.getTime()) / (1000 * 60));
-    
-    if (diffInMinutes < 1) return 'just now';
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
-    
-    const diffInHours = Math.floor(diffInMinutes / 60);
-    if (diffInHours < 24) return `${diffInHours}h ago`;
-    
-    const diffInDays = Math.floor(diffInHours / 24);
-    if (diffInDays < 30) return `${diffInDays}d ago`;
-    
-    const diffInMonths = Math.floor(diffInDays / 30);
-    if (diffInMonths < 12) return `${diffInMonths}mo ago`;
-    
-    const diffInYears = Math.floor(diffInMonths / 12);
-    return `${diffInYears}y ago`;
+    return formatTimeAgo(date, this.i18n.locale());
+  }
+
+  formatDateTime(date: Date | string | number): string {
+    return this.i18n.formatDateTime(date);
+  }
+
+  /** Story time in the preferred form; the tooltip shows the other one. */
+  formatTime(date: Date | string | number): string {
+    return this.preferencesService.formatTime(date);
+  }
+
+  formatTimeTooltip(date: Date | string | number): string {
+    return this.preferencesService.preferences().timeDisplay === 'absolute' ? this.formatTimeAgo(date) : this.formatDateTime(date);
+  }
+
+  isHotDiscussion(story: Story): boolean {
+    return isHotDiscussion(story);
   }
 
   getDomainFromUrl(url: string | undefined): string {
-    if (!url) return '';
-    try {
-      return new URL(url).hostname.replace('www.', '');
-    } catch {
-      return '';
-    }
+    return getDomainFromUrl(url);
+  }
+
+  describeMuteReason(reason: MuteReason): string {
+    return this.i18n.t(MUTE_REASON_MESSAGES[reason.kind], { rule: reason.rule });
   }
 
   onSearchInput(event: Event) {
     const target = event.target as HTMLInputElement;
     const query = target.value;
     this.searchQuery.set(query);
+    this.syntaxErrors.set(this.queryLanguage.parse(query).errors);
     
     if (query.length >= 2) {
       this.searchSubject.next(query);
@@ -305,13 +942,72 @@ export class StoryList implements OnInit {
     }
   }
 
+  /**
+   * Operators in the query (`author:pg`, `score:>100`, ...) are moved into the
+   * filters form, which stays the source of truth; the search box keeps the
+   * free text. Nothing is searched while the query has syntax errors.
+   */
   onSearch(query: string) {
-    this.searchQuery.set(query.trim());
-    this.isSearchMode.set(query.trim().length > 0 || this.hasActiveFilters());
+    const parsed = this.queryLanguage.parse(query);
+    this.syntaxErrors.set(parsed.errors);
+    if (parsed.errors.length > 0) {
+      this.searchQuery.set(query);
+      return;
+    }
+
+    this.applyOperators(parsed);
+    this.searchQuery.set(parsed.text);
+    this.isSearchMode.set(parsed.text.length > 0 || this.hasActiveFilters());
     this.currentPage.set(1);
     this.loadStories(1);
   }
 
+  private applyOperators({ filters, sortBy }: ParsedSearchText) {
+    const patch: Record<string, unknown> = {};
+    // Repeated operators add to the lists rather than replace them
+    LIST_FILTER_CONTROLS.forEach(control => {
+      const current: string[] = this.filtersForm.value[control] ?? [];
+      const added = (filters[control] ?? []).filter(value => !current.includes(value));
+      if (added.length > 0) patch[control] = [...current, ...added];
+    });
+    if (filters.minScore !== undefined) patch['minScore'] = filters.minScore;
+    if (filters.maxScore !== undefined) patch['maxScore'] = filters.maxScore;
+    if (filters.fromDate !== undefined) patch['fromDate'] = filters.fromDate;
+    if (filters.toDate !== undefined) patch['toDate'] = filters.toDate;
+    if (filters.hasUrl !== undefined) patch['hasUrl'] = filters.hasUrl;
+    if (sortBy !== undefined) patch['sortBy'] = sortBy;
+    this.filtersForm.patchValue(patch);
+  }
+
+  /** The active filters written as query operators, shown as removable chips. */
+  getOperatorChips(): QueryOperatorChip[] {
+    return this.queryLanguage.toOperatorChips(this.buildFilters() ?? {}, this.filtersForm.get('sortBy')?.value);
+  }
+
+  removeOperator(chip: QueryOperatorChip) {
+    const control = this.filtersForm.get(chip.control);
+    if (chip.value !== undefined) {
+      control?.setValue((control.value ?? []).filter((value: string) => value !== chip.value));
+      this.onFiltersChanged();
+      return;
+    }
+
+    const emptyValues: Record<QueryOperatorChip['control'], unknown> = {
+      authors: [],
+      excludedAuthors: [],
+      domains: [],
+      excludedDomains: [],
+      minScore: null,
+      maxScore: null,
+      fromDate: null,
+      toDate: null,
+      hasUrl: null,
+      sortBy: this.defaultSort()
+    };
+    control?.setValue(emptyValues[chip.control]);
+    this.onFiltersChanged();
+  }
+
   onFiltersChanged() {
     this.isSearchMode.set(this.searchQuery().trim().length > 0 || this.hasActiveFilters());
     this.currentPage.set(1);
@@ -320,11 +1016,42 @@ export class StoryList implements OnInit {
 
   clearAllFilters() {
     this.filtersForm.reset({
-      sortBy: SearchSortOrder.Relevance
+      sortBy: this.defaultSort()
     });
     this.onFiltersChanged();
   }
 
+  /** Selecting the active preset again clears the dates. */
+  applyDatePreset(preset: DatePreset) {
+    const active = this.activeDatePreset() === preset;
+    this.filtersForm.patchValue({
+      fromDate: active ? null : preset.fromDate,
+      toDate: active ? null : preset.toDate ?? null
+    });
+    this.onFiltersChanged();
+  }
+
+  activeDatePreset(): DatePreset | undefined {
+    return findDatePreset(this.filtersForm.value.fromDate, this.filtersForm.value.toDate);
+  }
+
+  /** A day picked in the calendar replaces whatever was typed. */
+  onDatePicked(control: 'fromDate' | 'toDate', date: Date | null) {
+    if (date) {
+      this.filtersForm.get(control)?.setValue(toDayValue(date));
+    }
+  }
+
+  /** What a date field currently resolves to, e.g. "From Mar 3, 2025, 2:30 PM". */
+  describeDateBound(control: 'fromDate' | 'toDate'): string {
+    const value: string | null = this.filtersForm.get(control)?.value;
+    const resolved = value ? resolveDateFilter(value, control === 'fromDate' ? 'from' : 'to') : null;
+    if (!resolved) {
+      return '';
+    }
+    return this.i18n.t(control === 'fromDate' ? 'From {date}' : 'Until {date}', { date: this.formatDateTime(resolved) });
+  }
+
   toggleFilters() {
     this.filtersExpanded.set(!this.filtersExpanded());
   }
@@ -333,14 +1060,15 @@ export class StoryList implements OnInit {
     const formValue = this.filtersForm.value;
     let count = 0;
     
-    if (formValue.fromDate) count++;
-    if (formValue.toDate) count++;
+    if (this.hasDateValue(formValue.fromDate)) count++;
+    if (this.hasDateValue(formValue.toDate)) count++;
     if (formValue.minScore !== null && formValue.minScore !== '') count++;
     if (formValue.maxScore !== null && formValue.maxScore !== '') count++;
-    if (formValue.author?.trim()) count++;
-    if (formValue.domain?.trim()) count++;
+    LIST_FILTER_CONTROLS.forEach(control => {
+      if (formValue[control]?.length) count++;
+    });
     if (formValue.hasUrl !== null) count++;
-    if (formValue.sortBy !== SearchSortOrder.Relevance) count++;
+    if (formValue.sortBy !== this.defaultSort()) count++;
     
     return count;
   }
@@ -356,10 +1084,12 @@ export class StoryList implements OnInit {
   }
 
   clearSearch() {
+    this.hackerNewsService.invalidateCache('search');
     this.searchQuery.set('');
+    this.syntaxErrors.set([]);
     this.suggestions.set([]);
     this.filtersForm.reset({
-      sortBy: SearchSortOrder.Relevance
+      sortBy: this.defaultSort()
     });
     this.isSearchMode.set(false);
     this.currentPage.set(1);
@@ -0,0 +1,59 @@
+import { Component } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+import { InfiniteScrollDirective } from './infinite-scroll.directive';
+
+@Component({
+  imports: [InfiniteScrollDirective],
+  template: '<div appInfiniteScroll [scrollMargin]="200" (scrolled)="onScrolled()"></div>'
+})
+class HostComponent {
+  scrolledCount = 0;
+
+  onScrolled() {
+    this.scrolledCount++;
+  }
+}
+
+describe('InfiniteScrollDirective', () => {
+  let observerCallback: IntersectionObserverCallback;
+  let observerOptions: IntersectionObserverInit | undefined;
+  let disconnectSpy: jasmine.Spy;
+
+  beforeEach(() => {
+    disconnectSpy = jasmine.createSpy('disconnect');
+    spyOn(window, 'IntersectionObserver').and.callFake(((callback: IntersectionObserverCallback, options?: IntersectionObserverInit) => {
+      observerCallback = callback;
+      observerOptions = options;
+      return { observe: () => {}, disconnect: disconnectSpy } as unknown as IntersectionObserver;
+    }) as any);
+
+    TestBed.configureTestingModule({ imports: [HostComponent] });
+  });
+
+  it('should observe with the configured margin', () => {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+
+    expect(observerOptions?.rootMargin).toBe('0px 0px 200px 0px');
+  });
+
+  it('should emit only when the sentinel intersects', () => {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+
+    observerCallback([{ isIntersecting: false } as IntersectionObserverEntry], {} as IntersectionObserver);
+    expect(fixture.componentInstance.scrolledCount).toBe(0);
+
+    observerCallback([{ isIntersecting: true } as IntersectionObserverEntry], {} as IntersectionObserver);
+    expect(fixture.componentInstance.scrolledCount).toBe(1);
+  });
+
+  it('should disconnect on destroy', () => {
+    const fixture = TestBed.createComponent(HostComponent);
+    fixture.detectChanges();
+
+    fixture.destroy();
+
+    expect(disconnectSpy).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,35 @@
+import { Directive, ElementRef, OnDestroy, OnInit, inject, input, output } from '@angular/core';
+
+/**
+ * Emits `scrolled` whenever the host element comes within `scrollMargin`
+ * pixels of the viewport. Place it on a sentinel after the last item.
+ */
+@Directive({
+  selector: '[appInfiniteScroll]'
+})
+export class InfiniteScrollDirective implements OnInit, OnDestroy {
+  private readonly elementRef = inject(ElementRef<HTMLElement>);
+  private observer: IntersectionObserver | null = null;
+
+  scrollMargin = input<number>(400);
+  scrolled = output<void>();
+
+  ngOnInit() {
+    if (typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    this.observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) {
+        this.scrolled.emit();
+      }
+    }, { rootMargin: `0px 0px ${this.scrollMargin()}px 0px` });
+
+    this.observer.observe(this.elementRef.nativeElement);
+  }
+
+  ngOnDestroy() {
+    this.observer?.disconnect();
+    this.observer = null;
+  }
+}
@@ -0,0 +1,46 @@
+import { TestBed } from '@angular/core/testing';
+import { Router, provideRouter } from '@angular/router';
+import { Component, signal } from '@angular/core';
+import { adminGuard } from './admin.guard';
+import { AdminAccessService } from '../services/admin-access.service';
+
+@Component({ template: '' })
+class Page {}
+
+@Component({ template: '' })
+class SignIn {}
+
+describe('adminGuard', () => {
+  const signedIn = signal(false);
+  let router: Router;
+
+  beforeEach(() => {
+    signedIn.set(false);
+    TestBed.configureTestingModule({
+      providers: [
+        provideRouter([
+          { path: '', component: Page },
+          { path: 'admin', component: Page, canMatch: [adminGuard] },
+          { path: 'admin', component: SignIn }
+        ]),
+        { provide: AdminAccessService, useValue: { signedIn } }
+      ]
+    });
+    router = TestBed.inject(Router);
+  });
+
+  const openedPage = async () => {
+    await router.navigateByUrl('/admin');
+    return router.routerState.snapshot.root.firstChild?.component;
+  };
+
+  it('should open the admin page once signed in', async () => {
+    signedIn.set(true);
+
+    expect(await openedPage()).toBe(Page);
+  });
+
+  it('should ask for the admin key while signed out', async () => {
+    expect(await openedPage()).toBe(SignIn);
+  });
+});
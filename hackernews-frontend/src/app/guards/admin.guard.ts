@@ -0,0 +1,6 @@
+import { inject } from '@angular/core';
+import { CanMatchFn } from '@angular/router';
+import { AdminAccessService } from '../services/admin-access.service';
+
+/** Matches the admin console once an admin key is accepted; until then `/admin` falls through to the sign-in page. */
+export const adminGuard: CanMatchFn = () => inject(AdminAccessService).signedIn();
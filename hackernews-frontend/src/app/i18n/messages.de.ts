@@ -0,0 +1,454 @@
+/**
+ * German messages, keyed by their English text. Placeholders such as
+ * `{count}` must be kept as they are; date filter keywords like `today` are
+ * search syntax and stay English.
+ */
+export const MESSAGES_DE: Record<string, string> = {
+  // Times
+  'just now': 'gerade eben',
+  'unknown': 'unbekannt',
+
+  // Toolbar
+  'HackerNews Stories': 'HackerNews-Storys',
+  'Latest stories from the HackerNews community': 'Neueste Storys aus der HackerNews-Community',
+  'Theme and density': 'Design und Dichte',
+  'Language': 'Sprache',
+  'Keyboard shortcuts (?)': 'Tastenkürzel (?)',
+  'Keyboard shortcuts': 'Tastenkürzel',
+  'Insights for this search': 'Auswertung für diese Suche',
+  'Reading list': 'Leseliste',
+  'Saved for offline': 'Offline gespeichert',
+  'Muted authors, domains and keywords': 'Stummgeschaltete Autoren, Domains und Stichwörter',
+  'Settings': 'Einstellungen',
+  'Admin': 'Verwaltung',
+  'Light theme': 'Helles Design',
+  'Dark theme': 'Dunkles Design',
+  'System theme': 'Systemdesign',
+  'Comfortable': 'Komfortabel',
+  'Compact': 'Kompakt',
+
+  // Search
+  'Search stories by title': 'Storys nach Titel durchsuchen',
+  'e.g. rust author:pg score:>100 "exact phrase" -excluded': 'z. B. rust author:pg score:>100 "exakte Phrase" -ausgeschlossen',
+  'Loading suggestions...': 'Vorschläge werden geladen …',
+  'No suggestions found': 'Keine Vorschläge gefunden',
+  'Search': 'Suchen',
+  'Advanced search filters': 'Erweiterte Suchfilter',
+  'Filters': 'Filter',
+  'Clear': 'Zurücksetzen',
+  'Search operators': 'Suchoperatoren',
+  'Remove {name}': '{name} entfernen',
+
+  // Filters
+  'Advanced Search Filters': 'Erweiterte Suchfilter',
+  '{count} active filter': '{count} aktiver Filter',
+  '{count} active filters': '{count} aktive Filter',
+  'Date Range': 'Zeitraum',
+  'Date presets': 'Zeitraum-Vorgaben',
+  'Last 24 hours': 'Letzte 24 Stunden',
+  'Today': 'Heute',
+  'Yesterday': 'Gestern',
+  'Past week': 'Letzte Woche',
+  'This month': 'Dieser Monat',
+  'Past year': 'Letztes Jahr',
+  'From': 'Von',
+  'To': 'Bis',
+  '-7d, today or 2025-01-31T14': '-7d, today oder 2025-01-31T14',
+  'now, yesterday or 2025-01-31': 'now, yesterday oder 2025-01-31',
+  'Use a date, an hour like 2025-01-31T14 or -7d': 'Ein Datum, eine Stunde wie 2025-01-31T14 oder -7d angeben',
+  'From {date}': 'Ab {date}',
+  'Until {date}': 'Bis {date}',
+  'Days and hours are in your time zone, {zone}.': 'Tage und Stunden gelten in Ihrer Zeitzone, {zone}.',
+  'Score Range': 'Punktebereich',
+  'Min Score': 'Mindestpunktzahl',
+  'Max Score': 'Höchstpunktzahl',
+  'Authors & Domains': 'Autoren & Domains',
+  'Authors': 'Autoren',
+  'e.g. pg, sama': 'z. B. pg, sama',
+  'Exclude authors': 'Autoren ausschließen',
+  'e.g. a bot account': 'z. B. ein Bot-Konto',
+  'Domains': 'Domains',
+  'e.g. github.com, gitlab.com': 'z. B. github.com, gitlab.com',
+  'Exclude domains': 'Domains ausschließen',
+  'e.g. medium.com': 'z. B. medium.com',
+  'Sort & Options': 'Sortierung & Optionen',
+  'Sort By': 'Sortieren nach',
+  'Relevance': 'Relevanz',
+  'Score': 'Punkte',
+  'Most Recent': 'Neueste',
+  'Oldest': 'Älteste',
+  'Most Comments': 'Meiste Kommentare',
+  'Exclude Ask Hacker News': 'Ask Hacker News ausschließen',
+  'Apply Filters': 'Filter anwenden',
+  'Clear All Filters': 'Alle Filter zurücksetzen',
+
+  // List controls
+  'List mode': 'Listenmodus',
+  'Show one page at a time': 'Eine Seite nach der anderen anzeigen',
+  'Pages': 'Seiten',
+  'Keep loading as you scroll': 'Beim Scrollen weiter laden',
+  'Infinite scroll': 'Endlos scrollen',
+  'Story layout': 'Story-Layout',
+  'Stories as cards': 'Storys als Karten',
+  'Cards': 'Karten',
+  'One line per story': 'Eine Zeile pro Story',
+  'Classic': 'Klassisch',
+  'Hide muted stories again': 'Stummgeschaltete Storys wieder ausblenden',
+  'Peek at muted stories': 'Stummgeschaltete Storys kurz anzeigen',
+  '{count} hidden': '{count} ausgeblendet',
+  'Hide read stories': 'Gelesene Storys ausblenden',
+  'Check the newest stories every minute while the first page is shown': 'Jede Minute nach neuen Storys suchen, solange die erste Seite angezeigt wird',
+  'Live updates': 'Live-Aktualisierung',
+  '{count} new story — click to show': '{count} neue Story – zum Anzeigen klicken',
+  '{count} new stories — click to show': '{count} neue Storys – zum Anzeigen klicken',
+  'Showing stories from page {page} onward.': 'Storys ab Seite {page} werden angezeigt.',
+  'Back to first page': 'Zurück zur ersten Seite',
+
+  // Loading and errors
+  'Loading stories...': 'Storys werden geladen …',
+  'Reference: {reference}': 'Referenz: {reference}',
+  'Clear search': 'Suche zurücksetzen',
+  'Reload page': 'Seite neu laden',
+  'Try Again': 'Erneut versuchen',
+  'Failed to load more stories.': 'Weitere Storys konnten nicht geladen werden.',
+  'Retry': 'Erneut versuchen',
+
+  // Stories
+  'Stories': 'Storys',
+  'New': 'Neu',
+  'Muted: author {rule}': 'Stummgeschaltet: Autor {rule}',
+  'Muted: domain {rule}': 'Stummgeschaltet: Domain {rule}',
+  'Muted: title {rule}': 'Stummgeschaltet: Titel {rule}',
+  '{count} point': '{count} Punkt',
+  '{count} points': '{count} Punkte',
+  '{count} point by {author}': '{count} Punkt von {author}',
+  '{count} points by {author}': '{count} Punkte von {author}',
+  '{count} comment': '{count} Kommentar',
+  '{count} comments': '{count} Kommentare',
+  'More comments than points within a day': 'Mehr Kommentare als Punkte innerhalb eines Tages',
+  'Hot discussion': 'Hitzige Diskussion',
+  'Bookmark {title}': '{title} merken',
+  'Remove from reading list': 'Von der Leseliste entfernen',
+  'Add to reading list': 'Zur Leseliste hinzufügen',
+  'Mute': 'Stummschalten',
+  'Mute options for {title}': 'Stummschalt-Optionen für {title}',
+  'Mute {name}': '{name} stummschalten',
+  'Every story here is muted or already read.': 'Alle Storys hier sind stummgeschaltet oder bereits gelesen.',
+  'Show read stories': 'Gelesene Storys anzeigen',
+  'Peek at muted': 'Stummgeschaltete anzeigen',
+  'You\'ve reached the end.': 'Sie haben das Ende erreicht.',
+  'No stories found.': 'Keine Storys gefunden.',
+  'Try adjusting your search terms or check back later.': 'Passen Sie Ihre Suchbegriffe an oder schauen Sie später wieder vorbei.',
+
+  // Pagination and announcements
+  'Pagination': 'Seitennavigation',
+  'Previous page': 'Vorherige Seite',
+  'Next page': 'Nächste Seite',
+  'Page {page}': 'Seite {page}',
+  'There are no more stories.': 'Es gibt keine weiteren Storys.',
+  'Loaded page {page}, {count} story': 'Seite {page} geladen, {count} Story',
+  'Loaded page {page}, {count} stories': 'Seite {page} geladen, {count} Storys',
+  'Loaded {count} more story': '{count} weitere Story geladen',
+  'Loaded {count} more stories': '{count} weitere Storys geladen',
+
+  // Command palette
+  'Sort by {sort}': 'Sortieren nach {sort}',
+  'Sort': 'Sortierung',
+  'Hide filters': 'Filter ausblenden',
+  'Show filters': 'Filter einblenden',
+  'Clear all filters': 'Alle Filter zurücksetzen',
+  'View': 'Ansicht',
+  'Stop live updates': 'Live-Aktualisierung beenden',
+  'Start live updates': 'Live-Aktualisierung starten',
+  'Switch to infinite scroll': 'Zu endlosem Scrollen wechseln',
+  'Switch to pages': 'Zu Seiten wechseln',
+  'Switch to classic list': 'Zur klassischen Liste wechseln',
+  'Switch to cards': 'Zu Karten wechseln',
+  'Display': 'Darstellung',
+  'Use light theme': 'Helles Design verwenden',
+  'Use dark theme': 'Dunkles Design verwenden',
+  'Use system theme': 'Systemdesign verwenden',
+  'Use comfortable density': 'Komfortable Dichte verwenden',
+  'Use compact density': 'Kompakte Dichte verwenden',
+  'Saved search': 'Gespeicherte Suche',
+  'Go to': 'Gehe zu',
+  'Muted': 'Stummgeschaltet',
+  'Help': 'Hilfe',
+
+  // Load errors
+  'Failed to load stories. Please try again.': 'Die Storys konnten nicht geladen werden. Bitte versuchen Sie es erneut.',
+  'Couldn\'t reach the server to load stories. Check your connection and try again.': 'Der Server war zum Laden der Storys nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'The server took too long to send stories. It may be busy, so try again in a moment.': 'Der Server hat zu lange gebraucht, um die Storys zu senden. Er ist vielleicht ausgelastet, versuchen Sie es gleich noch einmal.',
+  'The stories could not be found.': 'Die Storys wurden nicht gefunden.',
+  'The server rejected the request for stories.': 'Der Server hat die Anfrage nach Storys abgelehnt.',
+  'The server rejected the request for stories: {detail}': 'Der Server hat die Anfrage nach Storys abgelehnt: {detail}',
+  'The server ran into a problem loading stories (error {status}). Try again in a moment.': 'Beim Laden der Storys ist auf dem Server ein Problem aufgetreten (Fehler {status}). Versuchen Sie es gleich noch einmal.',
+  'The server sent stories in a form the app can\'t read. Reloading the page usually fixes this.': 'Der Server hat die Storys in einer Form gesendet, die die App nicht lesen kann. Neu laden behebt das meistens.',
+  'Failed to load story. Please try again.': 'Die Story konnte nicht geladen werden. Bitte versuchen Sie es erneut.',
+  'Couldn\'t reach the server to load the story. Check your connection and try again.': 'Der Server war zum Laden der Story nicht erreichbar. Prüfen Sie Ihre Verbindung und versuchen Sie es erneut.',
+  'The server took too long to send the story. It may be busy, so try again in a moment.': 'Der Server hat zu lange gebraucht, um die Story zu senden. Er ist vielleicht ausgelastet, versuchen Sie es gleich noch einmal.',
+  'The story could not be found.': 'Die Story wurde nicht gefunden.',
+  'The server rejected the request for the story.': 'Der Server hat die Anfrage nach der Story abgelehnt.',
+  'The server rejected the request for the story: {detail}': 'Der Server hat die Anfrage nach der Story abgelehnt: {detail}',
+  'The server ran into a problem loading the story (error {status}). Try again in a moment.': 'Beim Laden der Story ist auf dem Server ein Problem aufgetreten (Fehler {status}). Versuchen Sie es gleich noch einmal.',
+  'The server sent the story in a form the app can\'t read. Reloading the page usually fixes this.': 'Der Server hat die Story in einer Form gesendet, die die App nicht lesen kann. Neu laden behebt das meistens.',
+  'Too many requests in a short time. Wait a moment and try again.': 'Zu viele Anfragen in kurzer Zeit. Warten Sie einen Moment und versuchen Sie es erneut.',
+  'This search needs {combinations} author and domain pairs, but at most {limit} can be searched at once. Remove some authors or domains and try again.': 'Diese Suche bräuchte {combinations} Paare aus Autor und Domain, es können aber höchstens {limit} auf einmal durchsucht werden. Entfernen Sie einige Autoren oder Domains und versuchen Sie es erneut.',
+  'Invalid story id.': 'Ungültige Story-ID.',
+  'Back to stories': 'Zurück zu den Storys',
+  'Failed to load stories by this author. Please try again.': 'Die Storys dieses Autors konnten nicht geladen werden. Bitte versuchen Sie es erneut.',
+  'Failed to load stories from this site. Please try again.': 'Die Storys dieser Website konnten nicht geladen werden. Bitte versuchen Sie es erneut.',
+  'Failed to load insights. Please try again.': 'Die Auswertung konnte nicht geladen werden. Bitte versuchen Sie es erneut.',
+
+  // Imports
+  'Could not import "{name}".': '„{name}“ konnte nicht importiert werden.',
+  'Could not import "{name}". {reason}': '„{name}“ konnte nicht importiert werden. {reason}',
+  'The file is not valid JSON.': 'Die Datei enthält kein gültiges JSON.',
+  'The file does not contain preferences.': 'Die Datei enthält keine Einstellungen.',
+  'The preferences have an invalid version.': 'Die Einstellungen haben eine ungültige Version.',
+  'The preferences were saved by a newer version of the app.': 'Die Einstellungen wurden von einer neueren Version der App gespeichert.',
+  'The file does not contain a bookmark list.': 'Die Datei enthält keine Lesezeichenliste.',
+  'Imported preferences from "{name}".': 'Einstellungen aus „{name}“ importiert.',
+  'Imported {count} bookmark.': '{count} Lesezeichen importiert.',
+  'Imported {count} bookmarks.': '{count} Lesezeichen importiert.',
+  'Imported {count} bookmark, skipped {skipped}.': '{count} Lesezeichen importiert, {skipped} übersprungen.',
+  'Imported {count} bookmarks, skipped {skipped}.': '{count} Lesezeichen importiert, {skipped} übersprungen.',
+
+  // Saved search notifications
+  '{name}: {count} new story': '{name}: {count} neue Story',
+  '{name}: {count} new stories': '{name}: {count} neue Storys',
+  'New matches for your saved search on HackerNews.': 'Neue Treffer für Ihre gespeicherte Suche auf HackerNews.',
+
+  // Admin
+  'No stories yet': 'Noch keine Storys',
+  'The API is not responding.': 'Die API antwortet nicht.',
+  'Failed to load database statistics.': 'Die Datenbankstatistik konnte nicht geladen werden.',
+  'The cleanup failed.': 'Die Bereinigung ist fehlgeschlagen.',
+  'The index rebuild failed.': 'Der Neuaufbau des Suchindex ist fehlgeschlagen.',
+  'The API could not be reached.': 'Die API war nicht erreichbar.',
+  'No response after {seconds} seconds.': 'Keine Antwort nach {seconds} Sekunden.',
+  'The response could not be read.': 'Die Antwort konnte nicht gelesen werden.',
+  'Admin key': 'Admin-Schlüssel',
+  'Database maintenance needs the admin key configured on the API.': 'Für die Datenbankwartung wird der in der API hinterlegte Admin-Schlüssel benötigt.',
+  'Sign in': 'Anmelden',
+  'That admin key was not accepted.': 'Dieser Admin-Schlüssel wurde nicht akzeptiert.',
+  'Admin access is turned off on this server.': 'Der Verwaltungszugang ist auf diesem Server ausgeschaltet.',
+  'The admin key could not be checked. Try again in a moment.': 'Der Admin-Schlüssel konnte nicht geprüft werden. Versuchen Sie es gleich noch einmal.',
+
+  // Story page
+  'Discussion': 'Diskussion',
+  'Loading story...': 'Story wird geladen …',
+  'View on HackerNews': 'Auf HackerNews ansehen',
+  'Saving...': 'Wird gespeichert …',
+  'Save for offline': 'Offline speichern',
+  'Showing the copy saved for offline reading.': 'Die offline gespeicherte Kopie wird angezeigt.',
+  'No comments yet.': 'Noch keine Kommentare.',
+  'Load more comments ({count})': 'Weitere Kommentare laden ({count})',
+  'Expand thread': 'Thread ausklappen',
+  'Collapse thread': 'Thread einklappen',
+  '({count} reply hidden)': '({count} Antwort ausgeblendet)',
+  '({count} replies hidden)': '({count} Antworten ausgeblendet)',
+  'Show {count} reply': '{count} Antwort anzeigen',
+  'Show {count} replies': '{count} Antworten anzeigen',
+  'Load {count} more reply': '{count} weitere Antwort laden',
+  'Load {count} more replies': '{count} weitere Antworten laden',
+
+  // Settings
+  'Export preferences': 'Einstellungen exportieren',
+  'Import preferences': 'Einstellungen importieren',
+  'Story list': 'Storyliste',
+  'Stories per page': 'Storys pro Seite',
+  'Default sort for searches': 'Standardsortierung für Suchen',
+  'Layout': 'Layout',
+  'Open story links': 'Story-Links öffnen',
+  'In a new tab': 'In einem neuen Tab',
+  'In this tab': 'In diesem Tab',
+  'Show times': 'Zeiten anzeigen',
+  'As "3h ago"': 'Als „vor 3 Std.“',
+  'As date and time': 'Als Datum und Uhrzeit',
+  'Appearance': 'Darstellung',
+  'Theme': 'Design',
+  'Light': 'Hell',
+  'Dark': 'Dunkel',
+  'System': 'System',
+  'Density': 'Dichte',
+  'Default filters': 'Standardfilter',
+  'Applied when the story list opens without a search of its own.': 'Gelten, wenn die Storyliste ohne eigene Suche geöffnet wird.',
+  'e.g. -7d': 'z. B. -7d',
+  'A date like 2025-01-31 or a relative one like -7d': 'Ein Datum wie 2025-01-31 oder ein relatives wie -7d',
+  'Use a date like 2025-01-31 or a relative date like -7d': 'Ein Datum wie 2025-01-31 oder ein relatives Datum wie -7d angeben',
+  'Until': 'Bis',
+  'e.g. today': 'z. B. today',
+  'Min score': 'Mindestpunktzahl',
+  'Max score': 'Höchstpunktzahl',
+  'e.g. github.com': 'z. B. github.com',
+  'Reset to defaults': 'Auf Standardwerte zurücksetzen',
+
+  // Reading list page
+  'Reading List': 'Leseliste',
+  'Export bookmarks': 'Lesezeichen exportieren',
+  'Import bookmarks': 'Lesezeichen importieren',
+  'Browser bookmarks (HTML)': 'Browser-Lesezeichen (HTML)',
+  'Filter by title, author or domain': 'Nach Titel, Autor oder Domain filtern',
+  'Remove': 'Entfernen',
+  'Your reading list is empty.': 'Ihre Leseliste ist leer.',
+  'Use the bookmark button on a story to keep it here.': 'Mit der Lesezeichen-Schaltfläche einer Story legen Sie sie hier ab.',
+  'No bookmarks match "{filter}".': 'Keine Lesezeichen passen zu „{filter}“.',
+
+  // Muted page
+  'Stories matching any of these rules are hidden from the feed and from search results.': 'Storys, auf die eine dieser Regeln zutrifft, werden im Feed und in Suchergebnissen ausgeblendet.',
+  'Username': 'Benutzername',
+  'e.g. pg': 'z. B. pg',
+  'Domain': 'Domain',
+  'Title keywords': 'Stichwörter im Titel',
+  'Keyword or /regex/': 'Stichwort oder /Regex/',
+  'e.g. crypto or /^Show HN/': 'z. B. crypto oder /^Show HN/',
+  'Unmute {name}': 'Stummschaltung von {name} aufheben',
+  'Nothing muted.': 'Nichts stummgeschaltet.',
+  'Enter a domain such as example.com.': 'Geben Sie eine Domain wie example.com ein.',
+  'Enter a value to mute.': 'Geben Sie einen Wert zum Stummschalten ein.',
+  'This is not a valid regular expression.': 'Das ist kein gültiger regulärer Ausdruck.',
+
+  // Saved for offline page
+  'Saved for Offline': 'Offline gespeichert',
+  'saved {time}': 'gespeichert {time}',
+  'No stories saved for offline reading.': 'Keine Storys zum Offline-Lesen gespeichert.',
+  'Open a story and choose "Save for offline" to keep it with its comments.': 'Öffnen Sie eine Story und wählen Sie „Offline speichern“, um sie mit ihren Kommentaren aufzubewahren.',
+
+  // Saved search bar
+  'Saved searches': 'Gespeicherte Suchen',
+  '{count} new since last run': '{count} neu seit der letzten Suche',
+  'Run this search': 'Diese Suche ausführen',
+  'Remove saved search {name}': 'Gespeicherte Suche {name} entfernen',
+  'Save search': 'Suche speichern',
+  'Name': 'Name',
+  'Save': 'Speichern',
+  'Cancel': 'Abbrechen',
+  'Check for new matches': 'Auf neue Treffer prüfen',
+  'Stop checking for new matches': 'Nicht mehr auf neue Treffer prüfen',
+  'Check for new matches in the background': 'Im Hintergrund auf neue Treffer prüfen',
+
+  // Saved search names
+  'by {names}': 'von {names}',
+  'on {names}': 'auf {names}',
+  'not by {names}': 'nicht von {names}',
+  'not on {names}': 'nicht auf {names}',
+  '{score}+ points': 'ab {score} Punkten',
+
+  // Keyboard shortcuts
+  'Close keyboard shortcuts': 'Tastenkürzel schließen',
+  'Ctrl': 'Strg',
+  'Select the next story': 'Nächste Story auswählen',
+  'Select the previous story': 'Vorherige Story auswählen',
+  'Open the selected story': 'Ausgewählte Story öffnen',
+  'Open the comments of the selected story': 'Kommentare der ausgewählten Story öffnen',
+  'Bookmark the selected story': 'Ausgewählte Story auf die Leseliste setzen',
+  'Focus the search field': 'Suchfeld fokussieren',
+  'Open the command palette': 'Befehlspalette öffnen',
+  'Show this help': 'Diese Hilfe anzeigen',
+  'Close this help or the command palette': 'Diese Hilfe oder die Befehlspalette schließen',
+
+  // Command palette, dialogs and shared inputs
+  'Command palette': 'Befehlspalette',
+  'Type a command...': 'Befehl eingeben …',
+  'No matching commands': 'Keine passenden Befehle',
+  'You\'re offline. Showing cached pages and stories saved for offline reading.': 'Sie sind offline. Angezeigt werden zwischengespeicherte Seiten und offline gespeicherte Storys.',
+  'Saved stories': 'Gespeicherte Storys',
+  'Remove {value}': '{value} entfernen',
+
+  // Admin page
+  'Refresh': 'Aktualisieren',
+  'Sign out': 'Abmelden',
+  'Healthy': 'Betriebsbereit',
+  'healthy': 'in Ordnung',
+  'warning': 'Warnung',
+  'critical': 'kritisch',
+  'Version {version}, checked {time}': 'Version {version}, geprüft {time}',
+  'Unreachable': 'Nicht erreichbar',
+  'Checking...': 'Wird geprüft …',
+  'Database': 'Datenbank',
+  'Database usage {percent}% of {size} MB': 'Datenbank zu {percent} % von {size} MB belegt',
+  'of {size} MB': 'von {size} MB',
+  'Size': 'Größe',
+  'Oldest story': 'Älteste Story',
+  'Newest story': 'Neueste Story',
+  'The database is close to its size limit. A cleanup is recommended.': 'Die Datenbank hat ihre Größengrenze fast erreicht. Eine Bereinigung wird empfohlen.',
+  'Maintenance': 'Wartung',
+  'Clean up database': 'Datenbank bereinigen',
+  'Rebuild search index': 'Suchindex neu aufbauen',
+  'Cleaning up the database...': 'Datenbank wird bereinigt …',
+  'Rebuilding the search index...': 'Suchindex wird neu aufgebaut …',
+  'Cleanup finished in {seconds}s': 'Bereinigung nach {seconds} s abgeschlossen',
+  'Index rebuild finished in {seconds}s': 'Neuaufbau des Index nach {seconds} s abgeschlossen',
+  'Before': 'Vorher',
+  'After': 'Nachher',
+  'Change': 'Änderung',
+  'Size (MB)': 'Größe (MB)',
+  'Clean up the database?': 'Datenbank bereinigen?',
+  'The oldest stories are deleted until the database is back under its size limit. This cannot be undone.': 'Die ältesten Storys werden gelöscht, bis die Datenbank wieder unter ihrer Größengrenze liegt. Das lässt sich nicht rückgängig machen.',
+  'Clean up': 'Bereinigen',
+  'Rebuild the search index?': 'Suchindex neu aufbauen?',
+  'Search results may be incomplete until the rebuild finishes. Large databases can take several minutes.': 'Bis der Neuaufbau abgeschlossen ist, können Suchergebnisse unvollständig sein. Bei großen Datenbanken kann das mehrere Minuten dauern.',
+  'Rebuild': 'Neu aufbauen',
+  'Removed {count} story, freeing {size} MB.': '{count} Story entfernt, {size} MB freigegeben.',
+  'Removed {count} stories, freeing {size} MB.': '{count} Storys entfernt, {size} MB freigegeben.',
+
+  // Author and site pages
+  'Profile on HackerNews': 'Profil auf HackerNews',
+  'No indexed stories by {author}.': 'Keine indizierten Storys von {author}.',
+  'stories': 'Storys',
+  'total points': 'Punkte insgesamt',
+  'points per story': 'Punkte pro Story',
+  'comments': 'Kommentare',
+  'Totals cover the {count} most recent stories.': 'Die Summen umfassen die {count} neuesten Storys.',
+  'When they post': 'Wann gepostet wird',
+  'Hour of day, your time': 'Stunde des Tages, Ihre Ortszeit',
+  'Most posted domains': 'Am häufigsten gepostete Domains',
+  'Open in search': 'In der Suche öffnen',
+  'Show more ({count})': 'Mehr anzeigen ({count})',
+  'Unfollow this site': 'Dieser Website nicht mehr folgen',
+  'Follow this site as a saved search': 'Dieser Website als gespeicherte Suche folgen',
+  'Unmute this site': 'Stummschaltung dieser Website aufheben',
+  'Hide stories from this site': 'Storys von dieser Website ausblenden',
+  'Include subdomains': 'Subdomains einbeziehen',
+  'Stories from {site} and its subdomains are hidden in the story list.': 'Storys von {site} und seinen Subdomains werden in der Story-Liste ausgeblendet.',
+  'No indexed stories from {site}.': 'Keine indizierten Storys von {site}.',
+  'Top authors': 'Top-Autoren',
+  'Sites': 'Websites',
+  '{site} and its subdomains': '{site} und seine Subdomains',
+
+  // Insights page
+  'Insights': 'Auswertung',
+  'Analysing {query}': 'Auswertung von {query}',
+  'Analysing all stories': 'Auswertung aller Storys',
+  'Stories to analyse': 'Auszuwertende Storys',
+  '{count} stories': '{count} Storys',
+  'Collecting stories...': 'Storys werden gesammelt …',
+  'No stories match this search.': 'Keine Storys passen zu dieser Suche.',
+  'Based on {count} story.': 'Basierend auf {count} Story.',
+  'Based on {count} stories.': 'Basierend auf {count} Storys.',
+  'Click any bar to see its stories.': 'Klicken Sie auf einen Balken, um seine Storys zu sehen.',
+  'Stories per day': 'Storys pro Tag',
+  'UTC days, newest on the right': 'Tage in UTC, die neuesten rechts',
+  'Score distribution': 'Verteilung der Punkte',
+  'Comments per point': 'Kommentare pro Punkt',
+  'By score range': 'Nach Punktebereich',
+  'Top domains': 'Top-Domains',
+  'No data.': 'Keine Daten.',
+  '{value} story': '{value} Story',
+  '{value} stories': '{value} Storys',
+  '{value} comment per point': '{value} Kommentar pro Punkt',
+  '{value} comments per point': '{value} Kommentare pro Punkt',
+
+  // Search syntax
+  'Nothing to exclude after "-"': 'Nach „-“ fehlt, was ausgeschlossen werden soll',
+  'Missing closing quote': 'Schließendes Anführungszeichen fehlt',
+  '"{operator}:" can\'t be excluded': '„{operator}:“ kann nicht ausgeschlossen werden',
+  '"{operator}:" needs a value': '„{operator}:“ braucht einen Wert',
+  '"{value}" is not a domain': '„{value}“ ist keine Domain',
+  'Use a date like 2025-01-31, an hour like 2025-01-31T14 or a relative date like -7d for "{operator}:"': 'Verwenden Sie für „{operator}:“ ein Datum wie 2025-01-31, eine Stunde wie 2025-01-31T14 oder ein relatives Datum wie -7d',
+  'Use "has:url" or "-has:url"': 'Verwenden Sie „has:url“ oder „-has:url“',
+  'Sort by one of {values}': 'Sortieren Sie nach einem von: {values}',
+  'The lower score must come first': 'Die niedrigere Punktzahl muss zuerst stehen',
+  'Use a score like 100, >100, <=50 or 10..100': 'Verwenden Sie eine Punktzahl wie 100, >100, <=50 oder 10..100'
+};
\ No newline at end of file
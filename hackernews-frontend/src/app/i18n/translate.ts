@@ -0,0 +1,46 @@
+/**
+ * Runtime translations. Messages are looked up by their English text, so
+ * English needs no catalog and a message missing from one shows in English.
+ */
+
+import { AppLocale } from '../models/preferences.model';
+import { MESSAGES_DE } from './messages.de';
+
+export type MessageParams = Record<string, string | number>;
+
+const CATALOGS: Record<AppLocale, Record<string, string>> = {
+  en: {},
+  de: MESSAGES_DE
+};
+
+const numberFormats = new Map<AppLocale, Intl.NumberFormat>();
+
+export function formatNumber(value: number, locale: AppLocale): string {
+  let format = numberFormats.get(locale);
+  if (!format) {
+    format = new Intl.NumberFormat(locale);
+    numberFormats.set(locale, format);
+  }
+  return format.format(value);
+}
+
+/** `text` in `locale`, with `{name}` placeholders filled from `params`; numbers are formatted for the locale. */
+export function translate(locale: AppLocale, text: string, params: MessageParams = {}): string {
+  return (CATALOGS[locale][text] ?? text).replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) {
+      return placeholder;
+    }
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+}
+
+/**
+ * `one` or `other` for `count`, translated, with `{count}` filled in. Both
+ * shipped locales only tell one from many; a locale with more plural forms
+ * would need them here.
+ */
+export function translatePlural(locale: AppLocale, count: number, one: string, other: string, params: MessageParams = {}): string {
+  const form = new Intl.PluralRules(locale).select(count) === 'one' ? one : other;
+  return translate(locale, form, { ...params, count });
+}
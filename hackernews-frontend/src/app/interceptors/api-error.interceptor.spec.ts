@@ -0,0 +1,77 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, HttpErrorResponse, HttpRequest, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TimeoutError } from 'rxjs';
+import { apiErrorInterceptor, toApiError } from './api-error.interceptor';
+import { CORRELATION_ID_HEADER } from './correlation-id.interceptor';
+import { DEFAULT_REQUEST_TIMEOUT_MS } from './timeout.interceptor';
+import { ApiError, isApiError } from '../models/api-error.model';
+
+describe('apiErrorInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const request = new HttpRequest('GET', '/api/stories');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([apiErrorInterceptor])), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  it('should turn a failed response into a typed error', () => {
+    let error: ApiError | undefined;
+    http.get('/api/search', { params: { q: 'rust' }, headers: { [CORRELATION_ID_HEADER]: 'abc' } })
+      .subscribe({ error: err => error = err });
+
+    httpMock.expectOne('/api/search?q=rust').flush(
+      { error: 'An error occurred while searching stories' },
+      { status: 500, statusText: 'Server Error' }
+    );
+
+    expect(isApiError(error)).toBe(true);
+    expect(error).toEqual(jasmine.objectContaining({
+      kind: 'server',
+      status: 500,
+      detail: 'An error occurred while searching stories',
+      url: '/api/search?q=rust',
+      correlationId: 'abc'
+    }));
+  });
+
+  it('should report a missing response as a network error', () => {
+    let error: ApiError | undefined;
+    http.get('/api/stories').subscribe({ error: err => error = err });
+
+    httpMock.expectOne('/api/stories').error(new ProgressEvent('error'));
+
+    expect(error?.kind).toBe('network');
+  });
+
+  it('should report 4xx responses as client errors', () => {
+    const error = toApiError(
+      new HttpErrorResponse({ status: 400, error: { message: 'Invalid date' }, url: '/api/search' }),
+      request
+    );
+
+    expect(error).toEqual(jasmine.objectContaining({ kind: 'client', status: 400, detail: 'Invalid date' }));
+  });
+
+  it('should report timeouts with the limit that was hit', () => {
+    expect(toApiError(new TimeoutError(), request)).toEqual(jasmine.objectContaining({
+      kind: 'timeout',
+      timeoutMs: DEFAULT_REQUEST_TIMEOUT_MS
+    }));
+  });
+
+  it('should report an unreadable success response as a parse error', () => {
+    const error = toApiError(
+      new HttpErrorResponse({ status: 200, error: { error: new SyntaxError('Unexpected token <'), text: '<html>' } }),
+      request
+    );
+
+    expect(error.kind).toBe('parse');
+  });
+});
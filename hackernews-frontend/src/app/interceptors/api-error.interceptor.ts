@@ -0,0 +1,49 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
+import { TimeoutError, catchError, throwError } from 'rxjs';
+import { ApiError } from '../models/api-error.model';
+import { CORRELATION_ID_HEADER } from './correlation-id.interceptor';
+import { REQUEST_TIMEOUT_MS } from './timeout.interceptor';
+
+/** Turns every failure into an `ApiError`, after retries have given up. */
+export const apiErrorInterceptor: HttpInterceptorFn = (req, next) =>
+  next(req).pipe(
+    catchError(err => throwError(() => toApiError(err, req)))
+  );
+
+export function toApiError(err: unknown, req: HttpRequest<unknown>): ApiError {
+  const base = { url: req.urlWithParams, ...correlationIdOf(req) };
+
+  if (err instanceof TimeoutError) {
+    const timeoutMs = req.context.get(REQUEST_TIMEOUT_MS);
+    return { ...base, kind: 'timeout', timeoutMs, message: `No response within ${timeoutMs} ms` };
+  }
+  if (!(err instanceof HttpErrorResponse)) {
+    return { ...base, kind: 'network', message: err instanceof Error ? err.message : String(err) };
+  }
+  if (err.status === 0) {
+    return { ...base, kind: 'network', message: err.message };
+  }
+  // HttpClient reports a body it can't parse as an error with the success status
+  if (err.status >= 200 && err.status < 300) {
+    return { ...base, kind: 'parse', message: err.message };
+  }
+
+  const detail = detailOf(err.error);
+  const kind = err.status >= 400 && err.status < 500 ? 'client' : 'server';
+  return { ...base, kind, status: err.status, message: err.message, ...(detail ? { detail } : {}) };
+}
+
+function correlationIdOf(req: HttpRequest<unknown>): { correlationId?: string } {
+  const correlationId = req.headers.get(CORRELATION_ID_HEADER);
+  return correlationId ? { correlationId } : {};
+}
+
+/** The API answers errors with `{ error }` or `{ message }`. */
+function detailOf(body: unknown): string | undefined {
+  if (typeof body !== 'object' || body === null) {
+    return undefined;
+  }
+  const { message, error } = body as { message?: unknown; error?: unknown };
+  const detail = message ?? error;
+  return typeof detail === 'string' && detail ? detail : undefined;
+}
@@ -0,0 +1,50 @@
+import { TestBed } from '@angular/core/testing';
+import { HttpClient, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { CORRELATION_ID_HEADER, correlationIdInterceptor } from './correlation-id.interceptor';
+import { environment } from '../../environments/environment';
+
+describe('correlationIdInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([correlationIdInterceptor])), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should give each API request its own id', () => {
+    http.get(`${environment.apiUrl}/stories`).subscribe();
+    http.get(`${environment.apiUrl}/stories`).subscribe();
+
+    const [first, second] = httpMock.match(`${environment.apiUrl}/stories`);
+    const firstId = first.request.headers.get(CORRELATION_ID_HEADER);
+    expect(firstId).toBeTruthy();
+    expect(second.request.headers.get(CORRELATION_ID_HEADER)).not.toBe(firstId);
+    first.flush({});
+    second.flush({});
+  });
+
+  it('should keep an id that is already set', () => {
+    http.get(`${environment.apiUrl}/stories`, { headers: { [CORRELATION_ID_HEADER]: 'abc' } }).subscribe();
+
+    const req = httpMock.expectOne(`${environment.apiUrl}/stories`);
+    expect(req.request.headers.get(CORRELATION_ID_HEADER)).toBe('abc');
+    req.flush({});
+  });
+
+  it('should leave third-party requests alone', () => {
+    http.get(`${environment.hackerNewsItemApiUrl}/item/1.json`).subscribe();
+
+    const req = httpMock.expectOne(`${environment.hackerNewsItemApiUrl}/item/1.json`);
+    expect(req.request.headers.has(CORRELATION_ID_HEADER)).toBe(false);
+    req.flush({});
+  });
+});
@@ -0,0 +1,23 @@
+import { HttpInterceptorFn } from '@angular/common/http';
+import { environment } from '../../environments/environment';
+
+export const CORRELATION_ID_HEADER = 'X-Correlation-ID';
+
+/**
+ * Tags every request to our API with an id that retries reuse, so one user
+ * action can be followed through the API logs. Third-party APIs are left
+ * alone, since an extra header would make them preflight the request.
+ */
+export const correlationIdInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith(environment.apiUrl) || req.headers.has(CORRELATION_ID_HEADER)) {
+    return next(req);
+  }
+  return next(req.clone({ setHeaders: { [CORRELATION_ID_HEADER]: createCorrelationId() } }));
+};
+
+export function createCorrelationId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
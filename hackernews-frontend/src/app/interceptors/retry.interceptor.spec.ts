@@ -0,0 +1,79 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { MAX_RETRIES, RETRY_BASE_DELAY_MS, retryInterceptor } from './retry.interceptor';
+
+describe('retryInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  const serverError = { status: 503, statusText: 'Service Unavailable' };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([retryInterceptor])), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should retry a failed GET with exponential backoff', fakeAsync(() => {
+    let result: unknown;
+    http.get('/api/stories').subscribe(response => result = response);
+
+    httpMock.expectOne('/api/stories').flush(null, serverError);
+    tick(RETRY_BASE_DELAY_MS - 1);
+    httpMock.expectNone('/api/stories');
+    tick(1);
+    httpMock.expectOne('/api/stories').error(new ProgressEvent('error'));
+
+    tick(2 * RETRY_BASE_DELAY_MS);
+    httpMock.expectOne('/api/stories').flush({ items: [] });
+
+    expect(result).toEqual({ items: [] });
+  }));
+
+  it('should give up after the last retry', fakeAsync(() => {
+    let status: number | undefined;
+    http.get('/api/stories').subscribe({ error: err => status = err.status });
+
+    httpMock.expectOne('/api/stories').flush(null, serverError);
+    tick(RETRY_BASE_DELAY_MS);
+    httpMock.expectOne('/api/stories').flush(null, serverError);
+    tick(2 * RETRY_BASE_DELAY_MS);
+    httpMock.expectOne('/api/stories').flush(null, serverError);
+
+    expect(status).toBe(503);
+  }));
+
+  it('should not retry errors a second attempt cannot fix', () => {
+    let status: number | undefined;
+    http.get('/api/stories/1').subscribe({ error: err => status = err.status });
+
+    httpMock.expectOne('/api/stories/1').flush(null, { status: 404, statusText: 'Not Found' });
+
+    expect(status).toBe(404);
+  });
+
+  it('should never retry a POST', () => {
+    let failed = false;
+    http.post('/api/health/database/cleanup', {}).subscribe({ error: () => failed = true });
+
+    httpMock.expectOne('/api/health/database/cleanup').flush(null, serverError);
+
+    expect(failed).toBe(true);
+  });
+
+  it('should let a request turn retries off', () => {
+    let failed = false;
+    http.get('/api/health', { context: new HttpContext().set(MAX_RETRIES, 0) }).subscribe({ error: () => failed = true });
+
+    httpMock.expectOne('/api/health').flush(null, serverError);
+
+    expect(failed).toBe(true);
+  });
+});
@@ -0,0 +1,39 @@
+import { HttpContextToken, HttpErrorResponse, HttpInterceptorFn } from '@angular/common/http';
+import { TimeoutError, retry, throwError, timer } from 'rxjs';
+
+export const DEFAULT_MAX_RETRIES = 2;
+
+/** Delay before the first retry; it doubles for each one after that. */
+export const RETRY_BASE_DELAY_MS = 500;
+
+export const MAX_RETRIES = new HttpContextToken<number>(() => DEFAULT_MAX_RETRIES);
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Retries idempotent requests that failed for a reason a second attempt can
+ * fix: no response, a timeout, a 5xx or 429. Other methods are never retried,
+ * since the first attempt may have taken effect.
+ */
+export const retryInterceptor: HttpInterceptorFn = (req, next) => {
+  const maxRetries = req.context.get(MAX_RETRIES);
+  if (!IDEMPOTENT_METHODS.includes(req.method) || maxRetries <= 0) {
+    return next(req);
+  }
+
+  return next(req).pipe(
+    retry({
+      count: maxRetries,
+      delay: (err, retryCount) => isRetryable(err)
+        ? timer(RETRY_BASE_DELAY_MS * 2 ** (retryCount - 1))
+        : throwError(() => err)
+    })
+  );
+};
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof TimeoutError) {
+    return true;
+  }
+  return err instanceof HttpErrorResponse && (err.status === 0 || err.status === 429 || err.status >= 500);
+}
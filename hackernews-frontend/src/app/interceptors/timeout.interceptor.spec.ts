@@ -0,0 +1,43 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { HttpClient, HttpContext, provideHttpClient, withInterceptors } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { TimeoutError } from 'rxjs';
+import { DEFAULT_REQUEST_TIMEOUT_MS, REQUEST_TIMEOUT_MS, timeoutInterceptor } from './timeout.interceptor';
+
+describe('timeoutInterceptor', () => {
+  let http: HttpClient;
+  let httpMock: HttpTestingController;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(withInterceptors([timeoutInterceptor])), provideHttpClientTesting()]
+    });
+    http = TestBed.inject(HttpClient);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  it('should fail a request that gets no response in time', fakeAsync(() => {
+    let error: unknown;
+    http.get('/api/stories').subscribe({ error: err => error = err });
+    const req = httpMock.expectOne('/api/stories');
+
+    tick(DEFAULT_REQUEST_TIMEOUT_MS - 1);
+    expect(error).toBeUndefined();
+
+    tick(1);
+    expect(error).toEqual(jasmine.any(TimeoutError));
+    expect(req.cancelled).toBe(true);
+  }));
+
+  it('should use the timeout set on the request', fakeAsync(() => {
+    let done = false;
+    http.post('/api/search/rebuild-index', {}, { context: new HttpContext().set(REQUEST_TIMEOUT_MS, 60000) })
+      .subscribe({ next: () => done = true });
+    const req = httpMock.expectOne('/api/search/rebuild-index');
+
+    tick(DEFAULT_REQUEST_TIMEOUT_MS + 1);
+    req.flush({});
+
+    expect(done).toBe(true);
+  }));
+});
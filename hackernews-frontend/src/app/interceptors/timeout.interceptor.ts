@@ -0,0 +1,11 @@
+import { HttpContextToken, HttpInterceptorFn } from '@angular/common/http';
+import { timeout } from 'rxjs';
+
+export const DEFAULT_REQUEST_TIMEOUT_MS = 15 * 1000;
+
+/** Per-request timeout, e.g. `new HttpContext().set(REQUEST_TIMEOUT_MS, 120000)` for slow maintenance calls. */
+export const REQUEST_TIMEOUT_MS = new HttpContextToken<number>(() => DEFAULT_REQUEST_TIMEOUT_MS);
+
+/** Fails a request with rxjs' `TimeoutError` when no response arrives in time. Each retry gets its own timeout. */
+export const timeoutInterceptor: HttpInterceptorFn = (req, next) =>
+  next(req).pipe(timeout({ first: req.context.get(REQUEST_TIMEOUT_MS) }));
@@ -0,0 +1,51 @@
+/** `GET /api/health` */
+export interface ApiHealth {
+  status: string;
+  timestamp: string;
+  version: string;
+}
+
+export type DatabaseStatus = 'healthy' | 'warning' | 'critical';
+
+export interface DatabaseStats {
+  sizeMB: number;
+  usagePercentage: number;
+  maxSizeMB: number;
+  storyCount: number;
+  /** UTC, formatted `yyyy-MM-dd HH:mm`; null while the database is empty. */
+  oldestStory: string | null;
+  newestStory: string | null;
+  needsCleanup: boolean;
+}
+
+/** `GET /api/health/database` */
+export interface DatabaseHealth {
+  status: DatabaseStatus;
+  database: DatabaseStats;
+  timestamp: string;
+}
+
+export interface DatabaseSnapshot {
+  sizeMB: number;
+  storyCount: number;
+}
+
+/** `POST /api/health/database/cleanup` */
+export interface CleanupResponse {
+  status: string;
+  before: DatabaseSnapshot;
+  after: DatabaseSnapshot;
+  saved: { sizeMB: number; stories: number };
+  timestamp: string;
+}
+
+export type MaintenanceAction = 'cleanup' | 'rebuild-index';
+
+/** Outcome of a maintenance action, with the database measured before and after it ran. */
+export interface MaintenanceResult {
+  action: MaintenanceAction;
+  message: string;
+  before: DatabaseSnapshot;
+  after: DatabaseSnapshot;
+  durationMs: number;
+}
@@ -0,0 +1,50 @@
+export type ApiErrorKind = 'network' | 'timeout' | 'client' | 'server' | 'parse';
+
+interface ApiErrorBase {
+  kind: ApiErrorKind;
+  /** Technical description for logs; the UI words its own messages. */
+  message: string;
+  url: string;
+  /** Sent as `X-Correlation-ID`, so a failure can be found in the API logs. Only set for our own API. */
+  correlationId?: string;
+}
+
+/** No response at all: offline, DNS, CORS or the API being down. */
+export interface NetworkApiError extends ApiErrorBase {
+  kind: 'network';
+}
+
+export interface TimeoutApiError extends ApiErrorBase {
+  kind: 'timeout';
+  timeoutMs: number;
+}
+
+/** A 4xx response; `detail` is the reason the API gave, if any. */
+export interface ClientApiError extends ApiErrorBase {
+  kind: 'client';
+  status: number;
+  detail?: string;
+}
+
+/** A 5xx response, or any other status that isn't a success or a 4xx. */
+export interface ServerApiError extends ApiErrorBase {
+  kind: 'server';
+  status: number;
+  detail?: string;
+}
+
+/** A successful status whose body wasn't valid JSON. */
+export interface ParseApiError extends ApiErrorBase {
+  kind: 'parse';
+}
+
+/** What every failed HTTP request is turned into by `apiErrorInterceptor`. */
+export type ApiError = NetworkApiError | TimeoutApiError | ClientApiError | ServerApiError | ParseApiError;
+
+const API_ERROR_KINDS: ApiErrorKind[] = ['network', 'timeout', 'client', 'server', 'parse'];
+
+export function isApiError(err: unknown): err is ApiError {
+  return typeof err === 'object' && err !== null
+    && API_ERROR_KINDS.includes((err as ApiError).kind)
+    && typeof (err as ApiError).message === 'string';
+}
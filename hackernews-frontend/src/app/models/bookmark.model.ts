@@ -0,0 +1,12 @@
+import { Story } from './story.model';
+
+/** A story snapshot kept in the reading list. */
+export interface Bookmark {
+  story: Story;
+  bookmarkedAt: number;
+}
+
+export interface BookmarkImportResult {
+  imported: number;
+  skipped: number;
+}
@@ -0,0 +1,21 @@
+/**
+ * A comment item as returned by the HackerNews item API.
+ * Deleted and dead comments may omit `by` and `text`.
+ */
+export interface StoryComment {
+  id: number;
+  by?: string;
+  text?: string;
+  time: number;
+  parent: number;
+  type: string;
+  kids?: number[];
+  deleted?: boolean;
+  dead?: boolean;
+}
+
+/** A comment with its complete reply tree, as kept for offline reading. */
+export interface StoryCommentNode {
+  comment: StoryComment;
+  replies: StoryCommentNode[];
+}
@@ -0,0 +1,20 @@
+import { SearchFilters } from './story.model';
+
+/** One bar of an insights chart. `filters` narrow a search down to the stories it counts. */
+export interface ChartDatum {
+  label: string;
+  value: number;
+  /** Shown instead of `value` when the raw number needs context, e.g. a ratio. */
+  valueLabel?: string;
+  filters: SearchFilters;
+}
+
+export interface StoryInsights {
+  storyCount: number;
+  scoreDistribution: ChartDatum[];
+  storiesPerDay: ChartDatum[];
+  topDomains: ChartDatum[];
+  topAuthors: ChartDatum[];
+  /** Comments per point, grouped by the score buckets of `scoreDistribution`. */
+  commentRatio: ChartDatum[];
+}
@@ -0,0 +1,15 @@
+/** Stories hidden from the feed, by who posted them, where they link and what they are called. */
+export interface MuteRules {
+  authors: string[];
+  domains: string[];
+  /** Case-insensitive keywords, or regular expressions written as `/pattern/flags`. */
+  titlePatterns: string[];
+}
+
+export type MuteRuleKind = keyof MuteRules;
+
+/** The rule hiding a story, as it was written. */
+export interface MuteReason {
+  kind: MuteRuleKind;
+  rule: string;
+}
@@ -0,0 +1,32 @@
+import { SearchFilters, SearchSortOrder } from './story.model';
+
+/** `system` follows the operating system's light or dark preference. */
+export type ThemeSetting = 'light' | 'dark' | 'system';
+export type DensitySetting = 'comfortable' | 'compact';
+/** `cards` is the card grid; `classic` is one line per story, like the HN front page. */
+export type StoryLayout = 'cards' | 'classic';
+/** Where links to story articles open. */
+export type LinkTarget = 'new-tab' | 'same-tab';
+/** `relative` reads "3h ago"; `absolute` reads "Mar 3, 2025, 2:30 PM". */
+export type TimeDisplay = 'relative' | 'absolute';
+/** Language of the interface, also used to format numbers, dates and times. */
+export type AppLocale = 'en' | 'de';
+
+export interface Preferences {
+  pageSize: number;
+  /** Sort used by searches that don't pick one. */
+  defaultSort: SearchSortOrder;
+  /** Filters the story list starts with when its link carries no search. */
+  defaultFilters: SearchFilters;
+  linkTarget: LinkTarget;
+  timeDisplay: TimeDisplay;
+  theme: ThemeSetting;
+  density: DensitySetting;
+  layout: StoryLayout;
+  locale: AppLocale;
+}
+
+/** Preferences as stored and exported, tagged with the schema version they were written in. */
+export interface PreferencesDocument extends Preferences {
+  version: number;
+}
@@ -0,0 +1,13 @@
+import { SearchQuery } from './story.model';
+
+/** A named search that can be re-run in one click. */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: SearchQuery;
+  createdAt: number;
+  /** When the search was last opened, in milliseconds. */
+  lastRunAt: number;
+  /** Matches submitted after `lastRunAt`, as of the last check. */
+  newMatchCount: number;
+}
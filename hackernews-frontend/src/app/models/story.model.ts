@@ -20,7 +20,13 @@ export interface PagedResult<T> {
   pageSize: number;
 }
 
-export interface PagedStoryResult extends PagedResult<Story> {}
+export interface PagedStoryResult extends PagedResult<Story> {
+  /**
+   * Set when the items were merged or filtered on the client, so their count
+   * no longer tells whether another page exists.
+   */
+  hasNextPage?: boolean;
+}
 
 export enum SearchSortOrder {
   Relevance = 'Relevance',
@@ -35,8 +41,12 @@ export interface SearchFilters {
   toDate?: string;
   minScore?: number;
   maxScore?: number;
-  author?: string;
-  domain?: string;
+  /** Stories by any of these authors. */
+  authors?: string[];
+  excludedAuthors?: string[];
+  /** Stories from any of these domains, matched exactly. */
+  domains?: string[];
+  excludedDomains?: string[];
   hasUrl?: boolean;
 }
 
@@ -46,4 +56,16 @@ export interface SearchQuery {
   pageSize?: number;
   sortBy?: SearchSortOrder;
   filters?: SearchFilters;
-}
\ No newline at end of file
+}
+
+/** A search naming more author and domain pairs than one search may run; nothing was requested. */
+export interface SearchTooBroadError {
+  kind: 'tooBroad';
+  message: string;
+  combinations: number;
+  limit: number;
+}
+
+export function isSearchTooBroadError(err: unknown): err is SearchTooBroadError {
+  return typeof err === 'object' && err !== null && (err as SearchTooBroadError).kind === 'tooBroad';
+}
@@ -0,0 +1,62 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { ADMIN_KEY_HEADER, AdminAccessService } from './admin-access.service';
+import { environment } from '../../environments/environment';
+
+describe('AdminAccessService', () => {
+  let service: AdminAccessService;
+  let httpMock: HttpTestingController;
+  const checkUrl = `${environment.apiUrl}/health/admin`;
+
+  beforeEach(() => {
+    sessionStorage.removeItem('hn.adminKey');
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()]
+    });
+    service = TestBed.inject(AdminAccessService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+    sessionStorage.removeItem('hn.adminKey');
+  });
+
+  it('should start signed out', () => {
+    expect(service.signedIn()).toBe(false);
+    expect(service.headers()).toEqual({});
+  });
+
+  it('should keep a key the API accepts for the rest of the session', () => {
+    service.signIn('secret').subscribe();
+
+    const req = httpMock.expectOne(checkUrl);
+    expect(req.request.headers.get(ADMIN_KEY_HEADER)).toBe('secret');
+    req.flush({ status: 'authorized' });
+
+    expect(service.signedIn()).toBe(true);
+    expect(service.headers()).toEqual({ [ADMIN_KEY_HEADER]: 'secret' });
+    expect(sessionStorage.getItem('hn.adminKey')).toBe('secret');
+  });
+
+  it('should not keep a key the API rejects', () => {
+    let failed = false;
+    service.signIn('wrong').subscribe({ error: () => failed = true });
+
+    httpMock.expectOne(checkUrl).flush(null, { status: 401, statusText: 'Unauthorized' });
+
+    expect(failed).toBe(true);
+    expect(service.signedIn()).toBe(false);
+  });
+
+  it('should forget the key on sign out', () => {
+    service.signIn('secret').subscribe();
+    httpMock.expectOne(checkUrl).flush({ status: 'authorized' });
+
+    service.signOut();
+
+    expect(service.signedIn()).toBe(false);
+    expect(sessionStorage.getItem('hn.adminKey')).toBeNull();
+  });
+});
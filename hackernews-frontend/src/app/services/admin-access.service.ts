@@ -0,0 +1,64 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { environment } from '../../environments/environment';
+
+/** Header the API reads the admin key from. */
+export const ADMIN_KEY_HEADER = 'X-Admin-Key';
+
+const STORAGE_KEY = 'hn.adminKey';
+
+/**
+ * The admin key the maintenance endpoints require. It is kept in session
+ * storage, so it lasts until the tab is closed.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminAccessService {
+  private readonly http = inject(HttpClient);
+  private readonly baseUrl = environment.apiUrl;
+  private readonly key = signal<string | null>(this.readKey());
+
+  readonly signedIn = computed(() => this.key() !== null);
+
+  /** Headers that carry the key; empty while signed out. */
+  headers(): Record<string, string> {
+    const key = this.key();
+    return key === null ? {} : { [ADMIN_KEY_HEADER]: key };
+  }
+
+  /** Asks the API whether `key` is the admin key, and keeps it if so. */
+  signIn(key: string): Observable<void> {
+    return this.http.get(`${this.baseUrl}/health/admin`, { headers: { [ADMIN_KEY_HEADER]: key } }).pipe(
+      map(() => this.storeKey(key))
+    );
+  }
+
+  signOut(): void {
+    this.storeKey(null);
+  }
+
+  private readKey(): string | null {
+    try {
+      return sessionStorage.getItem(STORAGE_KEY);
+    } catch (err) {
+      console.error('Error reading the admin key from session storage:', err);
+      return null;
+    }
+  }
+
+  private storeKey(key: string | null): void {
+    this.key.set(key);
+    try {
+      if (key === null) {
+        sessionStorage.removeItem(STORAGE_KEY);
+      } else {
+        sessionStorage.setItem(STORAGE_KEY, key);
+      }
+    } catch (err) {
+      console.error('Error writing the admin key to session storage:', err);
+    }
+  }
+}
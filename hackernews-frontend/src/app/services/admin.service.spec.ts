@@ -0,0 +1,118 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { AdminService, MAINTENANCE_TIMEOUT_MS } from './admin.service';
+import { ADMIN_KEY_HEADER, AdminAccessService } from './admin-access.service';
+import { REQUEST_TIMEOUT_MS } from '../interceptors/timeout.interceptor';
+import { DatabaseHealth, MaintenanceResult } from '../models/admin.model';
+import { environment } from '../../environments/environment';
+
+describe('AdminService', () => {
+  let service: AdminService;
+  let httpMock: HttpTestingController;
+  const baseUrl = environment.apiUrl;
+
+  const databaseHealth = (sizeMB: number, storyCount: number): DatabaseHealth => ({
+    status: 'healthy',
+    database: {
+      sizeMB,
+      usagePercentage: 12.5,
+      maxSizeMB: 800,
+      storyCount,
+      oldestStory: '2024-01-01 08:00',
+      newestStory: '2025-03-01 12:30',
+      needsCleanup: false
+    },
+    timestamp: '2025-03-01T12:31:00Z'
+  });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        provideHttpClient(),
+        provideHttpClientTesting(),
+        { provide: AdminAccessService, useValue: { headers: () => ({ [ADMIN_KEY_HEADER]: 'secret' }) } }
+      ]
+    });
+    service = TestBed.inject(AdminService);
+    httpMock = TestBed.inject(HttpTestingController);
+  });
+
+  afterEach(() => {
+    httpMock.verify();
+  });
+
+  it('should fetch API health', () => {
+    let status: string | undefined;
+    service.getHealth().subscribe(health => status = health.status);
+
+    httpMock.expectOne(`${baseUrl}/health`).flush({ status: 'Healthy', timestamp: '2025-03-01T12:00:00Z', version: '1.0.0' });
+
+    expect(status).toBe('Healthy');
+  });
+
+  it('should fetch database health', () => {
+    let health: DatabaseHealth | undefined;
+    service.getDatabaseHealth().subscribe(response => health = response);
+
+    httpMock.expectOne(`${baseUrl}/health/database`).flush(databaseHealth(100, 5000));
+
+    expect(health?.database.maxSizeMB).toBe(800);
+  });
+
+  it('should summarize a cleanup from the API response', () => {
+    let result: MaintenanceResult | undefined;
+    service.cleanupDatabase().subscribe(response => result = response);
+
+    const req = httpMock.expectOne(`${baseUrl}/health/database/cleanup`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.context.get(REQUEST_TIMEOUT_MS)).toBe(MAINTENANCE_TIMEOUT_MS);
+    expect(req.request.headers.get(ADMIN_KEY_HEADER)).toBe('secret');
+    req.flush({
+      status: 'completed',
+      before: { sizeMB: 700, storyCount: 90000 },
+      after: { sizeMB: 500, storyCount: 60000 },
+      saved: { sizeMB: 200, stories: 30000 },
+      timestamp: '2025-03-01T12:00:00Z'
+    });
+
+    expect(result).toEqual(jasmine.objectContaining({
+      action: 'cleanup',
+      message: 'Removed 30,000 stories, freeing 200 MB.',
+      before: { sizeMB: 700, storyCount: 90000 },
+      after: { sizeMB: 500, storyCount: 60000 }
+    }));
+  });
+
+  it('should measure the database around an index rebuild', () => {
+    let result: MaintenanceResult | undefined;
+    service.rebuildSearchIndex().subscribe(response => result = response);
+
+    httpMock.expectOne(`${baseUrl}/health/database`).flush(databaseHealth(120, 5000));
+    const req = httpMock.expectOne(`${baseUrl}/search/rebuild-index`);
+    expect(req.request.method).toBe('POST');
+    expect(req.request.headers.get(ADMIN_KEY_HEADER)).toBe('secret');
+    req.flush({ message: 'Search index has been rebuilt successfully' });
+    httpMock.expectOne(`${baseUrl}/health/database`).flush(databaseHealth(95.5, 5000));
+
+    expect(result).toEqual(jasmine.objectContaining({
+      action: 'rebuild-index',
+      message: 'Search index has been rebuilt successfully',
+      before: { sizeMB: 120, storyCount: 5000 },
+      after: { sizeMB: 95.5, storyCount: 5000 }
+    }));
+  });
+
+  it('should not rebuild when the database cannot be measured', () => {
+    let failed = false;
+    service.rebuildSearchIndex().subscribe({ error: () => failed = true });
+
+    httpMock.expectOne(`${baseUrl}/health/database`).flush(
+      { status: 'error', message: 'Database unavailable' },
+      { status: 500, statusText: 'Server Error' }
+    );
+
+    httpMock.expectNone(`${baseUrl}/search/rebuild-index`);
+    expect(failed).toBe(true);
+  });
+});
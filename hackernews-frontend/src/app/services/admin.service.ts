@@ -0,0 +1,92 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpClient, HttpContext } from '@angular/common/http';
+import { Observable, defer } from 'rxjs';
+import { map, switchMap } from 'rxjs/operators';
+import {
+  ApiHealth,
+  CleanupResponse,
+  DatabaseHealth,
+  DatabaseSnapshot,
+  MaintenanceResult
+} from '../models/admin.model';
+import { REQUEST_TIMEOUT_MS } from '../interceptors/timeout.interceptor';
+import { AdminAccessService } from './admin-access.service';
+import { I18nService } from './i18n.service';
+import { environment } from '../../environments/environment';
+
+/** Maintenance runs on large databases can take minutes. */
+export const MAINTENANCE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Operator endpoints of the API: health checks and database maintenance.
+ * Responses are never cached, since they describe the server right now.
+ * Maintenance requests carry the admin key from `AdminAccessService`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AdminService {
+  private readonly http = inject(HttpClient);
+  private readonly adminAccess = inject(AdminAccessService);
+  private readonly i18n = inject(I18nService);
+  private readonly baseUrl = environment.apiUrl;
+  private readonly maintenanceContext = () => new HttpContext().set(REQUEST_TIMEOUT_MS, MAINTENANCE_TIMEOUT_MS);
+
+  getHealth(): Observable<ApiHealth> {
+    return this.http.get<ApiHealth>(`${this.baseUrl}/health`);
+  }
+
+  getDatabaseHealth(): Observable<DatabaseHealth> {
+    return this.http.get<DatabaseHealth>(`${this.baseUrl}/health/database`);
+  }
+
+  /** Removes old stories; the API reports the database size before and after. */
+  cleanupDatabase(): Observable<MaintenanceResult> {
+    return defer(() => {
+      const startedAt = Date.now();
+      return this.http.post<CleanupResponse>(`${this.baseUrl}/health/database/cleanup`, {}, {
+        headers: this.adminAccess.headers(),
+        context: this.maintenanceContext()
+      }).pipe(
+        map(response => ({
+          action: 'cleanup' as const,
+          message: this.i18n.plural(response.saved.stories, 'Removed {count} story, freeing {size} MB.',
+            'Removed {count} stories, freeing {size} MB.', { size: response.saved.sizeMB }),
+          before: response.before,
+          after: response.after,
+          durationMs: Date.now() - startedAt
+        }))
+      );
+    });
+  }
+
+  /**
+   * Rebuilds the full-text index. The endpoint only returns a message, so the
+   * database is measured around it for the before/after summary.
+   */
+  rebuildSearchIndex(): Observable<MaintenanceResult> {
+    return defer(() => {
+      const startedAt = Date.now();
+      return this.getDatabaseHealth().pipe(
+        switchMap(before => this.http.post<{ message: string }>(`${this.baseUrl}/search/rebuild-index`, {}, {
+          headers: this.adminAccess.headers(),
+          context: this.maintenanceContext()
+        }).pipe(
+          switchMap(response => this.getDatabaseHealth().pipe(
+            map(after => ({
+              action: 'rebuild-index' as const,
+              message: response.message,
+              before: this.snapshot(before),
+              after: this.snapshot(after),
+              durationMs: Date.now() - startedAt
+            }))
+          ))
+        ))
+      );
+    });
+  }
+
+  private snapshot(health: DatabaseHealth): DatabaseSnapshot {
+    return { sizeMB: health.database.sizeMB, storyCount: health.database.storyCount };
+  }
+}
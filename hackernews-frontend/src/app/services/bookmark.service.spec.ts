@@ -0,0 +1,168 @@
+import { TestBed } from '@angular/core/testing';
+import { BookmarkService } from './bookmark.service';
+import { makeStory } from '../testing/fixtures';
+
+describe('BookmarkService', () => {
+  let service: BookmarkService;
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.bookmarks');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(BookmarkService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.bookmarks');
+  });
+
+  it('should toggle bookmarks and persist the snapshots', () => {
+    const story = makeStory(1);
+
+    service.toggle(story);
+    expect(service.isBookmarked(1)).toBe(true);
+    expect(JSON.parse(localStorage.getItem('hn.bookmarks')!)[0].story).toEqual(story);
+
+    service.toggle(story);
+    expect(service.isBookmarked(1)).toBe(false);
+    expect(JSON.parse(localStorage.getItem('hn.bookmarks')!)).toEqual([]);
+  });
+
+  it('should keep the most recent bookmark first', () => {
+    service.add(makeStory(1));
+    service.add(makeStory(2));
+
+    expect(service.bookmarks().map(bookmark => bookmark.story.id)).toEqual([2, 1]);
+  });
+
+  it('should restore bookmarks from local storage', () => {
+    service.add(makeStory(1));
+
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    const restored = TestBed.inject(BookmarkService);
+
+    expect(restored.isBookmarked(1)).toBe(true);
+  });
+
+  it('should complete partial bookmarks kept by earlier versions', () => {
+    localStorage.setItem('hn.bookmarks', JSON.stringify([{ story: { id: 5, title: 'Old' }, bookmarkedAt: 1 }, { story: {} }]));
+
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    const restored = TestBed.inject(BookmarkService);
+
+    expect(restored.bookmarks().length).toBe(1);
+    expect(restored.bookmarks()[0].story.by).toBe('');
+    expect(() => restored.exportNetscapeHtml()).not.toThrow();
+  });
+
+  describe('JSON', () => {
+    it('should round-trip through export and import', () => {
+      service.add(makeStory(1));
+      service.add(makeStory(2));
+      const json = service.exportJson();
+      service.remove(1);
+      service.remove(2);
+
+      const result = service.importJson(json);
+
+      expect(result).toEqual({ imported: 2, skipped: 0 });
+      expect(service.bookmarks().map(bookmark => bookmark.story)).toEqual([makeStory(2), makeStory(1)]);
+    });
+
+    it('should skip duplicates and malformed entries', () => {
+      service.add(makeStory(1));
+
+      const result = service.importJson(JSON.stringify([
+        { story: makeStory(1), bookmarkedAt: 1 },
+        { story: { id: 'x' }, bookmarkedAt: 1 },
+        { story: makeStory(3), bookmarkedAt: 2 }
+      ]));
+
+      expect(result).toEqual({ imported: 1, skipped: 2 });
+      expect(service.isBookmarked(3)).toBe(true);
+    });
+
+    it('should complete partial entries so they can be listed and exported', () => {
+      const result = service.importJson(JSON.stringify([{ story: { id: 7, title: 'Partial' }, bookmarkedAt: 1700000000000 }]));
+
+      expect(result).toEqual({ imported: 1, skipped: 0 });
+      expect(service.bookmarks()[0].story).toEqual({
+        id: 7,
+        title: 'Partial',
+        by: '',
+        time: 1700000000,
+        createdAt: new Date(1700000000 * 1000).toISOString(),
+        score: 0,
+        type: 'story',
+        hasUrl: false,
+        commentCount: 0,
+        hackerNewsUrl: 'https://news.ycombinator.com/item?id=7'
+      });
+      expect(service.exportNetscapeHtml()).toContain('HREF="https://news.ycombinator.com/item?id=7"');
+      expect(JSON.parse(service.exportJson()).bookmarks.length).toBe(1);
+    });
+
+    it('should replace fields of the wrong type', () => {
+      service.importJson(JSON.stringify([{ story: { ...makeStory(8), by: 42, score: 'many', url: null }, bookmarkedAt: 1 }]));
+
+      const story = service.bookmarks()[0].story;
+      expect(story.by).toBe('');
+      expect(story.score).toBe(0);
+      expect(story.url).toBeUndefined();
+      expect(story.hasUrl).toBe(false);
+      expect(() => service.exportNetscapeHtml()).not.toThrow();
+    });
+
+    it('should reject files that are not bookmark exports', () => {
+      expect(() => service.importJson('not json')).toThrowError('The file is not valid JSON.');
+      expect(() => service.importJson('{"items": []}')).toThrowError('The file does not contain a bookmark list.');
+    });
+  });
+
+  describe('Netscape HTML', () => {
+    it('should export a browser-compatible bookmark file', () => {
+      service.add(makeStory(1, { title: 'Tom & Jerry <3', url: 'https://example.com/1' }));
+      service.add(makeStory(2));
+
+      const html = service.exportNetscapeHtml();
+
+      expect(html.startsWith('<!DOCTYPE NETSCAPE-Bookmark-file-1>')).toBe(true);
+      expect(html).toContain('HREF="https://example.com/1"');
+      expect(html).toContain('>Tom &amp; Jerry &lt;3</A>');
+      expect(html).toContain('HREF="https://news.ycombinator.com/item?id=2"');
+    });
+
+    it('should round-trip through export and import', () => {
+      service.add(makeStory(1, { url: 'https://example.com/1', score: 10 }));
+      const html = service.exportNetscapeHtml();
+      service.remove(1);
+
+      const result = service.importNetscapeHtml(html);
+
+      expect(result).toEqual({ imported: 1, skipped: 0 });
+      const story = service.bookmarks()[0].story;
+      expect(story.id).toBe(1);
+      expect(story.title).toBe('Story 1');
+      expect(story.url).toBe('https://example.com/1');
+      expect(story.by).toBe('author');
+      expect(story.score).toBe(10);
+    });
+
+    it('should import HackerNews item links from browser exports and skip other links', () => {
+      const html = `
+        <DL><p>
+          <DT><A HREF="https://news.ycombinator.com/item?id=42" ADD_DATE="1700000000">Ask HN: Something</A>
+          <DT><A HREF="https://example.org/unrelated">Unrelated</A>
+        </DL><p>`;
+
+      const result = service.importNetscapeHtml(html);
+
+      expect(result).toEqual({ imported: 1, skipped: 1 });
+      const bookmark = service.bookmarks()[0];
+      expect(bookmark.story.id).toBe(42);
+      expect(bookmark.story.hasUrl).toBe(false);
+      expect(bookmark.bookmarkedAt).toBe(1700000000 * 1000);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LocalStorageService } from './local-storage.service';
+import { Bookmark, BookmarkImportResult } from '../models/bookmark.model';
+import { Story } from '../models/story.model';
+
+const BOOKMARKS_STORAGE_KEY = 'bookmarks';
+const EXPORT_VERSION = 1;
+const HACKER_NEWS_ITEM_URL = 'https://news.ycombinator.com/item?id=';
+
+interface BookmarkExport {
+  version: number;
+  exportedAt: string;
+  bookmarks: Bookmark[];
+}
+
+/**
+ * The reading list. Bookmarks keep a full snapshot of the story as it was
+ * when saved, so the list renders without contacting the API.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class BookmarkService {
+  private readonly localStorage = inject(LocalStorageService);
+
+  readonly bookmarks = signal<Bookmark[]>(toBookmarks(this.localStorage.getItem<unknown>(BOOKMARKS_STORAGE_KEY, [])));
+  readonly bookmarkedIds = computed(() => new Set(this.bookmarks().map(bookmark => bookmark.story.id)));
+
+  isBookmarked(id: number): boolean {
+    return this.bookmarkedIds().has(id);
+  }
+
+  toggle(story: Story) {
+    if (this.isBookmarked(story.id)) {
+      this.remove(story.id);
+    } else {
+      this.add(story);
+    }
+  }
+
+  add(story: Story) {
+    this.update(bookmarks => [
+      { story, bookmarkedAt: Date.now() },
+      ...bookmarks.filter(bookmark => bookmark.story.id !== story.id)
+    ]);
+  }
+
+  remove(id: number) {
+    this.update(bookmarks => bookmarks.filter(bookmark => bookmark.story.id !== id));
+  }
+
+  exportJson(): string {
+    const data: BookmarkExport = {
+      version: EXPORT_VERSION,
+      exportedAt: new Date().toISOString(),
+      bookmarks: this.bookmarks()
+    };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /** Accepts an export from `exportJson` or a bare array of bookmarks. */
+  importJson(json: string): BookmarkImportResult {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    const entries = Array.isArray(data) ? data : (data as Partial<BookmarkExport> | null)?.bookmarks;
+    if (!Array.isArray(entries)) {
+      throw new Error('The file does not contain a bookmark list.');
+    }
+
+    return this.merge(entries.map(entry => toBookmark(entry)));
+  }
+
+  /** Netscape bookmark file, the format browsers import and export. */
+  exportNetscapeHtml(): string {
+    const links = this.bookmarks().map(({ story, bookmarkedAt }) => {
+      const href = story.hasUrl && story.url ? story.url : story.hackerNewsUrl;
+      const attributes = [
+        `HREF="${escapeHtml(href)}"`,
+        `ADD_DATE="${Math.floor(bookmarkedAt / 1000)}"`,
+        `DATA-HN-ID="${story.id}"`,
+        `DATA-HN-BY="${escapeHtml(story.by)}"`,
+        `DATA-HN-SCORE="${story.score}"`,
+        `DATA-HN-TIME="${story.time}"`,
+        `DATA-HN-COMMENTS="${story.commentCount}"`
+      ];
+      return `        <DT><A ${attributes.join(' ')}>${escapeHtml(story.title)}</A>`;
+    });
+
+    return [
+      '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+      '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+      '<TITLE>Bookmarks</TITLE>',
+      '<H1>Bookmarks</H1>',
+      '<DL><p>',
+      `    <DT><H3 ADD_DATE="${Math.floor(Date.now() / 1000)}">HackerNews Reading List</H3>`,
+      '    <DL><p>',
+      ...links,
+      '    </DL><p>',
+      '</DL><p>',
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Links are matched to stories through the `DATA-HN-ID` attribute written by
+   * `exportNetscapeHtml`, or through a HackerNews item URL. Other links are skipped.
+   */
+  importNetscapeHtml(html: string): BookmarkImportResult {
+    const parsed = new DOMParser().parseFromString(html, 'text/html');
+    const links = Array.from(parsed.querySelectorAll<HTMLAnchorElement>('a[href]'));
+
+    return this.merge(links.map(link => this.bookmarkFromLink(link)));
+  }
+
+  private bookmarkFromLink(link: HTMLAnchorElement): Bookmark | null {
+    const href = link.getAttribute('href') ?? '';
+    const itemMatch = href.match(/^https?:\/\/news\.ycombinator\.com\/item\?id=(\d+)/);
+    const id = Number(link.getAttribute('data-hn-id') ?? itemMatch?.[1]);
+    if (!Number.isInteger(id) || id <= 0) {
+      return null;
+    }
+
+    const addDate = Number(link.getAttribute('add_date'));
+    const time = Number(link.getAttribute('data-hn-time')) || (addDate || Math.floor(Date.now() / 1000));
+    const hasUrl = !itemMatch;
+
+    return {
+      story: {
+        id,
+        title: link.textContent?.trim() || href,
+        by: link.getAttribute('data-hn-by') ?? '',
+        time,
+        createdAt: new Date(time * 1000).toISOString(),
+        score: Number(link.getAttribute('data-hn-score')) || 0,
+        url: hasUrl ? href : undefined,
+        type: 'story',
+        hasUrl,
+        commentCount: Number(link.getAttribute('data-hn-comments')) || 0,
+        hackerNewsUrl: HACKER_NEWS_ITEM_URL + id
+      },
+      bookmarkedAt: addDate ? addDate * 1000 : Date.now()
+    };
+  }
+
+  /** Adds imported bookmarks that are not in the list yet, keeping it newest first. */
+  private merge(candidates: (Bookmark | null)[]): BookmarkImportResult {
+    const ids = new Set(this.bookmarkedIds());
+    const imported: Bookmark[] = [];
+
+    candidates.forEach(candidate => {
+      if (candidate && !ids.has(candidate.story.id)) {
+        ids.add(candidate.story.id);
+        imported.push(candidate);
+      }
+    });
+
+    if (imported.length > 0) {
+      this.update(bookmarks => [...bookmarks, ...imported].sort((a, b) => b.bookmarkedAt - a.bookmarkedAt));
+    }
+
+    return { imported: imported.length, skipped: candidates.length - imported.length };
+  }
+
+  private update(updater: (bookmarks: Bookmark[]) => Bookmark[]) {
+    this.bookmarks.update(updater);
+    this.localStorage.setItem(BOOKMARKS_STORAGE_KEY, this.bookmarks());
+  }
+}
+
+/** Stored lists were imported before entries were completed, so they go through the same check. */
+function toBookmarks(entries: unknown): Bookmark[] {
+  return Array.isArray(entries)
+    ? entries.map(toBookmark).filter((bookmark): bookmark is Bookmark => bookmark !== null)
+    : [];
+}
+
+/**
+ * An entry needs a story id, a title and the time it was bookmarked. Other
+ * story fields that are missing or of the wrong type get the same defaults
+ * as links imported from HTML, so the list and the exports can rely on them.
+ */
+function toBookmark(value: unknown): Bookmark | null {
+  const entry = value as { story?: Record<string, unknown>; bookmarkedAt?: unknown } | null;
+  const story = entry?.story;
+  const id = story?.['id'];
+  if (typeof entry?.bookmarkedAt !== 'number' || typeof id !== 'number' || !Number.isInteger(id) || id <= 0
+    || typeof story?.['title'] !== 'string') {
+    return null;
+  }
+
+  const time = numberOr(story['time'], Math.floor(entry.bookmarkedAt / 1000));
+  const url = stringOr(story['url'], '');
+  const kids = story['kids'];
+  const descendants = story['descendants'];
+
+  return {
+    story: {
+      id,
+      title: story['title'],
+      by: stringOr(story['by'], ''),
+      time,
+      createdAt: stringOr(story['createdAt'], new Date(time * 1000).toISOString()),
+      score: numberOr(story['score'], 0),
+      ...(url ? { url } : {}),
+      type: stringOr(story['type'], 'story'),
+      hasUrl: !!url && story['hasUrl'] !== false,
+      ...(Array.isArray(kids) && kids.every(kid => typeof kid === 'number') ? { kids } : {}),
+      ...(typeof descendants === 'number' ? { descendants } : {}),
+      commentCount: numberOr(story['commentCount'], numberOr(descendants, 0)),
+      hackerNewsUrl: stringOr(story['hackerNewsUrl'], HACKER_NEWS_ITEM_URL + id)
+    },
+    bookmarkedAt: entry.bookmarkedAt
+  };
+}
+
+function stringOr(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,23 @@
+import { TestBed } from '@angular/core/testing';
+import { ConnectivityService } from './connectivity.service';
+
+describe('ConnectivityService', () => {
+  let service: ConnectivityService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ConnectivityService);
+  });
+
+  it('should start from the browser connection state', () => {
+    expect(service.online()).toBe(navigator.onLine);
+  });
+
+  it('should follow online and offline events', () => {
+    window.dispatchEvent(new Event('offline'));
+    expect(service.online()).toBe(false);
+
+    window.dispatchEvent(new Event('online'));
+    expect(service.online()).toBe(true);
+  });
+});
@@ -0,0 +1,29 @@
+import { Injectable, signal, inject, DestroyRef } from '@angular/core';
+
+/**
+ * Tracks whether the browser reports a network connection.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ConnectivityService {
+  private readonly destroyRef = inject(DestroyRef);
+
+  readonly online = signal<boolean>(typeof navigator === 'undefined' ? true : navigator.onLine);
+
+  constructor() {
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    const onOnline = () => this.online.set(true);
+    const onOffline = () => this.online.set(false);
+    window.addEventListener('online', onOnline);
+    window.addEventListener('offline', onOffline);
+
+    this.destroyRef.onDestroy(() => {
+      window.removeEventListener('online', onOnline);
+      window.removeEventListener('offline', onOffline);
+    });
+  }
+}
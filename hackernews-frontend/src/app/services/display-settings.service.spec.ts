@@ -0,0 +1,69 @@
+import { TestBed } from '@angular/core/testing';
+import { DisplaySettingsService } from './display-settings.service';
+
+describe('DisplaySettingsService', () => {
+  const storageKeys = ['hn.preferences', 'hn.theme', 'hn.density', 'hn.storyLayout'];
+  const root = document.documentElement;
+
+  const createService = (): DisplaySettingsService => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    const service = TestBed.inject(DisplaySettingsService);
+    TestBed.tick();
+    return service;
+  };
+
+  const clear = () => {
+    storageKeys.forEach(key => localStorage.removeItem(key));
+    root.classList.remove('theme-light', 'theme-dark', 'theme-system', 'density-comfortable', 'density-compact');
+  };
+
+  beforeEach(clear);
+  afterEach(clear);
+
+  it('should default to the system theme, comfortable density and cards', () => {
+    const service = createService();
+
+    expect(service.theme()).toBe('system');
+    expect(service.density()).toBe('comfortable');
+    expect(service.layout()).toBe('cards');
+  });
+
+  it('should persist every choice', () => {
+    const service = createService();
+
+    service.setTheme('dark');
+    service.setDensity('compact');
+    service.setLayout('classic');
+
+    const reloaded = createService();
+    expect(reloaded.theme()).toBe('dark');
+    expect(reloaded.density()).toBe('compact');
+    expect(reloaded.layout()).toBe('classic');
+  });
+
+  it('should ignore stored values it does not know', () => {
+    localStorage.setItem('hn.theme', JSON.stringify('sepia'));
+    localStorage.setItem('hn.storyLayout', JSON.stringify(42));
+
+    const service = createService();
+
+    expect(service.theme()).toBe('system');
+    expect(service.layout()).toBe('cards');
+  });
+
+  it('should apply theme and density to the root element without a reload', () => {
+    const service = createService();
+    expect(root.classList).toContain('theme-system');
+    expect(root.classList).toContain('density-comfortable');
+
+    service.setTheme('light');
+    service.setDensity('compact');
+    TestBed.tick();
+
+    expect(root.classList).toContain('theme-light');
+    expect(root.classList).not.toContain('theme-system');
+    expect(root.classList).toContain('density-compact');
+    expect(root.classList).not.toContain('density-comfortable');
+  });
+});
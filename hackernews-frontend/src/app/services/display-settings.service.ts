@@ -0,0 +1,41 @@
+import { DOCUMENT, Injectable, computed, effect, inject } from '@angular/core';
+import { PreferencesService, DENSITY_SETTINGS, THEME_SETTINGS } from './preferences.service';
+import { DensitySetting, StoryLayout, ThemeSetting } from '../models/preferences.model';
+
+/**
+ * Theme, density and story layout choices, stored with the other
+ * preferences. Theme and density are applied as classes on the root element,
+ * which styles.scss turns into Material tokens, so a change restyles every
+ * page at once.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DisplaySettingsService {
+  private readonly preferencesService = inject(PreferencesService);
+  private readonly document = inject(DOCUMENT);
+
+  readonly theme = computed(() => this.preferencesService.preferences().theme);
+  readonly density = computed(() => this.preferencesService.preferences().density);
+  readonly layout = computed(() => this.preferencesService.preferences().layout);
+
+  constructor() {
+    effect(() => {
+      const root = this.document.documentElement;
+      THEME_SETTINGS.forEach(theme => root.classList.toggle(`theme-${theme}`, theme === this.theme()));
+      DENSITY_SETTINGS.forEach(density => root.classList.toggle(`density-${density}`, density === this.density()));
+    });
+  }
+
+  setTheme(theme: ThemeSetting) {
+    this.preferencesService.update({ theme });
+  }
+
+  setDensity(density: DensitySetting) {
+    this.preferencesService.update({ density });
+  }
+
+  setLayout(layout: StoryLayout) {
+    this.preferencesService.update({ layout });
+  }
+}
@@ -0,0 +1,89 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import { DomainStoriesService } from './domain-stories.service';
+import { HackerNewsService } from './hackernews.service';
+import { INSIGHTS_PAGE_SIZE } from './insights.service';
+import { MuteService } from './mute.service';
+import { Story, SearchQuery, SearchSortOrder } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
+
+describe('DomainStoriesService', () => {
+  let service: DomainStoriesService;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  const storyAt = (id: number, url: string, time: number) => makeStory(id, { url, time });
+
+  const storiesByDomain: Record<string, Story[]> = {
+    'github.com': [storyAt(1, 'https://github.com/a', 100), storyAt(2, 'https://github.com/b', 300)]
+  };
+  // What a text search for the host finds: its subdomains, but also look-alikes and mentions
+  const mentioningGithub = [
+    storyAt(3, 'https://gist.github.com/c', 200),
+    storyAt(2, 'https://github.com/b', 300),
+    storyAt(4, 'https://mygithub.com/d', 400),
+    storyAt(5, 'https://example.com/why-github-is-down', 500),
+    storyAt(6, 'https://www.docs.GitHub.com/e', 150)
+  ];
+
+  const searchResult = (query: SearchQuery) => ({
+    items: query.filters?.domains ? storiesByDomain[query.filters.domains[0]] ?? [] : mentioningGithub,
+    page: 1,
+    pageSize: INSIGHTS_PAGE_SIZE
+  });
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.muteRules');
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    mockHackerNewsService.searchStories.and.callFake(query => of(searchResult(query)));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: HackerNewsService, useValue: mockHackerNewsService }]
+    });
+    service = TestBed.inject(DomainStoriesService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.muteRules');
+  });
+
+  it('should roll up subdomains found by searching for the host, newest first', () => {
+    let stories: Story[] = [];
+    service.collectStories('github.com', true, 2).subscribe(result => stories = result);
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+      query: 'github.com',
+      sortBy: SearchSortOrder.Recent
+    }));
+    expect(stories.map(story => story.id)).toEqual([2, 3, 6, 1]);
+  });
+
+  it('should fall back to the host when the roll-up search fails', () => {
+    mockHackerNewsService.searchStories.and.callFake(query => query.filters?.domains
+      ? of(searchResult(query))
+      : throwError(() => new Error('API Error')));
+
+    let stories: Story[] = [];
+    service.collectStories('github.com', true, 2).subscribe(result => stories = result);
+
+    expect(stories.map(story => story.id)).toEqual([2, 1]);
+  });
+
+  it('should search only the host without rollup', () => {
+    let stories: Story[] = [];
+    service.collectStories('github.com', false, 2).subscribe(result => stories = result);
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(1);
+    expect(stories.map(story => story.id)).toEqual([2, 1]);
+  });
+
+  it('should roll up exactly the stories that muting the host hides', () => {
+    let stories: Story[] = [];
+    service.collectStories('github.com', true, 2).subscribe(result => stories = result);
+    const muteService = TestBed.inject(MuteService);
+    muteService.add('domains', 'github.com');
+
+    const candidates = [...storiesByDomain['github.com'], ...mentioningGithub];
+    expect([...new Set(candidates.filter(story => muteService.isMuted(story)).map(story => story.id))].sort())
+      .toEqual(stories.map(story => story.id).sort());
+  });
+});
@@ -0,0 +1,46 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, forkJoin, of } from 'rxjs';
+import { catchError, map } from 'rxjs/operators';
+import { InsightsService } from './insights.service';
+import { isFromSite } from '../utils/story-format';
+import { SearchQuery, SearchSortOrder, Story } from '../models/story.model';
+
+/**
+ * Stories for a site. The API filters on an exact domain, so subdomains are
+ * rolled up by also searching for the host as text and keeping the stories
+ * whose URL is on a subdomain, the same match a domain mute uses.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DomainStoriesService {
+  private readonly insightsService = inject(InsightsService);
+
+  /** Up to `pageCount` pages per search, merged newest first. */
+  collectStories(host: string, includeSubdomains: boolean, pageCount: number): Observable<Story[]> {
+    const searches = [this.insightsService.collectStories(this.domainQuery(host), pageCount)];
+    if (includeSubdomains) {
+      searches.push(this.insightsService.collectStories(this.rollupQuery(host), pageCount).pipe(
+        // Without the roll-up the page still works for the host itself
+        catchError(() => of([] as Story[]))
+      ));
+    }
+
+    return forkJoin(searches).pipe(
+      map(results => Array.from(new Map(results.flat()
+        .filter(story => isFromSite(story.url, host))
+        .map(story => [story.id, story])).values())
+        .sort((a, b) => b.time - a.time))
+    );
+  }
+
+  /** The story list search for a single domain, newest first. */
+  domainQuery(domain: string): SearchQuery {
+    return { query: '', sortBy: SearchSortOrder.Recent, filters: { domains: [domain] } };
+  }
+
+  /** Stories mentioning the host, newest first; the ones on a subdomain are kept. */
+  private rollupQuery(host: string): SearchQuery {
+    return { query: host, sortBy: SearchSortOrder.Recent };
+  }
+}
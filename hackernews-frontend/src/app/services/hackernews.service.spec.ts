@@ -1,7 +1,8 @@
 import { TestBed } from '@angular/core/testing';
 import { HttpTestingController } from '@angular/common/http/testing';
-import { HackerNewsService } from './hackernews.service';
+import { HackerNewsService, MAX_SEARCH_COMBINATIONS } from './hackernews.service';
 import { Story, PagedStoryResult, SearchSortOrder } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
 import { environment } from '../../environments/environment';
 import { provideHttpClient } from '@angular/common/http';
 import { provideHttpClientTesting } from '@angular/common/http/testing';
@@ -115,6 +116,151 @@ describe('HackerNewsService', () => {
   });
 
 
+  describe('response caching', () => {
+    const emptyPage: PagedStoryResult = { items: [], page: 1, pageSize: 20 };
+
+    it('should serve a repeated request from the cache', () => {
+      service.getStories().subscribe();
+      httpMock.expectOne(`${baseUrl}/stories?page=1&pageSize=20`).flush(emptyPage);
+
+      let cached: PagedStoryResult | undefined;
+      service.getStories().subscribe(result => cached = result);
+
+      httpMock.expectNone(`${baseUrl}/stories?page=1&pageSize=20`);
+      expect(cached).toEqual(emptyPage);
+    });
+
+    it('should skip the cache for a fresh request', () => {
+      service.getStories().subscribe();
+      httpMock.expectOne(`${baseUrl}/stories?page=1&pageSize=20`).flush(emptyPage);
+
+      let fresh: PagedStoryResult | undefined;
+      service.getStories(1, 20, true).subscribe(result => fresh = result);
+      httpMock.expectOne(`${baseUrl}/stories?page=1&pageSize=20`).flush({ ...emptyPage, pageSize: 21 });
+
+      expect(fresh?.pageSize).toBe(21);
+    });
+
+    it('should not share cache entries between different requests', () => {
+      service.getStories(1, 20).subscribe();
+      httpMock.expectOne(`${baseUrl}/stories?page=1&pageSize=20`).flush(emptyPage);
+
+      service.getStories(2, 20).subscribe();
+      httpMock.expectOne(`${baseUrl}/stories?page=2&pageSize=20`).flush({ ...emptyPage, page: 2 });
+    });
+
+    it('should go back to the API after the cache is invalidated', () => {
+      const searchQuery = { query: 'test' };
+      service.searchStories(searchQuery).subscribe();
+      httpMock.expectOne(`${baseUrl}/search?q=test&page=1&pageSize=20&sortBy=Relevance`).flush(emptyPage);
+
+      service.invalidateCache('search');
+      service.searchStories(searchQuery).subscribe();
+
+      httpMock.expectOne(`${baseUrl}/search?q=test&page=1&pageSize=20&sortBy=Relevance`).flush(emptyPage);
+    });
+  });
+
+  describe('getStory', () => {
+    it('should fetch a single story by id and normalize it', () => {
+      service.getStory(42).subscribe(story => {
+        expect(story.id).toBe(42);
+        expect(story.commentCount).toBe(7);
+        expect(story.hackerNewsUrl).toBe('https://news.ycombinator.com/item?id=42');
+      });
+
+      const req = httpMock.expectOne(`${baseUrl}/stories/42`);
+      expect(req.request.method).toBe('GET');
+      req.flush({
+        id: 42,
+        title: 'Single Story',
+        by: 'author',
+        time: 1672531200,
+        score: 12,
+        type: 'story',
+        hasUrl: false,
+        kids: [1, 2],
+        descendants: 7
+      });
+    });
+
+    it('should read the comment ids from the item API when the story has none', () => {
+      let story: Story | undefined;
+      service.getStory(42).subscribe(result => story = result);
+
+      httpMock.expectOne(`${baseUrl}/stories/42`).flush(makeStory(42, { commentCount: 3 }));
+      httpMock.expectOne(`${environment.hackerNewsItemApiUrl}/item/42.json`).flush({ id: 42, kids: [7, 8] });
+
+      expect(story?.kids).toEqual([7, 8]);
+    });
+
+    it('should not ask the item API about a story without comments', () => {
+      let story: Story | undefined;
+      service.getStory(42).subscribe(result => story = result);
+
+      httpMock.expectOne(`${baseUrl}/stories/42`).flush(makeStory(42));
+
+      expect(story?.kids).toBeUndefined();
+    });
+
+    it('should still return the story when its comment ids fail to load', () => {
+      spyOn(console, 'error');
+      let story: Story | undefined;
+      service.getStory(42).subscribe(result => story = result);
+
+      httpMock.expectOne(`${baseUrl}/stories/42`).flush(makeStory(42, { commentCount: 3 }));
+      httpMock.expectOne(`${environment.hackerNewsItemApiUrl}/item/42.json`)
+        .flush(null, { status: 503, statusText: 'Service Unavailable' });
+
+      expect(story?.id).toBe(42);
+    });
+  });
+
+  describe('getComments', () => {
+    const itemApiUrl = environment.hackerNewsItemApiUrl;
+
+    it('should return an empty list without requests when there are no ids', () => {
+      service.getComments([]).subscribe(comments => {
+        expect(comments).toEqual([]);
+      });
+
+      httpMock.expectNone(() => true);
+    });
+
+    it('should fetch each comment and drop missing, deleted and dead items', () => {
+      service.getComments([10, 11, 12, 13]).subscribe(comments => {
+        expect(comments.map(comment => comment.id)).toEqual([10]);
+      });
+
+      httpMock.expectOne(`${itemApiUrl}/item/10.json`).flush({ id: 10, by: 'a', text: 'hi', time: 1, parent: 1, type: 'comment' });
+      httpMock.expectOne(`${itemApiUrl}/item/11.json`).flush({ id: 11, time: 1, parent: 1, type: 'comment', deleted: true });
+      httpMock.expectOne(`${itemApiUrl}/item/12.json`).flush({ id: 12, time: 1, parent: 1, type: 'comment', dead: true });
+      httpMock.expectOne(`${itemApiUrl}/item/13.json`).flush(null);
+    });
+
+    it('should skip a comment that fails to load and keep the rest', () => {
+      spyOn(console, 'error');
+      let ids: number[] | undefined;
+      service.getComments([10, 11]).subscribe(comments => ids = comments.map(comment => comment.id));
+
+      httpMock.expectOne(`${itemApiUrl}/item/10.json`).flush(null, { status: 500, statusText: 'Server Error' });
+      httpMock.expectOne(`${itemApiUrl}/item/11.json`).flush({ id: 11, by: 'a', text: 'hi', time: 1, parent: 1, type: 'comment' });
+
+      expect(ids).toEqual([11]);
+    });
+
+    it('should fail when every comment fails to load', () => {
+      spyOn(console, 'error');
+      let failed = false;
+      service.getComments([10, 11]).subscribe({ error: () => failed = true });
+
+      httpMock.expectOne(`${itemApiUrl}/item/10.json`).flush(null, { status: 500, statusText: 'Server Error' });
+      httpMock.expectOne(`${itemApiUrl}/item/11.json`).flush(null, { status: 500, statusText: 'Server Error' });
+
+      expect(failed).toBe(true);
+    });
+  });
+
   describe('normalizeStory (private method testing through public methods)', () => {
     it('should handle stories without URLs', () => {
       const mockApiResponse = {
@@ -229,7 +375,7 @@ describe('HackerNewsService', () => {
         sortBy: SearchSortOrder.Score,
         filters: {
           minScore: 50,
-          author: 'testuser',
+          authors: ['testuser'],
           hasUrl: true
         }
       };
@@ -305,8 +451,8 @@ describe('HackerNewsService', () => {
 
       const req = httpMock.expectOne((request) => {
         return request.url.includes('/search') &&
-               request.params.get('fromDate') === fromDate &&
-               request.params.get('toDate') === toDate &&
+               request.params.get('fromDate') === '2023-01-01T00:00:00' &&
+               request.params.get('toDate') === '2023-12-31T23:59:59' &&
                request.params.get('minScore') === '50';
       });
       expect(req.request.method).toBe('GET');
@@ -322,8 +468,8 @@ describe('HackerNewsService', () => {
         filters: {
           minScore: 10,
           maxScore: 100,
-          author: 'testuser',
-          domain: 'github.com',
+          authors: ['testuser'],
+          domains: ['github.com'],
           hasUrl: true
         }
       };
@@ -401,6 +547,170 @@ describe('HackerNewsService', () => {
     });
   });
 
+  describe('searchStories - date filters', () => {
+    const now = new Date(2025, 2, 10, 14, 30, 45);
+    const dateParams = (fromDate?: string, toDate?: string) => {
+      service.searchStories({ query: '', filters: { fromDate, toDate } }).subscribe();
+      const req = httpMock.expectOne(request => request.url === `${baseUrl}/search`);
+      req.flush({ items: [], page: 1, pageSize: 20 });
+      return [req.request.params.get('fromDate'), req.request.params.get('toDate')];
+    };
+    const utc = (date: Date) => date.toISOString().slice(0, 19);
+
+    beforeEach(() => {
+      jasmine.clock().install();
+      jasmine.clock().mockDate(now);
+    });
+
+    afterEach(() => {
+      jasmine.clock().uninstall();
+    });
+
+    it('should resolve relative dates when the search runs, to the minute', () => {
+      expect(dateParams('-7d', '-24h')).toEqual([
+        utc(new Date(2025, 2, 3, 14, 30)),
+        utc(new Date(2025, 2, 9, 14, 30))
+      ]);
+    });
+
+    it('should cover whole local days and hours', () => {
+      expect(dateParams('2025-03-01', '2025-03-02')).toEqual([
+        utc(new Date(2025, 2, 1)),
+        utc(new Date(2025, 2, 2, 23, 59, 59))
+      ]);
+      expect(dateParams('2025-03-01T09', '2025-03-01T09:00')).toEqual([
+        utc(new Date(2025, 2, 1, 9)),
+        utc(new Date(2025, 2, 1, 9, 59, 59))
+      ]);
+    });
+
+    it('should resolve calendar anchors in local time', () => {
+      expect(dateParams('month', 'yesterday')).toEqual([
+        utc(new Date(2025, 2, 1)),
+        utc(new Date(2025, 2, 9, 23, 59, 59))
+      ]);
+    });
+
+    it('should leave out values that are not dates', () => {
+      expect(dateParams('last tuesday', '2025-02-31')).toEqual([null, null]);
+    });
+  });
+
+  describe('searchStories - several authors and domains', () => {
+    const story = (id: number, by: string, url: string, score: number) => makeStory(id, { by, url, score });
+
+    const searchRequest = (domain: string) => httpMock.expectOne(request =>
+      request.url === `${baseUrl}/search` && request.params.get('domain') === domain
+    );
+
+    it('should search each domain and merge the pages in sort order', () => {
+      let result: PagedStoryResult | undefined;
+      service.searchStories({
+        query: '',
+        pageSize: 2,
+        sortBy: SearchSortOrder.Score,
+        filters: { domains: ['github.com', 'gitlab.com'] }
+      }).subscribe(page => result = page);
+
+      searchRequest('github.com').flush({
+        items: [story(1, 'pg', 'https://github.com/a', 90), story(2, 'pg', 'https://github.com/b', 10)],
+        page: 1,
+        pageSize: 2
+      });
+      searchRequest('gitlab.com').flush({ items: [story(3, 'dang', 'https://gitlab.com/c', 50)], page: 1, pageSize: 2 });
+
+      expect(result?.items.map(item => item.id)).toEqual([1, 3, 2]);
+      expect(result?.hasNextPage).toBeTrue();
+    });
+
+    it('should run one search per author and domain pair', () => {
+      service.searchStories({
+        query: '',
+        filters: { authors: ['pg', 'dang'], domains: ['github.com', 'gitlab.com'] }
+      }).subscribe();
+
+      const requests = httpMock.match(request => request.url === `${baseUrl}/search`);
+      expect(requests.map(request => `${request.request.params.get('author')}@${request.request.params.get('domain')}`))
+        .toEqual(['pg@github.com', 'pg@gitlab.com', 'dang@github.com', 'dang@gitlab.com']);
+      requests.forEach(request => request.flush({ items: [], page: 1, pageSize: 20 }));
+    });
+
+    it('should reject a search with more author and domain pairs than allowed', () => {
+      let error: unknown;
+      service.searchStories({
+        query: '',
+        filters: { authors: ['a', 'b', 'c', 'd'], domains: ['e.com', 'f.com', 'g.com', 'h.com'] }
+      }).subscribe({ error: err => error = err });
+
+      httpMock.expectNone(request => request.url === `${baseUrl}/search`);
+      expect(error).toEqual(jasmine.objectContaining({ kind: 'tooBroad', combinations: 16, limit: MAX_SEARCH_COMBINATIONS }));
+    });
+
+    it('should merge the same page of every pair, so a page can hold more than pageSize stories', () => {
+      let result: PagedStoryResult | undefined;
+      service.searchStories({
+        query: '',
+        page: 2,
+        pageSize: 2,
+        sortBy: SearchSortOrder.Score,
+        filters: { domains: ['github.com', 'gitlab.com'] }
+      }).subscribe(page => result = page);
+
+      const requests = httpMock.match(request => request.url === `${baseUrl}/search`);
+      expect(requests.map(request => request.request.params.get('page'))).toEqual(['2', '2']);
+      requests[0].flush({
+        items: [story(1, 'pg', 'https://github.com/a', 90), story(2, 'pg', 'https://github.com/b', 10)],
+        page: 2,
+        pageSize: 2
+      });
+      requests[1].flush({ items: [story(3, 'dang', 'https://gitlab.com/c', 50)], page: 2, pageSize: 2 });
+
+      expect(result?.items.length).toBe(3);
+      expect(result?.page).toBe(2);
+      expect(result?.hasNextPage).toBeTrue();
+    });
+
+    it('should interleave relevance-sorted pages by rank', () => {
+      let result: PagedStoryResult | undefined;
+      service.searchStories({ query: 'rust', filters: { domains: ['github.com', 'gitlab.com'] } })
+        .subscribe(page => result = page);
+
+      searchRequest('github.com').flush({
+        items: [story(1, 'pg', 'https://github.com/a', 1), story(2, 'pg', 'https://github.com/b', 1)],
+        page: 1,
+        pageSize: 20
+      });
+      searchRequest('gitlab.com').flush({ items: [story(3, 'pg', 'https://gitlab.com/c', 1)], page: 1, pageSize: 20 });
+
+      expect(result?.items.map(item => item.id)).toEqual([1, 3, 2]);
+      expect(result?.hasNextPage).toBeFalse();
+    });
+
+    it('should drop excluded authors and domains on the client', () => {
+      let result: PagedStoryResult | undefined;
+      service.searchStories({
+        query: 'rust',
+        pageSize: 3,
+        filters: { excludedAuthors: ['Bot'], excludedDomains: ['medium.com'] }
+      }).subscribe(page => result = page);
+
+      const req = httpMock.expectOne(request => request.url === `${baseUrl}/search`);
+      expect(req.request.params.has('author')).toBeFalse();
+      req.flush({
+        items: [
+          story(1, 'bot', 'https://example.com/a', 1),
+          story(2, 'pg', 'https://www.medium.com/b', 1),
+          story(3, 'pg', 'https://example.com/c', 1)
+        ],
+        page: 1,
+        pageSize: 3
+      });
+
+      expect(result?.items.map(item => item.id)).toEqual([3]);
+      expect(result?.hasNextPage).toBeTrue();
+    });
+  });
+
   describe('normalizeStory - edge cases and fallbacks', () => {
     it('should handle story with missing commentCount and descendants', () => {
       const apiStory = {
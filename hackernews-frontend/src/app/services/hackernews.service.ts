@@ -1,34 +1,182 @@
 import { Injectable, inject } from '@angular/core';
 import { HttpClient, HttpParams } from '@angular/common/http';
-import { Observable } from 'rxjs';
-import { map } from 'rxjs/operators';
-import { Story, PagedStoryResult, SearchQuery, SearchSortOrder } from '../models/story.model';
+import { Observable, combineLatest, forkJoin, of, throwError } from 'rxjs';
+import { catchError, map, switchMap } from 'rxjs/operators';
+import {
+  Story,
+  PagedStoryResult,
+  SearchFilters,
+  SearchQuery,
+  SearchSortOrder,
+  SearchTooBroadError
+} from '../models/story.model';
+import { StoryComment } from '../models/comment.model';
+import { ResponseCacheService } from './response-cache.service';
+import { QueryLanguageService } from './query-language.service';
+import { getDomainFromUrl } from '../utils/story-format';
+import { resolveDateFilter } from '../utils/date-filter';
 import { environment } from '../../environments/environment';
 
+/** Most author and domain pairs one search runs; broader searches are rejected with a `SearchTooBroadError`. */
+export const MAX_SEARCH_COMBINATIONS = 12;
+
+const SORT_COMPARERS: Record<Exclude<SearchSortOrder, SearchSortOrder.Relevance>, (a: Story, b: Story) => number> = {
+  [SearchSortOrder.Score]: (a, b) => b.score - a.score,
+  [SearchSortOrder.Recent]: (a, b) => b.time - a.time,
+  [SearchSortOrder.Oldest]: (a, b) => a.time - b.time,
+  [SearchSortOrder.Comments]: (a, b) => b.commentCount - a.commentCount
+};
+
 @Injectable({
   providedIn: 'root'
 })
 export class HackerNewsService {
   private readonly http = inject(HttpClient);
+  private readonly cache = inject(ResponseCacheService);
+  private readonly queryLanguage = inject(QueryLanguageService);
   private readonly baseUrl = environment.apiUrl;
+  private readonly itemApiUrl = environment.hackerNewsItemApiUrl;
 
-  getStories(pageNumber: number = 1, pageSize: number = 20): Observable<PagedStoryResult> {
+  /** With `fresh` the cache is skipped, so the result is current and failures are reported. */
+  getStories(pageNumber: number = 1, pageSize: number = 20, fresh: boolean = false): Observable<PagedStoryResult> {
     const params = new HttpParams()
       .set('page', pageNumber.toString())
       .set('pageSize', pageSize.toString());
+    const fetcher = () =>
+      this.http.get<PagedStoryResult>(`${this.baseUrl}/stories`, { params })
+        .pipe(
+          map(response => ({
+            ...response,
+            items: response.items.map(story => this.normalizeStory(story))
+          }))
+        );
+    const key = this.cacheKey('stories', params);
+
+    return fresh ? this.cache.refresh(key, fetcher) : this.cache.get(key, fetcher);
+  }
 
-    return this.http.get<PagedStoryResult>(`${this.baseUrl}/stories`, { params })
+  getStory(id: number): Observable<Story> {
+    return this.http.get<Story>(`${this.baseUrl}/stories/${id}`)
       .pipe(
-        map(response => ({
-          ...response,
-          items: response.items.map(story => this.normalizeStory(story))
-        }))
+        map(story => this.normalizeStory(story)),
+        switchMap(story => this.withCommentIds(story))
       );
   }
 
+  /**
+   * Stories read from our database come without `kids`, so for one that has
+   * comments their ids are read from the HackerNews item API. If that fails
+   * the story is returned as it was.
+   */
+  withCommentIds(story: Story): Observable<Story> {
+    if (story.kids !== undefined || story.commentCount === 0) {
+      return of(story);
+    }
+
+    return this.http.get<{ kids?: number[] } | null>(`${this.itemApiUrl}/item/${story.id}.json`).pipe(
+      map(item => ({ ...story, kids: item?.kids ?? [] })),
+      catchError(err => {
+        console.error(`Error loading comment ids for story ${story.id}:`, err);
+        return of(story);
+      })
+    );
+  }
+
+  /**
+   * The search API takes one author and one domain, so a query with several
+   * runs once per author and domain pair, up to MAX_SEARCH_COMBINATIONS, and
+   * the pages are merged here. Page N is page N of every pair merged, so it
+   * holds up to pageSize stories per pair and has a next page while any pair
+   * does. Excluded authors and domains are dropped on the client.
+   */
   searchStories(searchQuery: SearchQuery): Observable<PagedStoryResult> {
+    const filters = searchQuery.filters ?? {};
+    const authors = filters.authors?.length ? filters.authors : [undefined];
+    const domains = filters.domains?.length ? filters.domains : [undefined];
+    const combinations = authors.length * domains.length;
+    if (combinations > MAX_SEARCH_COMBINATIONS) {
+      const error: SearchTooBroadError = {
+        kind: 'tooBroad',
+        message: `${combinations} author and domain pairs, at most ${MAX_SEARCH_COMBINATIONS} are searched`,
+        combinations,
+        limit: MAX_SEARCH_COMBINATIONS
+      };
+      return throwError(() => error);
+    }
+    // Relative dates resolve against the current minute, so repeated searches share cache entries
+    const now = new Date(Math.floor(Date.now() / 60000) * 60000);
+    const pages = authors.flatMap(author => domains.map(domain => this.searchPage(searchQuery, now, author, domain)));
+    const isExcluded = this.exclusionMatcher(filters);
+
+    if (pages.length === 1 && !isExcluded) {
+      return pages[0];
+    }
+
+    // combineLatest rather than forkJoin, so cached pages still show before the fresh ones
+    return combineLatest(pages).pipe(
+      map(results => ({
+        items: this.mergeStories(results.map(result => result.items), searchQuery.sortBy)
+          .filter(story => !isExcluded?.(story)),
+        page: results[0].page,
+        pageSize: results[0].pageSize,
+        hasNextPage: results.some(result => result.items.length === result.pageSize)
+      }))
+    );
+  }
+
+  getSearchSuggestions(query: string, limit: number = 10): Observable<string[]> {
+    const params = new HttpParams()
+      .set('q', query)
+      .set('limit', limit.toString());
+
+    return this.http.get<string[]>(`${this.baseUrl}/search/suggestions`, { params });
+  }
+
+  /**
+   * Drops cached responses so the next request goes to the API.
+   * Without a scope both the stories feed and search results are cleared.
+   */
+  invalidateCache(scope?: 'stories' | 'search'): void {
+    this.cache.invalidate(scope ? `${scope}?` : '');
+  }
+
+  /**
+   * Comments are not indexed by our API, so they are read straight from the
+   * HackerNews item API. Missing, deleted and dead comments are dropped, and
+   * so are comments that fail to load, unless every one of them fails.
+   */
+  getComments(ids: number[]): Observable<StoryComment[]> {
+    if (ids.length === 0) {
+      return of([]);
+    }
+
+    const errors: unknown[] = [];
+    return forkJoin(
+      ids.map(id => this.http.get<StoryComment | null>(`${this.itemApiUrl}/item/${id}.json`).pipe(
+        catchError(err => {
+          console.error(`Error loading comment ${id}:`, err);
+          errors.push(err);
+          return of(null);
+        })
+      ))
+    ).pipe(
+      switchMap(comments => errors.length === ids.length
+        ? throwError(() => errors[errors.length - 1])
+        : of(comments.filter((comment): comment is StoryComment =>
+          !!comment && !comment.deleted && !comment.dead
+        )))
+    );
+  }
+
+  private searchPage(
+    searchQuery: SearchQuery,
+    now: Date,
+    author: string | undefined,
+    domain: string | undefined
+  ): Observable<PagedStoryResult> {
     let params = new HttpParams()
-      .set('q', searchQuery.query || '')
+      // Phrases and exclusions are matched on the client; the API takes plain terms
+      .set('q', this.queryLanguage.toApiText(searchQuery.query || ''))
       .set('page', (searchQuery.page || 1).toString())
       .set('pageSize', (searchQuery.pageSize || 20).toString())
       .set('sortBy', searchQuery.sortBy || SearchSortOrder.Relevance);
@@ -36,11 +184,13 @@ export class HackerNewsService {
     if (searchQuery.filters) {
       const filters = searchQuery.filters;
       
-      if (filters.fromDate) {
-        params = params.set('fromDate', filters.fromDate);
+      const fromDate = filters.fromDate ? resolveDateFilter(filters.fromDate, 'from', now) : null;
+      if (fromDate) {
+        params = params.set('fromDate', this.toApiDate(fromDate));
       }
-      if (filters.toDate) {
-        params = params.set('toDate', filters.toDate);
+      const toDate = filters.toDate ? resolveDateFilter(filters.toDate, 'to', now) : null;
+      if (toDate) {
+        params = params.set('toDate', this.toApiDate(toDate));
       }
       if (filters.minScore !== undefined) {
         params = params.set('minScore', filters.minScore.toString());
@@ -48,32 +198,70 @@ export class HackerNewsService {
       if (filters.maxScore !== undefined) {
         params = params.set('maxScore', filters.maxScore.toString());
       }
-      if (filters.author) {
-        params = params.set('author', filters.author);
+      if (author) {
+        params = params.set('author', author);
       }
-      if (filters.domain) {
-        params = params.set('domain', filters.domain);
+      if (domain) {
+        params = params.set('domain', domain);
       }
       if (filters.hasUrl !== undefined) {
         params = params.set('hasUrl', filters.hasUrl.toString());
       }
     }
 
-    return this.http.get<PagedStoryResult>(`${this.baseUrl}/search`, { params })
-      .pipe(
-        map(response => ({
-          ...response,
-          items: response.items.map(story => this.normalizeStory(story))
-        }))
-      );
+    return this.cache.get(this.cacheKey('search', params), () =>
+      this.http.get<PagedStoryResult>(`${this.baseUrl}/search`, { params })
+        .pipe(
+          map(response => ({
+            ...response,
+            items: response.items.map(story => this.normalizeStory(story))
+          }))
+        )
+    );
   }
 
-  getSearchSuggestions(query: string, limit: number = 10): Observable<string[]> {
-    const params = new HttpParams()
-      .set('q', query)
-      .set('limit', limit.toString());
+  /** Null when nothing is excluded. Authors and domains compare case-insensitively. */
+  private exclusionMatcher(filters: SearchFilters): ((story: Story) => boolean) | null {
+    const authors = new Set((filters.excludedAuthors ?? []).map(author => author.toLowerCase()));
+    const domains = new Set((filters.excludedDomains ?? []).map(domain => domain.toLowerCase()));
+    if (authors.size === 0 && domains.size === 0) {
+      return null;
+    }
+    return story => authors.has((story.by ?? '').toLowerCase()) || domains.has(getDomainFromUrl(story.url).toLowerCase());
+  }
 
-    return this.http.get<string[]>(`${this.baseUrl}/search/suggestions`, { params });
+  /**
+   * Merges pages sorted the same way, dropping repeats. Relevance scores
+   * aren't returned, so relevance-sorted pages are interleaved by rank.
+   */
+  private mergeStories(lists: Story[][], sortBy: SearchSortOrder = SearchSortOrder.Relevance): Story[] {
+    let merged: Story[];
+    if (sortBy === SearchSortOrder.Relevance) {
+      const longest = Math.max(0, ...lists.map(list => list.length));
+      merged = Array.from({ length: longest }, (_, rank) => lists.map(list => list[rank]))
+        .flat()
+        .filter((story): story is Story => !!story);
+    } else {
+      merged = lists.flat().sort(SORT_COMPARERS[sortBy]);
+    }
+    return Array.from(new Map(merged.map(story => [story.id, story])).values());
+  }
+
+  /**
+   * UTC without a zone designator: the API compares against UTC timestamps
+   * and would shift a value with a zone into the server's local time.
+   */
+  private toApiDate(date: Date): string {
+    return date.toISOString().slice(0, 19);
+  }
+
+  /** Cache keys use sorted params so equivalent requests share an entry. */
+  private cacheKey(endpoint: string, params: HttpParams): string {
+    const query = params.keys()
+      .sort()
+      .map(key => `${key}=${params.getAll(key)?.join(',')}`)
+      .join('&');
+    return `${endpoint}?${query}`;
   }
 
   private normalizeStory(apiStory: any): Story {
@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+import { I18nService } from './i18n.service';
+import { PreferencesService } from './preferences.service';
+import { MESSAGES_DE } from '../i18n/messages.de';
+
+describe('I18nService', () => {
+  let service: I18nService;
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.preferences');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(I18nService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.preferences');
+    document.documentElement.lang = 'en';
+  });
+
+  it('should show English text as it is by default', () => {
+    expect(service.locale()).toBe('en');
+    expect(service.t('Settings')).toBe('Settings');
+    expect(service.t('Page {page}', { page: 1200 })).toBe('Page 1,200');
+    expect(service.plural(1, '{count} point', '{count} points')).toBe('1 point');
+    expect(service.plural(3, '{count} point', '{count} points')).toBe('3 points');
+  });
+
+  it('should translate to German once the locale is switched', () => {
+    service.setLocale('de');
+
+    expect(service.t('Settings')).toBe('Einstellungen');
+    expect(service.t('Page {page}', { page: 1200 })).toBe('Seite 1.200');
+    expect(service.plural(1, '{count} comment', '{count} comments')).toBe('1 Kommentar');
+    expect(service.plural(0, '{count} comment', '{count} comments')).toBe('0 Kommentare');
+    expect(service.formatNumber(1234567)).toBe('1.234.567');
+  });
+
+  it('should cut a translated sentence around a placeholder', () => {
+    service.setLocale('de');
+
+    expect(service.splitAt(service.plural(3, '{count} point by {author}', '{count} points by {author}'), 'author'))
+      .toEqual(['3 Punkte von ', '']);
+    expect(service.splitAt('No placeholder', 'author')).toEqual(['No placeholder', '']);
+  });
+
+  it('should fall back to English for messages without a translation', () => {
+    service.setLocale('de');
+
+    expect(service.t('Not in any catalog {name}', { name: 'pg' })).toBe('Not in any catalog pg');
+  });
+
+  it('should keep the locale with the other preferences', () => {
+    service.setLocale('de');
+
+    expect(TestBed.inject(PreferencesService).preferences().locale).toBe('de');
+    expect(JSON.parse(localStorage.getItem('hn.preferences')!).locale).toBe('de');
+  });
+
+  it('should set the document language', () => {
+    TestBed.tick();
+    expect(document.documentElement.lang).toBe('en');
+
+    service.setLocale('de');
+    TestBed.tick();
+
+    expect(document.documentElement.lang).toBe('de');
+  });
+
+  it('should keep every placeholder in the German messages', () => {
+    const placeholders = (text: string) => (text.match(/\{\w+\}/g) ?? []).sort();
+
+    Object.entries(MESSAGES_DE).forEach(([english, german]) => {
+      expect(placeholders(german)).withContext(english).toEqual(placeholders(english));
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { DOCUMENT, Injectable, computed, effect, inject } from '@angular/core';
+import { PreferencesService } from './preferences.service';
+import { AppLocale } from '../models/preferences.model';
+import { MessageParams, formatNumber, translate, translatePlural } from '../i18n/translate';
+import { formatDateTime } from '../utils/story-format';
+
+/**
+ * The interface language, stored with the other preferences. Everything here
+ * reads the locale signal, so templates and computeds that translate through
+ * it update as soon as the locale is switched, without a reload.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class I18nService {
+  private readonly preferencesService = inject(PreferencesService);
+  private readonly document = inject(DOCUMENT);
+
+  readonly locale = computed(() => this.preferencesService.preferences().locale);
+
+  /** Each locale named in its own language, so it can be found whatever is shown. */
+  readonly localeOptions: { value: AppLocale; label: string }[] = [
+    { value: 'en', label: 'English' },
+    { value: 'de', label: 'Deutsch' }
+  ];
+
+  constructor() {
+    effect(() => {
+      this.document.documentElement.lang = this.locale();
+    });
+  }
+
+  setLocale(locale: AppLocale) {
+    this.preferencesService.update({ locale });
+  }
+
+  t(text: string, params?: MessageParams): string {
+    return translate(this.locale(), text, params);
+  }
+
+  plural(count: number, one: string, other: string, params?: MessageParams): string {
+    return translatePlural(this.locale(), count, one, other, params);
+  }
+
+  /**
+   * `message` cut at its `{name}` placeholder, for a sentence with markup such
+   * as a link in the middle: translate it without `name` in the params, then
+   * render the link between the two parts.
+   */
+  splitAt(message: string, name: string): [string, string] {
+    const placeholder = `{${name}}`;
+    const at = message.indexOf(placeholder);
+    return at === -1 ? [message, ''] : [message.slice(0, at), message.slice(at + placeholder.length)];
+  }
+
+  /** `options` set digits or signs, e.g. one decimal for durations. */
+  formatNumber(value: number, options?: Intl.NumberFormatOptions): string {
+    return options ? value.toLocaleString(this.locale(), options) : formatNumber(value, this.locale());
+  }
+
+  formatDateTime(date: Date | string | number): string {
+    return formatDateTime(date, this.locale());
+  }
+}
@@ -0,0 +1,38 @@
+import { TestBed } from '@angular/core/testing';
+import { IndexedDbService } from './indexed-db.service';
+
+describe('IndexedDbService', () => {
+  let service: IndexedDbService;
+
+  beforeEach(async () => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IndexedDbService);
+    await service.clear('responses');
+  });
+
+  it('should store and read back values', async () => {
+    await service.put('responses', 'key', { value: 42 });
+
+    expect(await service.get('responses', 'key')).toEqual({ value: 42 });
+  });
+
+  it('should resolve undefined for missing keys', async () => {
+    expect(await service.get('responses', 'missing')).toBeUndefined();
+  });
+
+  it('should list every record with its key', async () => {
+    await service.put('responses', 'a', 1);
+    await service.put('responses', 'b', 2);
+
+    const records = await service.getAll<number>('responses');
+
+    expect(records).toEqual([{ key: 'a', value: 1 }, { key: 'b', value: 2 }]);
+  });
+
+  it('should delete single records', async () => {
+    await service.put('responses', 'a', 1);
+    await service.delete('responses', 'a');
+
+    expect(await service.get('responses', 'a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+
+const DB_NAME = 'hackernews';
+const DB_VERSION = 2;
+
+/** Object stores in the app database. Adding a store requires bumping DB_VERSION. */
+export const IDB_STORES = ['responses', 'savedStories'] as const;
+
+export type IdbStoreName = typeof IDB_STORES[number];
+
+export interface IdbRecord<T> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Promise-based access to the app's IndexedDB database. When IndexedDB is
+ * unavailable every read resolves empty and every write is a no-op, so callers
+ * can treat persistence as best effort.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class IndexedDbService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  async get<T>(storeName: IdbStoreName, key: string): Promise<T | undefined> {
+    const result = await this.request<T>(storeName, 'readonly', store => store.get(key));
+    return result ?? undefined;
+  }
+
+  async getAll<T>(storeName: IdbStoreName): Promise<IdbRecord<T>[]> {
+    const db = await this.open();
+    if (!db) return [];
+
+    return new Promise(resolve => {
+      const records: IdbRecord<T>[] = [];
+      const cursorRequest = db.transaction(storeName, 'readonly').objectStore(storeName).openCursor();
+
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (cursor) {
+          records.push({ key: String(cursor.key), value: cursor.value as T });
+          cursor.continue();
+        } else {
+          resolve(records);
+        }
+      };
+      cursorRequest.onerror = () => {
+        console.error(`Error reading all records from "${storeName}":`, cursorRequest.error);
+        resolve(records);
+      };
+    });
+  }
+
+  async put<T>(storeName: IdbStoreName, key: string, value: T): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.put(value, key));
+  }
+
+  async delete(storeName: IdbStoreName, key: string): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.delete(key));
+  }
+
+  async clear(storeName: IdbStoreName): Promise<void> {
+    await this.request(storeName, 'readwrite', store => store.clear());
+  }
+
+  private async request<T>(
+    storeName: IdbStoreName,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise(resolve => {
+      try {
+        const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+        request.onsuccess = () => resolve(request.result as T);
+        request.onerror = () => {
+          console.error(`IndexedDB request on "${storeName}" failed:`, request.error);
+          resolve(undefined);
+        };
+      } catch (err) {
+        console.error(`IndexedDB request on "${storeName}" failed:`, err);
+        resolve(undefined);
+      }
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+
+        try {
+          const openRequest = indexedDB.open(DB_NAME, DB_VERSION);
+          openRequest.onupgradeneeded = () => {
+            const db = openRequest.result;
+            IDB_STORES
+              .filter(name => !db.objectStoreNames.contains(name))
+              .forEach(name => db.createObjectStore(name));
+          };
+          openRequest.onsuccess = () => resolve(openRequest.result);
+          openRequest.onerror = () => {
+            console.error('Error opening IndexedDB:', openRequest.error);
+            resolve(null);
+          };
+        } catch (err) {
+          console.error('Error opening IndexedDB:', err);
+          resolve(null);
+        }
+      });
+    }
+    return this.dbPromise;
+  }
+}
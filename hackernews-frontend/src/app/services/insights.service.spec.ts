@@ -0,0 +1,168 @@
+import { TestBed } from '@angular/core/testing';
+import { concat, of } from 'rxjs';
+import { InsightsService, INSIGHTS_PAGE_SIZE, INSIGHTS_TOP_COUNT, INSIGHTS_MAX_DAYS } from './insights.service';
+import { HackerNewsService } from './hackernews.service';
+import { Story, PagedStoryResult, SearchQuery } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
+
+describe('InsightsService', () => {
+  let service: InsightsService;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  const fullPage = (firstId: number): Story[] =>
+    Array.from({ length: INSIGHTS_PAGE_SIZE }, (_, i) => makeStory(firstId + i));
+
+  const page = (items: Story[]): PagedStoryResult => ({ items, page: 1, pageSize: INSIGHTS_PAGE_SIZE });
+
+  const query: SearchQuery = { query: 'rust', filters: { authors: ['pg'] } };
+
+  beforeEach(() => {
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    TestBed.configureTestingModule({
+      providers: [{ provide: HackerNewsService, useValue: mockHackerNewsService }]
+    });
+    service = TestBed.inject(InsightsService);
+  });
+
+  describe('collectStories', () => {
+    it('should fetch pages in order up to the page count', () => {
+      mockHackerNewsService.searchStories.and.callFake(searchQuery =>
+        of(page(fullPage(searchQuery.page! * 1000)))
+      );
+
+      let stories: Story[] = [];
+      service.collectStories(query, 3).subscribe(result => stories = result);
+
+      expect(mockHackerNewsService.searchStories.calls.allArgs().map(([arg]) => arg.page)).toEqual([1, 2, 3]);
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+        query: 'rust',
+        filters: { authors: ['pg'] },
+        pageSize: INSIGHTS_PAGE_SIZE
+      }));
+      expect(stories.length).toBe(3 * INSIGHTS_PAGE_SIZE);
+    });
+
+    it('should stop at the first short page', () => {
+      mockHackerNewsService.searchStories.and.returnValue(of(page([makeStory(1), makeStory(2)])));
+
+      let stories: Story[] = [];
+      service.collectStories(query, 5).subscribe(result => stories = result);
+
+      expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(1);
+      expect(stories.map(story => story.id)).toEqual([1, 2]);
+    });
+
+    it('should drop stories repeated across pages and use only the final cached answer', () => {
+      mockHackerNewsService.searchStories.and.callFake(searchQuery => searchQuery.page === 1
+        ? concat(of(page([makeStory(999)])), of(page(fullPage(1))))
+        : of(page([makeStory(1), makeStory(500)]))
+      );
+
+      let stories: Story[] = [];
+      service.collectStories(query, 2).subscribe(result => stories = result);
+
+      expect(stories.length).toBe(INSIGHTS_PAGE_SIZE + 1);
+      expect(stories.some(story => story.id === 999)).toBe(false);
+    });
+  });
+
+  describe('summarize', () => {
+    it('should bucket scores with matching score filters', () => {
+      const insights = service.summarize([
+        makeStory(1, { score: 5 }),
+        makeStory(2, { score: 120 }),
+        makeStory(3, { score: 249 }),
+        makeStory(4, { score: 4000 })
+      ]);
+
+      const counts = insights.scoreDistribution.map(datum => [datum.label, datum.value]);
+      expect(counts).toEqual([
+        ['0–9', 1], ['10–49', 0], ['50–99', 0], ['100–249', 2], ['250–499', 0], ['500–999', 0], ['1000+', 1]
+      ]);
+      expect(insights.scoreDistribution[3].filters).toEqual({ minScore: 100, maxScore: 249 });
+      expect(insights.scoreDistribution[6].filters).toEqual({ minScore: 1000 });
+    });
+
+    it('should count stories per local day and fill the days in between', () => {
+      const insights = service.summarize([
+        makeStory(1, { time: new Date(2025, 2, 1, 23, 30).getTime() / 1000 }),
+        makeStory(2, { time: new Date(2025, 2, 1, 0, 30).getTime() / 1000 }),
+        makeStory(3, { time: new Date(2025, 2, 3, 8).getTime() / 1000 })
+      ]);
+
+      expect(insights.storiesPerDay.map(datum => [datum.label, datum.value])).toEqual([
+        ['2025-03-01', 2], ['2025-03-02', 0], ['2025-03-03', 1]
+      ]);
+      expect(insights.storiesPerDay[1].filters).toEqual({ fromDate: '2025-03-02', toDate: '2025-03-02' });
+    });
+
+    it('should keep only the most recent days', () => {
+      const insights = service.summarize([
+        makeStory(1, { time: new Date(2024, 0, 1, 12).getTime() / 1000 }),
+        makeStory(2, { time: new Date(2025, 2, 1, 12).getTime() / 1000 })
+      ]);
+
+      expect(insights.storiesPerDay.length).toBe(INSIGHTS_MAX_DAYS);
+      expect(insights.storiesPerDay[INSIGHTS_MAX_DAYS - 1].label).toBe('2025-03-01');
+    });
+
+    it('should rank top domains and authors', () => {
+      const insights = service.summarize([
+        makeStory(1, { by: 'pg', url: 'https://www.github.com/a', hasUrl: true }),
+        makeStory(2, { by: 'dang', url: 'https://github.com/b', hasUrl: true }),
+        makeStory(3, { by: 'pg', url: 'https://example.com', hasUrl: true }),
+        makeStory(4, { by: 'pg' })
+      ]);
+
+      expect(insights.topDomains).toEqual([
+        { label: 'github.com', value: 2, filters: { domains: ['github.com'] } },
+        { label: 'example.com', value: 1, filters: { domains: ['example.com'] } }
+      ]);
+      expect(insights.topAuthors.map(datum => [datum.label, datum.value])).toEqual([['pg', 3], ['dang', 1]]);
+      expect(insights.topAuthors[0].filters).toEqual({ authors: ['pg'] });
+    });
+
+    it('should cap the top lists', () => {
+      const stories = Array.from({ length: INSIGHTS_TOP_COUNT + 5 }, (_, i) => makeStory(i, { by: `user${i}` }));
+
+      expect(service.summarize(stories).topAuthors.length).toBe(INSIGHTS_TOP_COUNT);
+    });
+
+    it('should compute comments per point for score buckets that have stories', () => {
+      const insights = service.summarize([
+        makeStory(1, { score: 100, commentCount: 50 }),
+        makeStory(2, { score: 200, commentCount: 100 }),
+        makeStory(3, { score: 10, commentCount: 30 })
+      ]);
+
+      expect(insights.commentRatio).toEqual([
+        { label: '10–49', value: 3, valueLabel: '3.00', filters: { minScore: 10, maxScore: 49 } },
+        { label: '100–249', value: 0.5, valueLabel: '0.50', filters: { minScore: 100, maxScore: 249 } }
+      ]);
+    });
+
+    it('should return empty charts for no stories', () => {
+      const insights = service.summarize([]);
+
+      expect(insights.storyCount).toBe(0);
+      expect(insights.storiesPerDay).toEqual([]);
+      expect(insights.topDomains).toEqual([]);
+      expect(insights.commentRatio).toEqual([]);
+    });
+  });
+
+  describe('postingHours', () => {
+    it('should count stories by local hour of day', () => {
+      const hours = service.postingHours([
+        makeStory(1, { time: new Date(2025, 2, 1, 9, 15).getTime() / 1000 }),
+        makeStory(2, { time: new Date(2025, 2, 2, 9, 45).getTime() / 1000 }),
+        makeStory(3, { time: new Date(2025, 2, 2, 23, 5).getTime() / 1000 })
+      ]);
+
+      expect(hours.length).toBe(24);
+      expect(hours[9]).toEqual({ label: '09:00', value: 2, filters: {} });
+      expect(hours[23].value).toBe(1);
+      expect(hours[0].value).toBe(0);
+    });
+  });
+});
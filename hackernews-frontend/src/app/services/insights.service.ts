@@ -0,0 +1,180 @@
+import { Injectable, inject } from '@angular/core';
+import { EMPTY, Observable } from 'rxjs';
+import { expand, map, reduce, takeLast } from 'rxjs/operators';
+import { HackerNewsService } from './hackernews.service';
+import { getDomainFromUrl } from '../utils/story-format';
+import { toDayValue } from '../utils/date-filter';
+import { ChartDatum, StoryInsights } from '../models/insights.model';
+import { SearchQuery, Story } from '../models/story.model';
+
+/** Stories requested per page while collecting insights. */
+export const INSIGHTS_PAGE_SIZE = 50;
+
+/** Entries kept in the top domains and top authors charts. */
+export const INSIGHTS_TOP_COUNT = 10;
+
+/** Days shown in the stories per day chart, counted back from the newest story. */
+export const INSIGHTS_MAX_DAYS = 60;
+
+interface ScoreBucket {
+  min: number;
+  /** Inclusive; the top bucket is open ended. */
+  max?: number;
+}
+
+const SCORE_BUCKETS: ScoreBucket[] = [
+  { min: 0, max: 9 },
+  { min: 10, max: 49 },
+  { min: 50, max: 99 },
+  { min: 100, max: 249 },
+  { min: 250, max: 499 },
+  { min: 500, max: 999 },
+  { min: 1000 }
+];
+
+/**
+ * Aggregates several pages of a search into chart data. Every data point
+ * carries the filters that select its stories, so charts can drill back
+ * into the story list.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class InsightsService {
+  private readonly hackerNewsService = inject(HackerNewsService);
+
+  /** Fetches up to `pageCount` pages one after another, stopping early at a short page. */
+  collectStories(query: SearchQuery, pageCount: number): Observable<Story[]> {
+    const fetchPage = (page: number) =>
+      this.hackerNewsService.searchStories({ ...query, page, pageSize: INSIGHTS_PAGE_SIZE }).pipe(
+        // A cached page may be emitted first; only the final answer counts
+        takeLast(1),
+        map(result => ({
+          page,
+          items: result.items,
+          hasNextPage: result.hasNextPage ?? result.items.length >= INSIGHTS_PAGE_SIZE
+        }))
+      );
+
+    return fetchPage(1).pipe(
+      expand(({ page, hasNextPage }) => hasNextPage && page < pageCount ? fetchPage(page + 1) : EMPTY),
+      reduce((stories, { items }) => [...stories, ...items], [] as Story[]),
+      // Pages can shift while they are fetched, repeating a story
+      map(stories => Array.from(new Map(stories.map(story => [story.id, story])).values()))
+    );
+  }
+
+  summarize(stories: Story[]): StoryInsights {
+    return {
+      storyCount: stories.length,
+      scoreDistribution: this.scoreDistribution(stories),
+      storiesPerDay: this.storiesPerDay(stories),
+      topDomains: this.topCounts(stories, story => getDomainFromUrl(story.url), domain => ({ domains: [domain] })),
+      topAuthors: this.topCounts(stories, story => story.by, author => ({ authors: [author] })),
+      commentRatio: this.commentRatio(stories)
+    };
+  }
+
+  /** Stories by the hour of day they were posted, in local time. Hours can't be searched, so there are no filters. */
+  postingHours(stories: Story[]): ChartDatum[] {
+    const counts = new Array<number>(24).fill(0);
+    stories.forEach(story => counts[new Date(story.time * 1000).getHours()]++);
+
+    return counts.map((count, hour) => ({
+      label: `${hour.toString().padStart(2, '0')}:00`,
+      value: count,
+      filters: {}
+    }));
+  }
+
+  private scoreDistribution(stories: Story[]): ChartDatum[] {
+    return SCORE_BUCKETS.map(bucket => ({
+      label: this.bucketLabel(bucket),
+      value: stories.filter(story => this.inBucket(story, bucket)).length,
+      filters: this.scoreFilters(bucket)
+    }));
+  }
+
+  /** Days are local calendar days, the same days a date filter selects. */
+  private storiesPerDay(stories: Story[]): ChartDatum[] {
+    if (stories.length === 0) {
+      return [];
+    }
+
+    const counts = new Map<string, number>();
+    stories.forEach(story => {
+      const day = toDayValue(new Date(story.time * 1000));
+      counts.set(day, (counts.get(day) ?? 0) + 1);
+    });
+
+    const days = Array.from(counts.keys()).sort();
+    const last = this.startOfDay(days[days.length - 1]);
+    const earliest = new Date(last.getFullYear(), last.getMonth(), last.getDate() - (INSIGHTS_MAX_DAYS - 1));
+    const first = new Date(Math.max(this.startOfDay(days[0]).getTime(), earliest.getTime()));
+
+    const data: ChartDatum[] = [];
+    // Stepping by calendar day rather than 24 hours keeps days aligned across daylight saving changes
+    for (let date = first; date <= last; date = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1)) {
+      const day = toDayValue(date);
+      data.push({
+        label: day,
+        value: counts.get(day) ?? 0,
+        filters: { fromDate: day, toDate: day }
+      });
+    }
+    return data;
+  }
+
+  private topCounts(
+    stories: Story[],
+    keyOf: (story: Story) => string,
+    filtersFor: (key: string) => ChartDatum['filters']
+  ): ChartDatum[] {
+    const counts = new Map<string, number>();
+    stories.forEach(story => {
+      const key = keyOf(story);
+      if (key) {
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    });
+
+    return Array.from(counts.entries())
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .slice(0, INSIGHTS_TOP_COUNT)
+      .map(([key, count]) => ({ label: key, value: count, filters: filtersFor(key) }));
+  }
+
+  private commentRatio(stories: Story[]): ChartDatum[] {
+    return SCORE_BUCKETS
+      .map(bucket => ({ bucket, stories: stories.filter(story => this.inBucket(story, bucket)) }))
+      .filter(group => group.stories.length > 0)
+      .map(({ bucket, stories: inBucket }) => {
+        const points = inBucket.reduce((sum, story) => sum + story.score, 0);
+        const comments = inBucket.reduce((sum, story) => sum + story.commentCount, 0);
+        const ratio = points > 0 ? Math.round((comments / points) * 100) / 100 : 0;
+        return {
+          label: this.bucketLabel(bucket),
+          value: ratio,
+          valueLabel: ratio.toFixed(2),
+          filters: this.scoreFilters(bucket)
+        };
+      });
+  }
+
+  private inBucket(story: Story, bucket: ScoreBucket): boolean {
+    return story.score >= bucket.min && (bucket.max === undefined || story.score <= bucket.max);
+  }
+
+  private scoreFilters(bucket: ScoreBucket): ChartDatum['filters'] {
+    return bucket.max === undefined ? { minScore: bucket.min } : { minScore: bucket.min, maxScore: bucket.max };
+  }
+
+  private bucketLabel(bucket: ScoreBucket): string {
+    return bucket.max === undefined ? `${bucket.min}+` : `${bucket.min}–${bucket.max}`;
+  }
+
+  private startOfDay(day: string): Date {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date);
+  }
+}
@@ -0,0 +1,101 @@
+import { TestBed, fakeAsync, tick } from '@angular/core/testing';
+import { of, throwError } from 'rxjs';
+import {
+  LiveFeedService,
+  LIVE_FEED_POLL_INTERVAL_MS,
+  LIVE_FEED_HIDDEN_INTERVAL_MS,
+  LIVE_FEED_MAX_INTERVAL_MS
+} from './live-feed.service';
+import { HackerNewsService } from './hackernews.service';
+import { Story } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
+
+describe('LiveFeedService', () => {
+  let service: LiveFeedService;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+
+  beforeEach(() => {
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['getStories']);
+    mockHackerNewsService.getStories.and.returnValue(of({ items: [makeStory(1)], page: 1, pageSize: 20 }));
+
+    TestBed.configureTestingModule({
+      providers: [{ provide: HackerNewsService, useValue: mockHackerNewsService }]
+    });
+    service = TestBed.inject(LiveFeedService);
+    service.setPageVisible(true);
+  });
+
+  describe('poll', () => {
+    it('should fetch a fresh first page on every interval', fakeAsync(() => {
+      const emissions: Story[][] = [];
+      const subscription = service.poll(20).subscribe(stories => emissions.push(stories));
+
+      tick(LIVE_FEED_POLL_INTERVAL_MS - 1);
+      expect(mockHackerNewsService.getStories).not.toHaveBeenCalled();
+
+      tick(1);
+      tick(LIVE_FEED_POLL_INTERVAL_MS);
+
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledWith(1, 20, true);
+      expect(emissions.length).toBe(2);
+      subscription.unsubscribe();
+    }));
+
+    it('should double the interval after each failure and reset on success', fakeAsync(() => {
+      spyOn(console, 'error');
+      mockHackerNewsService.getStories.and.returnValue(throwError(() => new Error('API Error')));
+      const subscription = service.poll(20).subscribe();
+
+      tick(LIVE_FEED_POLL_INTERVAL_MS);
+      expect(service.consecutiveFailures()).toBe(1);
+      expect(service.nextDelay()).toBe(2 * LIVE_FEED_POLL_INTERVAL_MS);
+
+      tick(2 * LIVE_FEED_POLL_INTERVAL_MS);
+      expect(service.consecutiveFailures()).toBe(2);
+      expect(console.error).toHaveBeenCalledWith('Error polling for new stories:', jasmine.any(Error));
+
+      mockHackerNewsService.getStories.and.returnValue(of({ items: [], page: 1, pageSize: 20 }));
+      tick(4 * LIVE_FEED_POLL_INTERVAL_MS);
+      expect(service.consecutiveFailures()).toBe(0);
+      subscription.unsubscribe();
+    }));
+
+    it('should cap the backoff', () => {
+      service.consecutiveFailures.set(10);
+
+      expect(service.nextDelay()).toBe(LIVE_FEED_MAX_INTERVAL_MS);
+    });
+
+    it('should slow down while the tab is hidden and check as soon as it is visible again', fakeAsync(() => {
+      service.setPageVisible(false);
+      expect(service.nextDelay()).toBe(LIVE_FEED_HIDDEN_INTERVAL_MS);
+
+      const subscription = service.poll(20).subscribe();
+      tick(LIVE_FEED_POLL_INTERVAL_MS);
+      expect(mockHackerNewsService.getStories).not.toHaveBeenCalled();
+
+      service.setPageVisible(true);
+      expect(mockHackerNewsService.getStories).toHaveBeenCalledTimes(1);
+
+      subscription.unsubscribe();
+    }));
+  });
+
+  describe('diff', () => {
+    it('should find new stories and changed counts by id', () => {
+      const current = [makeStory(2, { score: 5 }), makeStory(1, { commentCount: 3 }), makeStory(0)];
+      const latest = [
+        makeStory(4),
+        makeStory(3),
+        makeStory(2, { score: 9, title: 'Edited' }),
+        makeStory(1, { commentCount: 3 })
+      ];
+
+      const { added, updated } = service.diff(current, latest);
+
+      expect(added.map(story => story.id)).toEqual([4, 3]);
+      expect(Array.from(updated.keys())).toEqual([2]);
+      expect(updated.get(2)).toEqual({ ...current[0], score: 9 });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { Injectable, DestroyRef, inject, signal } from '@angular/core';
+import { EMPTY, Observable, Subject, defer, race, timer } from 'rxjs';
+import { catchError, map, repeat, switchMap, take, tap } from 'rxjs/operators';
+import { HackerNewsService } from './hackernews.service';
+import { Story } from '../models/story.model';
+
+/** How often the feed is checked while the tab is visible and requests succeed. */
+export const LIVE_FEED_POLL_INTERVAL_MS = 60 * 1000;
+
+/** How often the feed is checked while the tab is hidden. */
+export const LIVE_FEED_HIDDEN_INTERVAL_MS = 5 * 60 * 1000;
+
+/** Upper bound for the interval after repeated failures. */
+export const LIVE_FEED_MAX_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface LiveFeedDiff {
+  /** Stories in the latest page that aren't shown yet, in feed order. */
+  added: Story[];
+  /** Shown stories whose score or comment count changed, by id. */
+  updated: Map<number, Story>;
+}
+
+/**
+ * Polls the first page of the newest-stories feed. The interval doubles after
+ * each failed request and stretches while the tab is hidden; becoming visible
+ * again triggers a check right away.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LiveFeedService {
+  private readonly hackerNewsService = inject(HackerNewsService);
+  private readonly destroyRef = inject(DestroyRef);
+  private readonly becameVisible = new Subject<void>();
+
+  readonly pageVisible = signal<boolean>(typeof document === 'undefined' || document.visibilityState !== 'hidden');
+  readonly consecutiveFailures = signal<number>(0);
+
+  constructor() {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    const onVisibilityChange = () => this.setPageVisible(document.visibilityState !== 'hidden');
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    this.destroyRef.onDestroy(() => document.removeEventListener('visibilitychange', onVisibilityChange));
+  }
+
+  /** Emits the latest first page after every successful check. Runs until unsubscribed. */
+  poll(pageSize: number): Observable<Story[]> {
+    this.consecutiveFailures.set(0);
+
+    const check$ = this.hackerNewsService.getStories(1, pageSize, true).pipe(
+      map(result => result.items),
+      tap(() => this.consecutiveFailures.set(0)),
+      catchError(err => {
+        console.error('Error polling for new stories:', err);
+        this.consecutiveFailures.update(failures => failures + 1);
+        return EMPTY;
+      })
+    );
+
+    return defer(() => race(timer(this.nextDelay()), this.becameVisible.pipe(take(1)))).pipe(
+      switchMap(() => check$),
+      repeat()
+    );
+  }
+
+  /** Delay before the next check, given the current visibility and failure streak. */
+  nextDelay(): number {
+    const base = this.pageVisible() ? LIVE_FEED_POLL_INTERVAL_MS : LIVE_FEED_HIDDEN_INTERVAL_MS;
+    return Math.min(base * 2 ** this.consecutiveFailures(), LIVE_FEED_MAX_INTERVAL_MS);
+  }
+
+  setPageVisible(visible: boolean) {
+    const wasVisible = this.pageVisible();
+    this.pageVisible.set(visible);
+    if (visible && !wasVisible) {
+      this.becameVisible.next();
+    }
+  }
+
+  /** Compares the latest page with the stories on screen by id. */
+  diff(current: Story[], latest: Story[]): LiveFeedDiff {
+    const currentById = new Map(current.map(story => [story.id, story]));
+    const added: Story[] = [];
+    const updated = new Map<number, Story>();
+
+    latest.forEach(story => {
+      const shown = currentById.get(story.id);
+      if (!shown) {
+        added.push(story);
+      } else if (shown.score !== story.score || shown.commentCount !== story.commentCount) {
+        updated.set(story.id, { ...shown, score: story.score, commentCount: story.commentCount });
+      }
+    });
+
+    return { added, updated };
+  }
+}
@@ -0,0 +1,42 @@
+import { TestBed } from '@angular/core/testing';
+import { LocalStorageService } from './local-storage.service';
+
+describe('LocalStorageService', () => {
+  let service: LocalStorageService;
+
+  beforeEach(() => {
+    localStorage.clear();
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(LocalStorageService);
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('should round-trip JSON values under a prefixed key', () => {
+    service.setItem('listMode', { mode: 'infinite' });
+
+    expect(localStorage.getItem('hn.listMode')).toBe('{"mode":"infinite"}');
+    expect(service.getItem<{ mode: string } | null>('listMode', null)).toEqual({ mode: 'infinite' });
+  });
+
+  it('should return the fallback for missing keys', () => {
+    expect(service.getItem('missing', 'paged')).toBe('paged');
+  });
+
+  it('should return the fallback for corrupt values', () => {
+    spyOn(console, 'error');
+    localStorage.setItem('hn.corrupt', '{not json');
+
+    expect(service.getItem('corrupt', 42)).toBe(42);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('should remove values', () => {
+    service.setItem('temp', 1);
+    service.removeItem('temp');
+
+    expect(service.getItem('temp', 0)).toBe(0);
+  });
+});
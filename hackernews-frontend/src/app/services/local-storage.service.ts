@@ -0,0 +1,39 @@
+import { Injectable } from '@angular/core';
+
+const KEY_PREFIX = 'hn.';
+
+/**
+ * JSON wrapper around window.localStorage. Storage can be unavailable
+ * (private browsing, quota exceeded), so every access fails soft.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class LocalStorageService {
+
+  getItem<T>(key: string, fallback: T): T {
+    try {
+      const raw = localStorage.getItem(KEY_PREFIX + key);
+      return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch (err) {
+      console.error(`Error reading "${key}" from local storage:`, err);
+      return fallback;
+    }
+  }
+
+  setItem<T>(key: string, value: T): void {
+    try {
+      localStorage.setItem(KEY_PREFIX + key, JSON.stringify(value));
+    } catch (err) {
+      console.error(`Error writing "${key}" to local storage:`, err);
+    }
+  }
+
+  removeItem(key: string): void {
+    try {
+      localStorage.removeItem(KEY_PREFIX + key);
+    } catch (err) {
+      console.error(`Error removing "${key}" from local storage:`, err);
+    }
+  }
+}
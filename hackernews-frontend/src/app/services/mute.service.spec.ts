@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { MuteService } from './mute.service';
+import { Story } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
+
+describe('MuteService', () => {
+  let service: MuteService;
+
+  const story = (overrides: Partial<Story> = {}) =>
+    makeStory(1, { title: 'Show HN: A new database', by: 'someone', url: 'https://www.example.com/post', ...overrides });
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.muteRules');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(MuteService);
+  });
+
+  afterEach(() => {
+    localStorage.removeItem('hn.muteRules');
+  });
+
+  it('should not mute anything by default', () => {
+    expect(service.isMuted(story())).toBe(false);
+    expect(service.ruleCount()).toBe(0);
+  });
+
+  it('should mute authors case-insensitively', () => {
+    service.add('authors', 'SomeOne');
+
+    expect(service.muteReason(story())).toEqual({ kind: 'authors', rule: 'someone' });
+  });
+
+  it('should mute domains using the same hostname logic as the story cards', () => {
+    expect(service.add('domains', 'https://www.example.com/anything')).toBeNull();
+
+    expect(service.rules().domains).toEqual(['example.com']);
+    expect(service.isMuted(story())).toBe(true);
+    expect(service.isMuted(story({ url: 'https://myexample.com/post' }))).toBe(false);
+    expect(service.isMuted(story({ url: undefined, hasUrl: false }))).toBe(false);
+  });
+
+  it('should mute the subdomains of a muted domain', () => {
+    service.add('domains', 'example.com');
+
+    expect(service.isMuted(story({ url: 'https://blog.example.com/post' }))).toBe(true);
+    expect(service.muteReason(story({ url: 'https://blog.example.com/post' }))).toEqual({ kind: 'domains', rule: 'example.com' });
+    expect(service.domainRule('blog.example.com')).toBe('example.com');
+    expect(service.domainRule('example.org')).toBeNull();
+  });
+
+  it('should mute title keywords case-insensitively', () => {
+    service.add('titlePatterns', 'show hn');
+
+    expect(service.isMuted(story())).toBe(true);
+    expect(service.isMuted(story({ title: 'Ask HN: Anything' }))).toBe(false);
+  });
+
+  it('should treat keywords with special characters literally', () => {
+    service.add('titlePatterns', 'C++');
+
+    expect(service.isMuted(story({ title: 'Why C++ is hard' }))).toBe(true);
+    expect(service.isMuted(story({ title: 'Why C is hard' }))).toBe(false);
+  });
+
+  it('should mute titles matching regular expressions', () => {
+    service.add('titlePatterns', '/^(Show|Ask) HN/g');
+
+    expect(service.isMuted(story())).toBe(true);
+    expect(service.isMuted(story())).toBe(true);
+    expect(service.isMuted(story({ title: 'show hn lowercase' }))).toBe(false);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(service.add('titlePatterns', '/([/')).toBe('This is not a valid regular expression.');
+    expect(service.add('domains', 'not a domain')).toBe('Enter a domain such as example.com.');
+    expect(service.add('authors', '  ')).toBe('Enter a value to mute.');
+    expect(service.ruleCount()).toBe(0);
+  });
+
+  it('should persist rules and ignore duplicates', () => {
+    service.add('authors', 'pg');
+    service.add('authors', 'pg');
+
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    const restored = TestBed.inject(MuteService);
+
+    expect(restored.rules().authors).toEqual(['pg']);
+  });
+
+  it('should remove rules', () => {
+    service.add('authors', 'pg');
+
+    service.remove('authors', 'pg');
+
+    expect(service.rules().authors).toEqual([]);
+  });
+});
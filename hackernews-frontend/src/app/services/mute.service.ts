@@ -0,0 +1,121 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LocalStorageService } from './local-storage.service';
+import { MuteReason, MuteRuleKind, MuteRules } from '../models/mute.model';
+import { Story } from '../models/story.model';
+import { getDomainFromUrl, isFromSite, isSameOrSubdomain } from '../utils/story-format';
+
+const MUTE_RULES_STORAGE_KEY = 'muteRules';
+
+const EMPTY_RULES: MuteRules = { authors: [], domains: [], titlePatterns: [] };
+
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * The user's mute list. Matching happens on the client, so it applies the same
+ * way to the plain feed and to search results.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MuteService {
+  private readonly localStorage = inject(LocalStorageService);
+
+  readonly rules = signal<MuteRules>({
+    ...EMPTY_RULES,
+    ...this.localStorage.getItem<Partial<MuteRules>>(MUTE_RULES_STORAGE_KEY, {})
+  });
+
+  private readonly matchers = computed(() => {
+    const rules = this.rules();
+    return {
+      authors: new Set(rules.authors.map(author => author.toLowerCase())),
+      titlePatterns: rules.titlePatterns
+        .map(pattern => this.toRegExp(pattern))
+        .filter((pattern): pattern is RegExp => pattern !== null)
+    };
+  });
+
+  readonly ruleCount = computed(() => {
+    const rules = this.rules();
+    return rules.authors.length + rules.domains.length + rules.titlePatterns.length;
+  });
+
+  isMuted(story: Story): boolean {
+    return this.muteReason(story) !== null;
+  }
+
+  /** The first rule that hides `story`, or null when it is shown. */
+  muteReason(story: Story): MuteReason | null {
+    const matchers = this.matchers();
+
+    if (story.by && matchers.authors.has(story.by.toLowerCase())) {
+      return { kind: 'authors', rule: story.by };
+    }
+    const domainRule = this.rules().domains.find(rule => isFromSite(story.url, rule));
+    if (domainRule) {
+      return { kind: 'domains', rule: domainRule };
+    }
+    const pattern = matchers.titlePatterns.find(regExp => regExp.test(story.title));
+    return pattern ? { kind: 'titlePatterns', rule: pattern.source } : null;
+  }
+
+  /** The domain rule hiding `domain`: the domain itself or a parent, since a rule covers subdomains. */
+  domainRule(domain: string): string | null {
+    return this.rules().domains.find(rule => isSameOrSubdomain(domain, rule)) ?? null;
+  }
+
+  /**
+   * Adds a rule after normalizing it. Returns an error message when the value
+   * can't be used, e.g. an invalid regular expression.
+   */
+  add(kind: MuteRuleKind, value: string): string | null {
+    const normalized = this.normalize(kind, value);
+    if (!normalized) {
+      return kind === 'domains' ? 'Enter a domain such as example.com.' : 'Enter a value to mute.';
+    }
+    if (kind === 'titlePatterns' && !this.toRegExp(normalized)) {
+      return 'This is not a valid regular expression.';
+    }
+
+    if (!this.rules()[kind].includes(normalized)) {
+      this.update(rules => ({ ...rules, [kind]: [...rules[kind], normalized] }));
+    }
+    return null;
+  }
+
+  remove(kind: MuteRuleKind, value: string) {
+    this.update(rules => ({ ...rules, [kind]: rules[kind].filter(existing => existing !== value) }));
+  }
+
+  private normalize(kind: MuteRuleKind, value: string): string {
+    const trimmed = value.trim();
+    switch (kind) {
+      case 'authors':
+        return trimmed;
+      case 'domains':
+        // Same hostname logic as the story cards, so "www." and paths are ignored
+        return getDomainFromUrl(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+      case 'titlePatterns':
+        return trimmed;
+    }
+  }
+
+  /** `/pattern/flags` is a regular expression; anything else matches as a keyword. */
+  private toRegExp(pattern: string): RegExp | null {
+    const regexMatch = pattern.match(REGEX_PATTERN);
+    try {
+      if (regexMatch) {
+        // A global regex keeps state between test() calls, so the flag is dropped
+        return new RegExp(regexMatch[1], regexMatch[2].replace('g', ''));
+      }
+      return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i');
+    } catch {
+      return null;
+    }
+  }
+
+  private update(updater: (rules: MuteRules) => MuteRules) {
+    this.rules.update(updater);
+    this.localStorage.setItem(MUTE_RULES_STORAGE_KEY, this.rules());
+  }
+}
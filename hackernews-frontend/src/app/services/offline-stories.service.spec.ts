@@ -0,0 +1,168 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import {
+  COMMENT_FETCH_CONCURRENCY,
+  MAX_SAVED_COMMENTS,
+  MAX_SAVED_COMMENT_DEPTH,
+  OfflineStoriesService,
+  SavedStory
+} from './offline-stories.service';
+import { HackerNewsService } from './hackernews.service';
+import { IndexedDbService } from './indexed-db.service';
+import { Story } from '../models/story.model';
+import { StoryComment } from '../models/comment.model';
+import { makeComment, makeStory } from '../testing/fixtures';
+
+describe('OfflineStoriesService', () => {
+  let service: OfflineStoriesService;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+  let mockIndexedDb: jasmine.SpyObj<IndexedDbService>;
+
+  const comment = (id: number, kids?: number[]) => makeComment(id, { kids });
+  const comments = new Map<number, StoryComment>([
+    [10, comment(10, [11, 12])],
+    [11, comment(11, [13])],
+    [12, comment(12)],
+    [13, comment(13)],
+    [20, comment(20)]
+  ]);
+
+  const story = makeStory(1, { kids: [10, 20], commentCount: 5 });
+
+  const flushMicrotasks = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  beforeEach(() => {
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['getComments', 'withCommentIds']);
+    mockHackerNewsService.withCommentIds.and.callFake((saving: Story) => of(saving));
+    mockHackerNewsService.getComments.and.callFake((ids: number[]) =>
+      of(ids.map(id => comments.get(id)).filter((found): found is StoryComment => !!found))
+    );
+    mockIndexedDb = jasmine.createSpyObj('IndexedDbService', ['getAll', 'get', 'put', 'delete']);
+    mockIndexedDb.getAll.and.returnValue(Promise.resolve([]));
+    mockIndexedDb.put.and.returnValue(Promise.resolve());
+    mockIndexedDb.delete.and.returnValue(Promise.resolve());
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: HackerNewsService, useValue: mockHackerNewsService },
+        { provide: IndexedDbService, useValue: mockIndexedDb }
+      ]
+    });
+    service = TestBed.inject(OfflineStoriesService);
+  });
+
+  it('should save the story with its complete comment tree', async () => {
+    let saved: SavedStory | undefined;
+
+    service.saveStory(story).subscribe(result => saved = result);
+    await flushMicrotasks();
+
+    expect(saved?.comments.map(node => node.comment.id)).toEqual([10, 20]);
+    expect(saved?.comments[0].replies.map(node => node.comment.id)).toEqual([11, 12]);
+    expect(saved?.comments[0].replies[0].replies[0].comment.id).toBe(13);
+    expect(mockIndexedDb.put).toHaveBeenCalledWith('savedStories', '1', jasmine.objectContaining({ story }));
+    expect(service.isSaved(1)).toBe(true);
+    expect(service.isSaving(1)).toBe(false);
+  });
+
+  it('should look up the comment ids of a story that came without them', async () => {
+    mockHackerNewsService.withCommentIds.and.returnValue(of({ ...story, kids: [20] }));
+    let saved: SavedStory | undefined;
+
+    service.saveStory({ ...story, kids: undefined }).subscribe(result => saved = result);
+    await flushMicrotasks();
+
+    expect(saved?.story.kids).toEqual([20]);
+    expect(saved?.comments.map(node => node.comment.id)).toEqual([20]);
+  });
+
+  it('should clear the saving state when a download fails', () => {
+    mockHackerNewsService.getComments.and.returnValue(throwError(() => new Error('offline')));
+
+    service.saveStory(story).subscribe({ error: () => {} });
+
+    expect(service.isSaving(1)).toBe(false);
+    expect(service.isSaved(1)).toBe(false);
+  });
+
+  it('should leave out a comment that fails to load and keep the rest', async () => {
+    mockHackerNewsService.getComments.and.callFake((ids: number[]) => ids[0] === 11
+      ? throwError(() => new Error('timeout'))
+      : of(ids.map(id => comments.get(id)).filter((found): found is StoryComment => !!found)));
+    let saved: SavedStory | undefined;
+
+    service.saveStory(story).subscribe(result => saved = result);
+    await flushMicrotasks();
+
+    expect(saved?.comments.map(node => node.comment.id)).toEqual([10, 20]);
+    expect(saved?.comments[0].replies.map(node => node.comment.id)).toEqual([12]);
+    expect(service.isSaved(1)).toBe(true);
+  });
+
+  it('should keep only a few comment requests in flight at once', () => {
+    const pending: Subject<StoryComment[]>[] = [];
+    mockHackerNewsService.getComments.and.callFake(() => {
+      const response = new Subject<StoryComment[]>();
+      pending.push(response);
+      return response;
+    });
+    const kids = Array.from({ length: 20 }, (_, index) => 100 + index);
+
+    service.saveStory({ ...story, kids }).subscribe();
+    expect(pending.length).toBe(COMMENT_FETCH_CONCURRENCY);
+
+    pending[0].next([comment(100)]);
+    pending[0].complete();
+    expect(pending.length).toBe(COMMENT_FETCH_CONCURRENCY + 1);
+  });
+
+  it('should stop at the depth and count limits', async () => {
+    mockHackerNewsService.getComments.and.callFake((ids: number[]) => of([comment(ids[0], [ids[0] + 1])]));
+    let saved: SavedStory | undefined;
+
+    service.saveStory({ ...story, kids: [1000] }).subscribe(result => saved = result);
+    await flushMicrotasks();
+
+    let depth = 0;
+    for (let nodes = saved?.comments ?? []; nodes.length > 0; nodes = nodes[0].replies) {
+      depth++;
+    }
+    expect(depth).toBe(MAX_SAVED_COMMENT_DEPTH);
+
+    mockHackerNewsService.getComments.calls.reset();
+    mockHackerNewsService.getComments.and.callFake((ids: number[]) => of([comment(ids[0])]));
+    const kids = Array.from({ length: MAX_SAVED_COMMENTS + 50 }, (_, index) => 5000 + index);
+
+    service.saveStory({ ...story, kids }).subscribe(result => saved = result);
+    await flushMicrotasks();
+
+    expect(mockHackerNewsService.getComments).toHaveBeenCalledTimes(MAX_SAVED_COMMENTS);
+    expect(saved?.comments.length).toBe(MAX_SAVED_COMMENTS);
+  });
+
+  it('should remove saved stories', async () => {
+    service.saveStory(story).subscribe();
+    await flushMicrotasks();
+
+    await service.removeStory(1);
+
+    expect(mockIndexedDb.delete).toHaveBeenCalledWith('savedStories', '1');
+    expect(service.isSaved(1)).toBe(false);
+  });
+
+  it('should load previously saved stories newest first', async () => {
+    mockIndexedDb.getAll.and.returnValue(Promise.resolve([
+      { key: '1', value: { story, comments: [], savedAt: 1 } },
+      { key: '2', value: { story: { ...story, id: 2 }, comments: [], savedAt: 2 } }
+    ]));
+
+    const fresh = TestBed.runInInjectionContext(() => new OfflineStoriesService());
+    await flushMicrotasks();
+
+    expect(fresh.savedStories().map(saved => saved.story.id)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,140 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { EMPTY, Observable, from, throwError } from 'rxjs';
+import { catchError, expand, map, mergeMap, switchMap, tap, toArray } from 'rxjs/operators';
+import { HackerNewsService } from './hackernews.service';
+import { IndexedDbService } from './indexed-db.service';
+import { Story } from '../models/story.model';
+import { StoryComment, StoryCommentNode } from '../models/comment.model';
+
+/** Comment requests in flight at once while a thread is saved. */
+export const COMMENT_FETCH_CONCURRENCY = 6;
+
+/** Replies nested deeper than this are left out of a saved copy. */
+export const MAX_SAVED_COMMENT_DEPTH = 20;
+
+/** A saved copy keeps at most this many comments, the earliest ones in thread order. */
+export const MAX_SAVED_COMMENTS = 1000;
+
+export interface SavedStory {
+  story: Story;
+  comments: StoryCommentNode[];
+  savedAt: number;
+}
+
+/**
+ * Stories saved for offline reading, together with their full comment trees.
+ * The saved copies live in IndexedDB; the signals mirror what is stored.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class OfflineStoriesService {
+  private readonly hackerNewsService = inject(HackerNewsService);
+  private readonly indexedDb = inject(IndexedDbService);
+
+  readonly savedStories = signal<SavedStory[]>([]);
+  readonly savingIds = signal<ReadonlySet<number>>(new Set());
+  readonly savedIds = computed(() => new Set(this.savedStories().map(saved => saved.story.id)));
+
+  constructor() {
+    this.refresh();
+  }
+
+  isSaved(id: number): boolean {
+    return this.savedIds().has(id);
+  }
+
+  isSaving(id: number): boolean {
+    return this.savingIds().has(id);
+  }
+
+  /** Downloads the comment tree, within the saved-copy limits, and stores it next to the story. */
+  saveStory(story: Story): Observable<SavedStory> {
+    this.setSaving(story.id, true);
+
+    return this.hackerNewsService.withCommentIds(story).pipe(
+      switchMap(withIds => this.fetchCommentTree(withIds.kids ?? []).pipe(
+        map(comments => ({ story: withIds, comments, savedAt: Date.now() }))
+      )),
+      switchMap(saved => from(this.indexedDb.put('savedStories', String(story.id), saved)).pipe(map(() => saved))),
+      tap({
+        next: saved => {
+          this.savedStories.update(stories => [saved, ...stories.filter(existing => existing.story.id !== story.id)]);
+          this.setSaving(story.id, false);
+        },
+        error: () => this.setSaving(story.id, false)
+      })
+    );
+  }
+
+  async removeStory(id: number): Promise<void> {
+    await this.indexedDb.delete('savedStories', String(id));
+    this.savedStories.update(stories => stories.filter(saved => saved.story.id !== id));
+  }
+
+  getSavedStory(id: number): Promise<SavedStory | undefined> {
+    return this.indexedDb.get<SavedStory>('savedStories', String(id));
+  }
+
+  private async refresh(): Promise<void> {
+    const records = await this.indexedDb.getAll<SavedStory>('savedStories');
+    this.savedStories.set(records.map(record => record.value).sort((a, b) => b.savedAt - a.savedAt));
+  }
+
+  /**
+   * Fetches comments one by one, a few at a time, within the depth and count
+   * limits. A comment that fails to load is left out with its replies; the
+   * save only fails when not a single comment could be fetched.
+   */
+  private fetchCommentTree(rootIds: number[]): Observable<StoryCommentNode[]> {
+    const fetched = new Map<number, StoryComment>();
+    let budget = MAX_SAVED_COMMENTS;
+    let lastError: unknown = null;
+
+    const queue = (ids: number[], depth: number): { id: number; depth: number }[] => {
+      if (depth >= MAX_SAVED_COMMENT_DEPTH) {
+        return [];
+      }
+      const allowed = ids.slice(0, Math.max(budget, 0));
+      budget -= allowed.length;
+      return allowed.map(id => ({ id, depth }));
+    };
+
+    const fetchComment = (id: number): Observable<StoryComment> => this.hackerNewsService.getComments([id]).pipe(
+      mergeMap(comments => from(comments)),
+      // getComments has logged the failure already
+      catchError(err => {
+        lastError = err;
+        return EMPTY;
+      })
+    );
+
+    const buildTree = (ids: number[]): StoryCommentNode[] => ids
+      .map(id => fetched.get(id))
+      .filter((comment): comment is StoryComment => !!comment)
+      .map(comment => ({ comment, replies: buildTree(comment.kids ?? []) }));
+
+    return from(queue(rootIds, 0)).pipe(
+      expand(pending => fetchComment(pending.id).pipe(
+        tap(comment => fetched.set(comment.id, comment)),
+        mergeMap(comment => from(queue(comment.kids ?? [], pending.depth + 1)))
+      ), COMMENT_FETCH_CONCURRENCY),
+      toArray(),
+      switchMap(() => fetched.size === 0 && lastError !== null
+        ? throwError(() => lastError)
+        : [buildTree(rootIds)])
+    );
+  }
+
+  private setSaving(id: number, saving: boolean) {
+    this.savingIds.update(ids => {
+      const next = new Set(ids);
+      if (saving) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  }
+}
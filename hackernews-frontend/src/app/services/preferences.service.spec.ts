@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { PreferencesService, DEFAULT_PREFERENCES, PREFERENCES_VERSION } from './preferences.service';
+import { SearchSortOrder } from '../models/story.model';
+import { AppLocale } from '../models/preferences.model';
+
+describe('PreferencesService', () => {
+  const storageKeys = ['hn.preferences', 'hn.theme', 'hn.density', 'hn.storyLayout'];
+
+  const createService = (): PreferencesService => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    return TestBed.inject(PreferencesService);
+  };
+
+  const stored = () => JSON.parse(localStorage.getItem('hn.preferences')!);
+
+  beforeEach(() => storageKeys.forEach(key => localStorage.removeItem(key)));
+  afterEach(() => storageKeys.forEach(key => localStorage.removeItem(key)));
+
+  it('should start from the defaults without writing them', () => {
+    const service = createService();
+
+    expect(service.preferences()).toEqual(DEFAULT_PREFERENCES);
+    expect(localStorage.getItem('hn.preferences')).toBeNull();
+  });
+
+  it('should persist updates as a versioned document', () => {
+    const service = createService();
+
+    service.update({ pageSize: 50, defaultSort: SearchSortOrder.Score, defaultFilters: { minScore: 100 } });
+
+    expect(stored().version).toBe(PREFERENCES_VERSION);
+    const reloaded = createService().preferences();
+    expect(reloaded.pageSize).toBe(50);
+    expect(reloaded.defaultSort).toBe(SearchSortOrder.Score);
+    expect(reloaded.defaultFilters).toEqual({ minScore: 100 });
+  });
+
+  it('should drop invalid values on update', () => {
+    const service = createService();
+
+    service.update({ pageSize: 7, locale: 'fr' as AppLocale, defaultFilters: { fromDate: 'soon', minScore: -1, authors: [' pg ', '', 'pg'] } });
+
+    expect(service.preferences().pageSize).toBe(DEFAULT_PREFERENCES.pageSize);
+    expect(service.preferences().locale).toBe(DEFAULT_PREFERENCES.locale);
+    expect(service.preferences().defaultFilters).toEqual({ authors: ['pg'] });
+  });
+
+  it('should migrate the legacy display settings and remove their keys', () => {
+    localStorage.setItem('hn.theme', JSON.stringify('dark'));
+    localStorage.setItem('hn.storyLayout', JSON.stringify('classic'));
+
+    const service = createService();
+
+    expect(service.preferences().theme).toBe('dark');
+    expect(service.preferences().layout).toBe('classic');
+    expect(service.preferences().density).toBe('comfortable');
+    expect(stored().version).toBe(PREFERENCES_VERSION);
+    expect(localStorage.getItem('hn.theme')).toBeNull();
+    expect(localStorage.getItem('hn.storyLayout')).toBeNull();
+  });
+
+  it('should fall back to the defaults when the stored document is from a newer version', () => {
+    localStorage.setItem('hn.preferences', JSON.stringify({ version: PREFERENCES_VERSION + 1, pageSize: 50 }));
+    spyOn(console, 'error');
+
+    expect(createService().preferences()).toEqual(DEFAULT_PREFERENCES);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('should export and import preferences as JSON', () => {
+    const service = createService();
+    service.update({ timeDisplay: 'absolute', linkTarget: 'same-tab', defaultFilters: { excludedDomains: ['medium.com'] } });
+    const json = service.exportJson();
+
+    service.reset();
+    expect(service.preferences()).toEqual(DEFAULT_PREFERENCES);
+
+    service.importJson(json);
+    expect(service.preferences().timeDisplay).toBe('absolute');
+    expect(service.preferences().linkTarget).toBe('same-tab');
+    expect(service.preferences().defaultFilters).toEqual({ excludedDomains: ['medium.com'] });
+    expect(createService().preferences().timeDisplay).toBe('absolute');
+  });
+
+  it('should migrate imports from older versions and fill in what they lack', () => {
+    const service = createService();
+
+    service.importJson(JSON.stringify({ version: 0, storyLayout: 'classic', theme: 'sepia' }));
+
+    expect(service.preferences().layout).toBe('classic');
+    expect(service.preferences().theme).toBe(DEFAULT_PREFERENCES.theme);
+  });
+
+  it('should reject imports it cannot read and keep the current preferences', () => {
+    const service = createService();
+    service.update({ pageSize: 50 });
+
+    expect(() => service.importJson('{ nope')).toThrowError('The file is not valid JSON.');
+    expect(() => service.importJson('[1, 2]')).toThrowError('The file does not contain preferences.');
+    expect(() => service.importJson(JSON.stringify({ version: PREFERENCES_VERSION + 1 })))
+      .toThrowError('The preferences were saved by a newer version of the app.');
+    expect(service.preferences().pageSize).toBe(50);
+  });
+
+  it('should format times and link targets as preferred', () => {
+    const service = createService();
+    const twoHoursAgo = Math.floor(Date.now() / 1000) - 2 * 60 * 60;
+
+    expect(service.formatTime(twoHoursAgo)).toBe('2h ago');
+    expect(service.anchorTarget()).toBe('_blank');
+
+    service.update({ timeDisplay: 'absolute', linkTarget: 'same-tab' });
+
+    expect(service.formatTime(twoHoursAgo)).not.toContain('ago');
+    expect(service.anchorTarget()).toBe('_self');
+
+    service.update({ timeDisplay: 'relative', locale: 'de' });
+
+    expect(service.formatTime(twoHoursAgo)).toBe('vor 2 Std.');
+  });
+});
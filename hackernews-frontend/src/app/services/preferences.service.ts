@@ -0,0 +1,213 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LocalStorageService } from './local-storage.service';
+import { isDateFilterValue } from '../utils/date-filter';
+import { formatDateTime, formatTimeAgo } from '../utils/story-format';
+import {
+  AppLocale,
+  DensitySetting,
+  LinkTarget,
+  Preferences,
+  PreferencesDocument,
+  StoryLayout,
+  ThemeSetting,
+  TimeDisplay
+} from '../models/preferences.model';
+import { SearchFilters, SearchSortOrder } from '../models/story.model';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const PAGE_SIZE_OPTIONS = [10, 20, 30, 50, 100];
+
+export const THEME_SETTINGS: ThemeSetting[] = ['light', 'dark', 'system'];
+export const DENSITY_SETTINGS: DensitySetting[] = ['comfortable', 'compact'];
+export const STORY_LAYOUTS: StoryLayout[] = ['cards', 'classic'];
+export const LINK_TARGETS: LinkTarget[] = ['new-tab', 'same-tab'];
+export const TIME_DISPLAYS: TimeDisplay[] = ['relative', 'absolute'];
+export const APP_LOCALES: AppLocale[] = ['en', 'de'];
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  pageSize: DEFAULT_PAGE_SIZE,
+  defaultSort: SearchSortOrder.Relevance,
+  defaultFilters: {},
+  linkTarget: 'new-tab',
+  timeDisplay: 'relative',
+  theme: 'system',
+  density: 'comfortable',
+  layout: 'cards',
+  locale: 'en'
+};
+
+/** Schema version written with stored and exported preferences. */
+export const PREFERENCES_VERSION = 1;
+
+const PREFERENCES_STORAGE_KEY = 'preferences';
+
+/** Keys the display settings had to themselves before preferences were versioned. */
+const LEGACY_STORAGE_KEYS = ['theme', 'density', 'storyLayout'];
+
+const LIST_FILTER_KEYS = ['authors', 'excludedAuthors', 'domains', 'excludedDomains'] as const;
+
+type PreferencesRecord = Record<string, unknown>;
+
+/** Entry `n` upgrades a version `n` document to version `n + 1`. */
+const MIGRATIONS: ((document: PreferencesRecord) => PreferencesRecord)[] = [
+  // Version 0 is the legacy display settings, read from their own keys
+  ({ storyLayout, ...document }) => ({ ...document, layout: storyLayout })
+];
+
+function isRecord(value: unknown): value is PreferencesRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick<T>(value: unknown, allowed: readonly T[], fallback: T): T {
+  return allowed.includes(value as T) ? value as T : fallback;
+}
+
+/**
+ * User preferences, kept as one versioned document in local storage. Older
+ * documents and imports are migrated to the current schema, and anything
+ * missing or invalid falls back to its default.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PreferencesService {
+  private readonly localStorage = inject(LocalStorageService);
+
+  private readonly state = signal<Preferences>(this.load());
+  readonly preferences = this.state.asReadonly();
+  /** The `target` for links to story articles. */
+  readonly anchorTarget = computed(() => this.state().linkTarget === 'new-tab' ? '_blank' : '_self');
+
+  update(changes: Partial<Preferences>) {
+    this.state.set(this.sanitize({ ...this.state(), ...changes }));
+    this.save();
+  }
+
+  reset() {
+    this.state.set(DEFAULT_PREFERENCES);
+    this.save();
+  }
+
+  /** A story or comment time the way the user prefers to read it. */
+  formatTime(date: Date | string | number): string {
+    const { timeDisplay, locale } = this.state();
+    return timeDisplay === 'absolute' ? formatDateTime(date, locale) : formatTimeAgo(date, locale);
+  }
+
+  exportJson(): string {
+    return JSON.stringify(this.toDocument(), null, 2);
+  }
+
+  /** Replaces every preference with the imported ones; a file without a version is read as the current one. */
+  importJson(json: string) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json);
+    } catch {
+      throw new Error('The file is not valid JSON.');
+    }
+
+    if (!isRecord(data)) {
+      throw new Error('The file does not contain preferences.');
+    }
+
+    this.state.set(this.upgrade({ version: PREFERENCES_VERSION, ...data }));
+    this.save();
+  }
+
+  private load(): Preferences {
+    const stored = this.localStorage.getItem<unknown>(PREFERENCES_STORAGE_KEY, null);
+    const document = isRecord(stored) ? stored : this.loadLegacy();
+    if (!document) {
+      return DEFAULT_PREFERENCES;
+    }
+
+    try {
+      const preferences = this.upgrade(document);
+      if (document['version'] !== PREFERENCES_VERSION) {
+        this.localStorage.setItem(PREFERENCES_STORAGE_KEY, { version: PREFERENCES_VERSION, ...preferences });
+        LEGACY_STORAGE_KEYS.forEach(key => this.localStorage.removeItem(key));
+      }
+      return preferences;
+    } catch (err) {
+      console.error('Error reading stored preferences:', err);
+      return DEFAULT_PREFERENCES;
+    }
+  }
+
+  /** A version 0 document from the legacy keys, or null when none were ever written. */
+  private loadLegacy(): PreferencesRecord | null {
+    const entries = LEGACY_STORAGE_KEYS
+      .map(key => [key, this.localStorage.getItem<unknown>(key, null)] as const)
+      .filter(([, value]) => value !== null);
+    return entries.length > 0 ? { version: 0, ...Object.fromEntries(entries) } : null;
+  }
+
+  private upgrade(document: PreferencesRecord): Preferences {
+    const version = document['version'];
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+      throw new Error('The preferences have an invalid version.');
+    }
+    if (version > PREFERENCES_VERSION) {
+      throw new Error('The preferences were saved by a newer version of the app.');
+    }
+
+    return this.sanitize(MIGRATIONS.slice(version).reduce((upgraded, migrate) => migrate(upgraded), document));
+  }
+
+  private sanitize(document: PreferencesRecord): Preferences {
+    return {
+      pageSize: pick(document['pageSize'], PAGE_SIZE_OPTIONS, DEFAULT_PREFERENCES.pageSize),
+      defaultSort: pick(document['defaultSort'], Object.values(SearchSortOrder), DEFAULT_PREFERENCES.defaultSort),
+      defaultFilters: this.sanitizeFilters(document['defaultFilters']),
+      linkTarget: pick(document['linkTarget'], LINK_TARGETS, DEFAULT_PREFERENCES.linkTarget),
+      timeDisplay: pick(document['timeDisplay'], TIME_DISPLAYS, DEFAULT_PREFERENCES.timeDisplay),
+      theme: pick(document['theme'], THEME_SETTINGS, DEFAULT_PREFERENCES.theme),
+      density: pick(document['density'], DENSITY_SETTINGS, DEFAULT_PREFERENCES.density),
+      layout: pick(document['layout'], STORY_LAYOUTS, DEFAULT_PREFERENCES.layout),
+      locale: pick(document['locale'], APP_LOCALES, DEFAULT_PREFERENCES.locale)
+    };
+  }
+
+  /** Keeps only filters a search could carry in its URL. */
+  private sanitizeFilters(value: unknown): SearchFilters {
+    if (!isRecord(value)) {
+      return {};
+    }
+
+    const filters: SearchFilters = {};
+    (['fromDate', 'toDate'] as const).forEach(key => {
+      const date = value[key];
+      if (typeof date === 'string' && isDateFilterValue(date)) {
+        filters[key] = date.trim();
+      }
+    });
+    (['minScore', 'maxScore'] as const).forEach(key => {
+      const score = value[key];
+      if (typeof score === 'number' && Number.isInteger(score) && score >= 0) {
+        filters[key] = score;
+      }
+    });
+    LIST_FILTER_KEYS.forEach(key => {
+      const list = value[key];
+      const values = Array.isArray(list)
+        ? list.filter((item): item is string => typeof item === 'string').map(item => item.trim()).filter(item => item)
+        : [];
+      if (values.length > 0) {
+        filters[key] = Array.from(new Set(values));
+      }
+    });
+    if (typeof value['hasUrl'] === 'boolean') {
+      filters.hasUrl = value['hasUrl'];
+    }
+    return filters;
+  }
+
+  private toDocument(): PreferencesDocument {
+    return { version: PREFERENCES_VERSION, ...this.state() };
+  }
+
+  private save() {
+    this.localStorage.setItem(PREFERENCES_STORAGE_KEY, this.toDocument());
+  }
+}
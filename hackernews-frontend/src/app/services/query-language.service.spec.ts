@@ -0,0 +1,182 @@
+import { TestBed } from '@angular/core/testing';
+import { QueryLanguageService } from './query-language.service';
+import { PreferencesService } from './preferences.service';
+import { SearchSortOrder } from '../models/story.model';
+
+describe('QueryLanguageService', () => {
+  let service: QueryLanguageService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(QueryLanguageService);
+  });
+
+  describe('parse', () => {
+    it('should parse the full operator set', () => {
+      const parsed = service.parse(
+        'author:pg domain:github.com score:>100 after:2025-01-01 has:url sort:comments "exact phrase" -excluded'
+      );
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.filters).toEqual({
+        authors: ['pg'],
+        domains: ['github.com'],
+        minScore: 101,
+        fromDate: '2025-01-01',
+        hasUrl: true
+      });
+      expect(parsed.sortBy).toBe(SearchSortOrder.Comments);
+      expect(parsed.phrases).toEqual(['exact phrase']);
+      expect(parsed.excluded).toEqual(['excluded']);
+      expect(parsed.text).toBe('"exact phrase" -excluded');
+    });
+
+    it('should keep plain text and collapse whitespace', () => {
+      const parsed = service.parse('  rust   compiler  ');
+
+      expect(parsed.text).toBe('rust compiler');
+      expect(parsed.filters).toEqual({});
+    });
+
+    it('should parse score comparisons and ranges', () => {
+      expect(service.parse('score:>=10').filters).toEqual({ minScore: 10 });
+      expect(service.parse('score:<10').filters).toEqual({ maxScore: 9 });
+      expect(service.parse('score:<=10').filters).toEqual({ maxScore: 10 });
+      expect(service.parse('score:42').filters).toEqual({ minScore: 42, maxScore: 42 });
+      expect(service.parse('score:10..50').filters).toEqual({ minScore: 10, maxScore: 50 });
+    });
+
+    it('should parse before dates, excluded links and sort aliases', () => {
+      const parsed = service.parse('before:2024-12-31 -has:url sort:new');
+
+      expect(parsed.filters).toEqual({ toDate: '2024-12-31', hasUrl: false });
+      expect(parsed.sortBy).toBe(SearchSortOrder.Recent);
+    });
+
+    it('should keep relative dates and hours as written', () => {
+      expect(service.parse('after:-7d before:today').filters).toEqual({ fromDate: '-7d', toDate: 'today' });
+      expect(service.parse('after:2025-01-31T14:00').filters).toEqual({ fromDate: '2025-01-31T14:00' });
+    });
+
+    it('should normalize domains the way story cards show them', () => {
+      expect(service.parse('domain:https://www.github.com/foo').filters.domains).toEqual(['github.com']);
+    });
+
+    it('should collect repeated and negated authors and domains', () => {
+      const parsed = service.parse('author:pg author:dang -author:bot author:pg domain:github.com domain:gitlab.com -domain:medium.com');
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.filters).toEqual({
+        authors: ['pg', 'dang'],
+        excludedAuthors: ['bot'],
+        domains: ['github.com', 'gitlab.com'],
+        excludedDomains: ['medium.com']
+      });
+    });
+
+    it('should keep excluded phrases in the text', () => {
+      const parsed = service.parse('rust -"hype train"');
+
+      expect(parsed.excluded).toEqual(['hype train']);
+      expect(parsed.text).toBe('rust -"hype train"');
+    });
+
+    it('should report errors with their position', () => {
+      const input = 'rust score:lots has:comments';
+      const parsed = service.parse(input);
+
+      expect(parsed.errors.map(error => input.slice(error.start, error.end))).toEqual(['score:lots', 'has:comments']);
+      expect(parsed.errors[1].message).toBe('Use "has:url" or "-has:url"');
+    });
+
+    it('should keep words that only look like operators as text', () => {
+      const text = (input: string) => {
+        const parsed = service.parse(input);
+        expect(parsed.errors).withContext(input).toEqual([]);
+        expect(parsed.filters).withContext(input).toEqual({});
+        return parsed.text;
+      };
+
+      expect(text('Show HN: a tiny database')).toBe('Show HN: a tiny database');
+      expect(text('Ask HN: how do you test?')).toBe('Ask HN: how do you test?');
+      expect(text('Tell HN: goodbye')).toBe('Tell HN: goodbye');
+      expect(text('http://example.com/post rust')).toBe('http://example.com/post rust');
+      expect(service.parse('Show HN: author:pg').filters).toEqual({ authors: ['pg'] });
+    });
+
+    it('should report invalid values', () => {
+      const messages = (input: string) => service.parse(input).errors.map(error => error.message);
+
+      expect(messages('author:')).toEqual(['"author:" needs a value']);
+      expect(messages('after:lastweek')).toEqual([
+        'Use a date like 2025-01-31, an hour like 2025-01-31T14 or a relative date like -7d for "after:"'
+      ]);
+      expect(messages('before:2025-02-31')[0]).toContain('for "before:"');
+      expect(messages('after:2025-01-31T25')[0]).toContain('for "after:"');
+      expect(messages('has:comments')).toEqual(['Use "has:url" or "-has:url"']);
+      expect(messages('sort:random')[0]).toContain('Sort by one of');
+      expect(messages('score:50..10')).toEqual(['The lower score must come first']);
+      expect(messages('domain:localhost')).toEqual(['"localhost" is not a domain']);
+      expect(messages('-score:10')).toEqual(['"score:" can\'t be excluded']);
+    });
+
+    it('should report errors in the language picked', () => {
+      TestBed.inject(PreferencesService).update({ locale: 'de' });
+
+      expect(service.parse('author:').errors[0].message).toBe('„author:“ braucht einen Wert');
+      expect(service.parse('rust "open').errors[0].message).toBe('Schließendes Anführungszeichen fehlt');
+
+      localStorage.removeItem('hn.preferences');
+      document.documentElement.lang = 'en';
+    });
+
+    it('should report unterminated quotes and dangling minus signs', () => {
+      const input = 'rust - "open';
+      const parsed = service.parse(input);
+
+      expect(parsed.errors.map(error => error.message)).toEqual(['Nothing to exclude after "-"', 'Missing closing quote']);
+      expect(input.slice(parsed.errors[1].start, parsed.errors[1].end)).toBe('"open');
+    });
+  });
+
+  it('should send only plain terms to the API', () => {
+    expect(service.toApiText('rust "exact phrase" -excluded -"not this"')).toBe('rust exact phrase');
+  });
+
+  it('should match titles against phrases and exclusions', () => {
+    const matches = service.createTitleMatcher('"type system" -haskell')!;
+
+    expect(matches('A Type System for Rust')).toBe(true);
+    expect(matches('A type for the system')).toBe(false);
+    expect(matches('Type system of Haskell')).toBe(false);
+    expect(service.createTitleMatcher('rust')).toBeNull();
+  });
+
+  it('should split text into highlighted segments', () => {
+    const input = 'rust sort:random now';
+    const segments = service.highlight(input, service.parse(input).errors);
+
+    expect(segments).toEqual([
+      { text: 'rust ', error: null },
+      { text: 'sort:random', error: 'Sort by one of relevance, score, recent, new, oldest, comments' },
+      { text: ' now', error: null }
+    ]);
+  });
+
+  it('should describe active filters as operator chips', () => {
+    const chips = service.toOperatorChips(
+      { authors: ['pg', 'dang'], excludedDomains: ['medium.com'], minScore: 10, fromDate: new Date(2025, 0, 5) as unknown as string, hasUrl: false },
+      SearchSortOrder.Score
+    );
+
+    expect(chips).toEqual([
+      { control: 'authors', label: 'author:pg', value: 'pg' },
+      { control: 'authors', label: 'author:dang', value: 'dang' },
+      { control: 'excludedDomains', label: '-domain:medium.com', value: 'medium.com' },
+      { control: 'minScore', label: 'score:>=10' },
+      { control: 'fromDate', label: 'after:2025-01-05' },
+      { control: 'hasUrl', label: '-has:url' },
+      { control: 'sortBy', label: 'sort:score' }
+    ]);
+  });
+});
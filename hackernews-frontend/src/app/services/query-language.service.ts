@@ -0,0 +1,336 @@
+import { Injectable, inject } from '@angular/core';
+import { I18nService } from './i18n.service';
+import { SearchFilters, SearchSortOrder } from '../models/story.model';
+import { getDomainFromUrl } from '../utils/story-format';
+import { isDateFilterValue, toDayValue } from '../utils/date-filter';
+
+export interface QuerySyntaxError {
+  message: string;
+  /** Offsets into the parsed text, end exclusive. */
+  start: number;
+  end: number;
+}
+
+export interface ParsedSearchText {
+  /** Free text with operators removed; phrases and exclusions are kept. */
+  text: string;
+  filters: SearchFilters;
+  sortBy?: SearchSortOrder;
+  phrases: string[];
+  excluded: string[];
+  errors: QuerySyntaxError[];
+}
+
+/** A filter shown as an operator chip; `control` is the filter form control it comes from. */
+export interface QueryOperatorChip {
+  control: keyof SearchFilters | 'sortBy';
+  label: string;
+  /** For list filters, the entry of the list this chip stands for. */
+  value?: string;
+}
+
+export interface HighlightedSegment {
+  text: string;
+  error: string | null;
+}
+
+interface Token {
+  kind: 'word' | 'phrase' | 'operator';
+  value: string;
+  negated: boolean;
+  start: number;
+  end: number;
+}
+
+const SORT_VALUES: Record<string, SearchSortOrder> = {
+  relevance: SearchSortOrder.Relevance,
+  score: SearchSortOrder.Score,
+  recent: SearchSortOrder.Recent,
+  new: SearchSortOrder.Recent,
+  oldest: SearchSortOrder.Oldest,
+  comments: SearchSortOrder.Comments
+};
+
+const OPERATORS = ['author', 'domain', 'score', 'after', 'before', 'has', 'sort'];
+
+/** Operators that can be negated; the others have no opposite. */
+const NEGATABLE_OPERATORS = ['author', 'domain', 'has'];
+
+/**
+ * Parses the search box mini language, e.g.
+ * `author:pg domain:github.com score:>100 after:2025-01-01 has:url sort:comments "exact phrase" -excluded`.
+ * Operators map onto SearchFilters; `author:` and `domain:` can be repeated
+ * to match any of several values, and negated (`-author:bot`) to exclude one;
+ * `after:` and `before:` also take hours and relative dates such as `-7d`; phrases and exclusions stay in the text
+ * and are matched against titles on the client, since the search API only
+ * takes plain terms.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class QueryLanguageService {
+  private readonly i18n = inject(I18nService);
+
+  parse(input: string): ParsedSearchText {
+    const parsed: ParsedSearchText = { text: '', filters: {}, phrases: [], excluded: [], errors: [] };
+    const textParts: string[] = [];
+
+    for (const token of this.tokenize(input, parsed.errors)) {
+      if (token.kind === 'operator') {
+        this.applyOperator(token, parsed);
+      } else if (token.negated) {
+        parsed.excluded.push(token.value);
+        textParts.push(token.kind === 'phrase' ? `-"${token.value}"` : `-${token.value}`);
+      } else if (token.kind === 'phrase') {
+        parsed.phrases.push(token.value);
+        textParts.push(`"${token.value}"`);
+      } else {
+        textParts.push(token.value);
+      }
+    }
+
+    parsed.text = textParts.join(' ');
+    parsed.errors.sort((a, b) => a.start - b.start);
+    return parsed;
+  }
+
+  /** The terms the search API understands: plain words and the words of each phrase. */
+  toApiText(text: string): string {
+    return this.tokenize(text, [])
+      .filter(token => token.kind !== 'operator' && !token.negated)
+      .map(token => token.value)
+      .join(' ');
+  }
+
+  /** Parses `text` once for matching many titles; null when it has no phrases or exclusions. */
+  createTitleMatcher(text: string): ((title: string) => boolean) | null {
+    const { phrases, excluded } = this.parse(text);
+    if (phrases.length === 0 && excluded.length === 0) {
+      return null;
+    }
+
+    const required = phrases.map(phrase => phrase.toLowerCase());
+    const forbidden = excluded.map(term => term.toLowerCase());
+    return (title: string) => {
+      const lowerTitle = title.toLowerCase();
+      return required.every(phrase => lowerTitle.includes(phrase))
+        && !forbidden.some(term => lowerTitle.includes(term));
+    };
+  }
+
+  /** Splits `input` so that the parts covered by a syntax error can be highlighted. */
+  highlight(input: string, errors: QuerySyntaxError[]): HighlightedSegment[] {
+    const segments: HighlightedSegment[] = [];
+    let position = 0;
+
+    [...errors].sort((a, b) => a.start - b.start).forEach(error => {
+      if (error.start > position) {
+        segments.push({ text: input.slice(position, error.start), error: null });
+      }
+      if (error.end > Math.max(position, error.start)) {
+        segments.push({ text: input.slice(Math.max(position, error.start), error.end), error: error.message });
+        position = error.end;
+      }
+    });
+    if (position < input.length) {
+      segments.push({ text: input.slice(position), error: null });
+    }
+    return segments;
+  }
+
+  /** Operator form of the active filters, one chip per form control or list entry. */
+  toOperatorChips(filters: SearchFilters, sortBy?: SearchSortOrder): QueryOperatorChip[] {
+    const chips: QueryOperatorChip[] = [];
+
+    filters.authors?.forEach(value => chips.push({ control: 'authors', label: `author:${value}`, value }));
+    filters.excludedAuthors?.forEach(value => chips.push({ control: 'excludedAuthors', label: `-author:${value}`, value }));
+    filters.domains?.forEach(value => chips.push({ control: 'domains', label: `domain:${value}`, value }));
+    filters.excludedDomains?.forEach(value => chips.push({ control: 'excludedDomains', label: `-domain:${value}`, value }));
+    if (filters.minScore !== undefined) chips.push({ control: 'minScore', label: `score:>=${filters.minScore}` });
+    if (filters.maxScore !== undefined) chips.push({ control: 'maxScore', label: `score:<=${filters.maxScore}` });
+    if (filters.fromDate) chips.push({ control: 'fromDate', label: `after:${this.formatDate(filters.fromDate)}` });
+    if (filters.toDate) chips.push({ control: 'toDate', label: `before:${this.formatDate(filters.toDate)}` });
+    if (filters.hasUrl !== undefined) chips.push({ control: 'hasUrl', label: filters.hasUrl ? 'has:url' : '-has:url' });
+    if (sortBy && sortBy !== SearchSortOrder.Relevance) {
+      chips.push({ control: 'sortBy', label: `sort:${sortBy.toLowerCase()}` });
+    }
+
+    return chips;
+  }
+
+  /** The host of a domain or URL, e.g. `github.com` for `https://www.github.com/foo`; null when it isn't one. */
+  toDomain(value: string): string | null {
+    const domain = getDomainFromUrl(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+    return domain.includes('.') ? domain : null;
+  }
+
+  private tokenize(input: string, errors: QuerySyntaxError[]): Token[] {
+    const tokens: Token[] = [];
+    let position = 0;
+
+    while (position < input.length) {
+      if (/\s/.test(input[position])) {
+        position++;
+        continue;
+      }
+
+      const start = position;
+      const negated = input[position] === '-';
+      if (negated) {
+        position++;
+        if (position >= input.length || /\s/.test(input[position])) {
+          errors.push({ message: this.i18n.t('Nothing to exclude after "-"'), start, end: position });
+          continue;
+        }
+      }
+
+      if (input[position] === '"') {
+        const close = input.indexOf('"', position + 1);
+        if (close === -1) {
+          errors.push({ message: this.i18n.t('Missing closing quote'), start, end: input.length });
+          break;
+        }
+        const value = input.slice(position + 1, close).trim().replace(/\s+/g, ' ');
+        if (value) {
+          tokens.push({ kind: 'phrase', value, negated, start, end: close + 1 });
+        }
+        position = close + 1;
+        continue;
+      }
+
+      let end = position;
+      while (end < input.length && !/\s/.test(input[end])) {
+        end++;
+      }
+      const word = input.slice(position, end);
+      position = end;
+
+      // Only known operator names count, so "Show HN:" or a pasted URL stay free text
+      const operatorMatch = word.match(/^([a-zA-Z]+):(.*)$/);
+      const field = operatorMatch?.[1].toLowerCase();
+      if (!field || !OPERATORS.includes(field)) {
+        tokens.push({ kind: 'word', value: word, negated, start, end });
+        continue;
+      }
+
+      if (negated && !NEGATABLE_OPERATORS.includes(field)) {
+        errors.push({ message: this.i18n.t('"{operator}:" can\'t be excluded', { operator: field }), start, end });
+      } else {
+        tokens.push({ kind: 'operator', value: word, negated, start, end });
+      }
+    }
+
+    return tokens;
+  }
+
+  private applyOperator(token: Token, parsed: ParsedSearchText) {
+    const separator = token.value.indexOf(':');
+    const field = token.value.slice(0, separator).toLowerCase();
+    const value = token.value.slice(separator + 1);
+    const fail = (message: string) => parsed.errors.push({ message, start: token.start, end: token.end });
+
+    if (!value) {
+      fail(this.i18n.t('"{operator}:" needs a value', { operator: field }));
+      return;
+    }
+
+    switch (field) {
+      case 'author':
+        this.addListValue(parsed.filters, token.negated ? 'excludedAuthors' : 'authors', value);
+        break;
+      case 'domain': {
+        const domain = this.toDomain(value);
+        if (domain) {
+          this.addListValue(parsed.filters, token.negated ? 'excludedDomains' : 'domains', domain);
+        } else {
+          fail(this.i18n.t('"{value}" is not a domain', { value }));
+        }
+        break;
+      }
+      case 'score':
+        this.applyScore(value, parsed.filters, fail);
+        break;
+      case 'after':
+      case 'before':
+        if (!isDateFilterValue(value)) {
+          fail(this.i18n.t('Use a date like 2025-01-31, an hour like 2025-01-31T14 or a relative date like -7d for "{operator}:"', { operator: field }));
+        } else if (field === 'after') {
+          parsed.filters.fromDate = value;
+        } else {
+          parsed.filters.toDate = value;
+        }
+        break;
+      case 'has':
+        if (value.toLowerCase() === 'url') {
+          parsed.filters.hasUrl = !token.negated;
+        } else {
+          fail(this.i18n.t('Use "has:url" or "-has:url"'));
+        }
+        break;
+      case 'sort': {
+        const sortBy = SORT_VALUES[value.toLowerCase()];
+        if (sortBy) {
+          parsed.sortBy = sortBy;
+        } else {
+          fail(this.i18n.t('Sort by one of {values}', { values: Object.keys(SORT_VALUES).join(', ') }));
+        }
+        break;
+      }
+    }
+  }
+
+  private addListValue(
+    filters: SearchFilters,
+    key: 'authors' | 'excludedAuthors' | 'domains' | 'excludedDomains',
+    value: string
+  ) {
+    const values = filters[key] ?? [];
+    if (!values.includes(value)) {
+      filters[key] = [...values, value];
+    }
+  }
+
+  /** Accepts `100`, `>100`, `>=100`, `<100`, `<=100` and `100..500`. Scores are whole numbers. */
+  private applyScore(value: string, filters: SearchFilters, fail: (message: string) => void) {
+    const range = value.match(/^(\d+)\.\.(\d+)$/);
+    if (range) {
+      const [min, max] = [Number(range[1]), Number(range[2])];
+      if (min > max) {
+        fail(this.i18n.t('The lower score must come first'));
+        return;
+      }
+      filters.minScore = min;
+      filters.maxScore = max;
+      return;
+    }
+
+    const comparison = value.match(/^(>=|<=|>|<)?(\d+)$/);
+    if (!comparison) {
+      fail(this.i18n.t('Use a score like 100, >100, <=50 or 10..100'));
+      return;
+    }
+
+    const score = Number(comparison[2]);
+    switch (comparison[1]) {
+      case '>':
+        filters.minScore = score + 1;
+        break;
+      case '>=':
+        filters.minScore = score;
+        break;
+      case '<':
+        filters.maxScore = Math.max(score - 1, 0);
+        break;
+      case '<=':
+        filters.maxScore = score;
+        break;
+      default:
+        filters.minScore = score;
+        filters.maxScore = score;
+    }
+  }
+
+  private formatDate(value: Date | string): string {
+    return typeof value === 'string' ? value : toDayValue(value);
+  }
+}
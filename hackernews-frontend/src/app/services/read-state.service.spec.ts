@@ -0,0 +1,98 @@
+import { TestBed } from '@angular/core/testing';
+import { ReadStateService, MAX_READ_STORIES, READ_RETENTION_MS, VISIT_GAP_MS } from './read-state.service';
+import { makeStory } from '../testing/fixtures';
+
+describe('ReadStateService', () => {
+  const start = new Date('2025-01-10T12:00:00Z').getTime();
+
+  const storyAt = (id: number, time: number) => makeStory(id, { time: time / 1000, createdAt: new Date(time).toISOString() });
+
+  const createService = (): ReadStateService => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({});
+    return TestBed.inject(ReadStateService);
+  };
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.readStories');
+    localStorage.removeItem('hn.visits');
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(start));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+    localStorage.removeItem('hn.readStories');
+    localStorage.removeItem('hn.visits');
+  });
+
+  it('should mark stories read and persist them', () => {
+    const service = createService();
+
+    service.markRead(1);
+    expect(service.isRead(1)).toBe(true);
+
+    expect(createService().isRead(1)).toBe(true);
+  });
+
+  it('should mark stories unread again', () => {
+    const service = createService();
+    service.markRead(1);
+
+    service.markUnread(1);
+
+    expect(service.isRead(1)).toBe(false);
+    expect(createService().isRead(1)).toBe(false);
+  });
+
+  it('should not flag anything as new on the first visit', () => {
+    const service = createService();
+
+    expect(service.previousVisit()).toBeNull();
+    expect(service.isNew(storyAt(1, start))).toBe(false);
+  });
+
+  it('should flag unread stories submitted since the previous visit', () => {
+    createService();
+    const nextVisit = start + VISIT_GAP_MS + 1000;
+    jasmine.clock().mockDate(new Date(nextVisit));
+
+    const service = createService();
+
+    expect(service.previousVisit()).toBe(start);
+    expect(service.isNew(storyAt(1, start + 1000))).toBe(true);
+    expect(service.isNew(storyAt(2, start - 1000))).toBe(false);
+
+    service.markRead(1);
+    expect(service.isNew(storyAt(1, start + 1000))).toBe(false);
+  });
+
+  it('should keep the previous visit across reloads within the same visit', () => {
+    createService();
+    jasmine.clock().mockDate(new Date(start + VISIT_GAP_MS + 1000));
+    createService();
+    jasmine.clock().mockDate(new Date(start + VISIT_GAP_MS + 60 * 1000));
+
+    expect(createService().previousVisit()).toBe(start);
+  });
+
+  it('should prune read markers past the retention period', () => {
+    createService().markRead(1);
+    jasmine.clock().mockDate(new Date(start + READ_RETENTION_MS + 1000));
+
+    expect(createService().isRead(1)).toBe(false);
+  });
+
+  it('should cap the number of stored read markers', () => {
+    const entries = Array.from({ length: MAX_READ_STORIES }, (_, i) => [i + 1, start - MAX_READ_STORIES + i]);
+    localStorage.setItem('hn.readStories', JSON.stringify(entries));
+    const service = createService();
+
+    service.markRead(MAX_READ_STORIES + 1);
+
+    expect(service.isRead(MAX_READ_STORIES + 1)).toBe(true);
+    expect(service.isRead(1)).toBe(false);
+    expect(service.isRead(2)).toBe(true);
+    expect(JSON.parse(localStorage.getItem('hn.readStories')!).length).toBe(MAX_READ_STORIES);
+  });
+});
@@ -0,0 +1,103 @@
+import { Injectable, inject, signal, computed } from '@angular/core';
+import { LocalStorageService } from './local-storage.service';
+import { Story } from '../models/story.model';
+
+const READ_STORIES_STORAGE_KEY = 'readStories';
+const VISITS_STORAGE_KEY = 'visits';
+
+/** Read markers kept before the oldest are dropped. */
+export const MAX_READ_STORIES = 2000;
+
+/** Read markers older than this are pruned; the feed has moved on by then. */
+export const READ_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Page loads closer together than this count as the same visit. */
+export const VISIT_GAP_MS = 30 * 60 * 1000;
+
+interface VisitState {
+  /** When the previous visit ended, in milliseconds; null on the first visit. */
+  previous: number | null;
+  lastSeen: number;
+}
+
+/**
+ * Tracks which stories have been opened and when the previous visit was, so
+ * the list can tell seen stories from new ones.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ReadStateService {
+  private readonly localStorage = inject(LocalStorageService);
+
+  /** Story id → time it was opened, oldest first. */
+  private readonly readAt = signal<Map<number, number>>(this.loadReadStories());
+  readonly readIds = computed(() => new Set(this.readAt().keys()));
+  readonly previousVisit = signal<number | null>(null);
+
+  constructor() {
+    this.startVisit();
+  }
+
+  isRead(id: number): boolean {
+    return this.readIds().has(id);
+  }
+
+  /** Stories submitted after the previous visit that have not been opened yet. */
+  isNew(story: Story): boolean {
+    const previousVisit = this.previousVisit();
+    return previousVisit !== null && story.time * 1000 > previousVisit && !this.isRead(story.id);
+  }
+
+  markRead(id: number) {
+    const now = Date.now();
+    const readAt = new Map(this.readAt());
+    readAt.delete(id);
+    readAt.set(id, now);
+    this.readAt.set(this.prune(readAt, now));
+    this.persist();
+  }
+
+  markUnread(id: number) {
+    const readAt = new Map(this.readAt());
+    if (readAt.delete(id)) {
+      this.readAt.set(readAt);
+      this.persist();
+    }
+  }
+
+  private startVisit() {
+    const now = Date.now();
+    const visits = this.localStorage.getItem<VisitState | null>(VISITS_STORAGE_KEY, null);
+    const previous = !visits
+      ? null
+      : now - visits.lastSeen > VISIT_GAP_MS ? visits.lastSeen : visits.previous;
+
+    this.previousVisit.set(previous);
+    this.localStorage.setItem<VisitState>(VISITS_STORAGE_KEY, { previous, lastSeen: now });
+  }
+
+  private loadReadStories(): Map<number, number> {
+    const entries = this.localStorage.getItem<[number, number][]>(READ_STORIES_STORAGE_KEY, []);
+    const readAt = new Map(
+      (Array.isArray(entries) ? entries : [])
+        .filter(([id, time]) => Number.isInteger(id) && typeof time === 'number')
+        .sort((a, b) => a[1] - b[1])
+    );
+    return this.prune(readAt, Date.now());
+  }
+
+  /** Drops expired markers, then the oldest ones beyond MAX_READ_STORIES. */
+  private prune(readAt: Map<number, number>, now: number): Map<number, number> {
+    const kept = Array.from(readAt.entries()).filter(([, time]) => now - time < READ_RETENTION_MS);
+    return new Map(kept.slice(-MAX_READ_STORIES));
+  }
+
+  private persist() {
+    this.localStorage.setItem(READ_STORIES_STORAGE_KEY, Array.from(this.readAt().entries()));
+    this.localStorage.setItem<VisitState>(VISITS_STORAGE_KEY, {
+      previous: this.previousVisit(),
+      lastSeen: Date.now()
+    });
+  }
+}
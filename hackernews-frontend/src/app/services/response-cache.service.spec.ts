@@ -0,0 +1,193 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject, of, throwError } from 'rxjs';
+import { ResponseCacheService, RESPONSE_CACHE_CONFIG } from './response-cache.service';
+import { IndexedDbService } from './indexed-db.service';
+
+describe('ResponseCacheService', () => {
+  let service: ResponseCacheService;
+  let mockIndexedDb: jasmine.SpyObj<IndexedDbService>;
+  let persisted: { key: string; value: { value: unknown; storedAt: number } }[];
+
+  const flushMicrotasks = async () => {
+    for (let i = 0; i < 5; i++) {
+      await Promise.resolve();
+    }
+  };
+
+  const createService = () => {
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: IndexedDbService, useValue: mockIndexedDb },
+        { provide: RESPONSE_CACHE_CONFIG, useValue: { ttlMs: 1000, maxStaleMs: 10000, maxEntries: 3 } }
+      ]
+    });
+    service = TestBed.inject(ResponseCacheService);
+  };
+
+  beforeEach(() => {
+    persisted = [];
+    mockIndexedDb = jasmine.createSpyObj('IndexedDbService', ['getAll', 'put', 'delete', 'clear']);
+    mockIndexedDb.getAll.and.callFake(() => Promise.resolve(persisted as any));
+    mockIndexedDb.put.and.returnValue(Promise.resolve());
+    mockIndexedDb.delete.and.returnValue(Promise.resolve());
+    mockIndexedDb.clear.and.returnValue(Promise.resolve());
+
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(2025, 0, 1));
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+  });
+
+  it('should fetch and store on a miss', () => {
+    createService();
+    const values: string[] = [];
+
+    service.get('a', () => of('fresh')).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['fresh']);
+    expect(mockIndexedDb.put).toHaveBeenCalledWith('responses', 'a', jasmine.objectContaining({ value: 'fresh' }));
+  });
+
+  it('should serve fresh entries without fetching', () => {
+    createService();
+    service.set('a', 'cached');
+    const fetcher = jasmine.createSpy('fetcher').and.returnValue(of('network'));
+    const values: string[] = [];
+
+    service.get<string>('a', fetcher).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['cached']);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should serve stale entries first and then the refreshed value', () => {
+    createService();
+    service.set('a', 'cached');
+    jasmine.clock().tick(2000);
+    const values: string[] = [];
+
+    service.get('a', () => of('network')).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['cached', 'network']);
+  });
+
+  it('should not emit a refresh that matches the cached value', () => {
+    createService();
+    service.set('a', { items: [1] });
+    jasmine.clock().tick(2000);
+    const values: unknown[] = [];
+
+    service.get('a', () => of({ items: [1] })).subscribe(value => values.push(value));
+
+    expect(values.length).toBe(1);
+  });
+
+  it('should keep the stale value when the background refresh fails', () => {
+    createService();
+    spyOn(console, 'warn');
+    service.set('a', 'cached');
+    jasmine.clock().tick(2000);
+    const values: string[] = [];
+    let errored = false;
+
+    service.get('a', () => throwError(() => new Error('offline'))).subscribe({
+      next: value => values.push(value),
+      error: () => errored = true
+    });
+
+    expect(values).toEqual(['cached']);
+    expect(errored).toBe(false);
+  });
+
+  it('should ignore entries past the stale limit', () => {
+    createService();
+    service.set('a', 'ancient');
+    jasmine.clock().tick(20000);
+    const values: string[] = [];
+
+    service.get('a', () => of('network')).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['network']);
+  });
+
+  it('should fall back to an expired entry when the request fails', () => {
+    createService();
+    spyOn(console, 'warn');
+    service.set('a', 'ancient');
+    jasmine.clock().tick(20000);
+    const values: string[] = [];
+
+    service.get('a', () => throwError(() => new Error('offline'))).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['ancient']);
+  });
+
+  it('should propagate errors when nothing is cached', () => {
+    createService();
+    let error: unknown;
+
+    service.get('a', () => throwError(() => new Error('offline'))).subscribe({ error: err => error = err });
+
+    expect(error).toEqual(new Error('offline'));
+  });
+
+  it('should always fetch on refresh and pass errors on', () => {
+    createService();
+    service.set('a', 'cached');
+    const values: string[] = [];
+    let error: unknown;
+
+    service.refresh('a', () => of('network')).subscribe(value => values.push(value));
+    service.refresh('a', () => throwError(() => new Error('offline'))).subscribe({ error: err => error = err });
+
+    expect(values).toEqual(['network']);
+    expect(error).toEqual(new Error('offline'));
+    service.get<string>('a', () => of('unused')).subscribe(value => values.push(value));
+    expect(values).toEqual(['network', 'network']);
+  });
+
+  it('should evict the oldest entries beyond the limit', () => {
+    createService();
+    ['a', 'b', 'c', 'd'].forEach(key => service.set(key, key));
+
+    expect(mockIndexedDb.delete).toHaveBeenCalledWith('responses', 'a');
+  });
+
+  it('should invalidate entries by prefix', () => {
+    createService();
+    service.set('search?q=a', 'search');
+    service.set('stories?page=1', 'stories');
+    const values: string[] = [];
+
+    service.invalidate('search?');
+    service.get('search?q=a', () => of('network')).subscribe(value => values.push(value));
+    service.get('stories?page=1', () => of('network')).subscribe(value => values.push(value));
+
+    expect(values).toEqual(['network', 'stories']);
+  });
+
+  it('should clear persisted entries when invalidating everything', () => {
+    createService();
+
+    service.invalidate();
+
+    expect(mockIndexedDb.clear).toHaveBeenCalledWith('responses');
+  });
+
+  it('should show a persisted entry while the first request is in flight', async () => {
+    persisted = [{ key: 'a', value: { value: 'persisted', storedAt: Date.now() } }];
+    createService();
+    const network = new Subject<string>();
+    const values: string[] = [];
+
+    service.get('a', () => network).subscribe(value => values.push(value));
+    await flushMicrotasks();
+
+    expect(values).toEqual(['persisted']);
+
+    network.next('network');
+    expect(values).toEqual(['persisted', 'network']);
+  });
+});
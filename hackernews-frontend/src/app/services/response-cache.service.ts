@@ -0,0 +1,188 @@
+import { Injectable, InjectionToken, inject } from '@angular/core';
+import { EMPTY, Observable, concat, defer, of, throwError } from 'rxjs';
+import { catchError, distinctUntilChanged, tap } from 'rxjs/operators';
+import { IndexedDbService } from './indexed-db.service';
+
+export interface ResponseCacheConfig {
+  /** Age until which a cached response is served without contacting the API. */
+  ttlMs: number;
+  /** Age until which a cached response is still shown while a refresh runs. */
+  maxStaleMs: number;
+  /** Entries kept before the least recently written are evicted. */
+  maxEntries: number;
+}
+
+export const DEFAULT_RESPONSE_CACHE_CONFIG: ResponseCacheConfig = {
+  ttlMs: 60 * 1000,
+  maxStaleMs: 24 * 60 * 60 * 1000,
+  maxEntries: 100
+};
+
+export const RESPONSE_CACHE_CONFIG = new InjectionToken<ResponseCacheConfig>('RESPONSE_CACHE_CONFIG', {
+  providedIn: 'root',
+  factory: () => DEFAULT_RESPONSE_CACHE_CONFIG
+});
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+/**
+ * Stale-while-revalidate cache for API responses. Entries live in memory and
+ * are mirrored to IndexedDB so they survive reloads.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ResponseCacheService {
+  private readonly indexedDb = inject(IndexedDbService);
+  private readonly config = inject(RESPONSE_CACHE_CONFIG);
+  private readonly memory = new Map<string, CacheEntry<unknown>>();
+  private readonly hydration: Promise<void>;
+  private hydrated = false;
+
+  constructor() {
+    this.hydration = this.hydrate();
+  }
+
+  /**
+   * Emits the cached value for `key` if there is one, then the fetched value
+   * when the cached one is older than the TTL. A failed background refresh is
+   * logged and leaves the cached value on screen. When a request fails with
+   * nothing on screen, any cached value is served regardless of its age, which
+   * is what keeps previously viewed pages readable offline.
+   */
+  get<T>(key: string, fetcher: () => Observable<T>): Observable<T> {
+    const entry = this.memory.get(key) as CacheEntry<T> | undefined;
+    const network$ = defer(fetcher).pipe(tap(value => this.set(key, value)));
+    const networkWithFallback$ = network$.pipe(
+      catchError(err => {
+        const fallback = this.memory.get(key) as CacheEntry<T> | undefined;
+        if (!fallback) {
+          return throwError(() => err);
+        }
+        console.warn(`Request for "${key}" failed, serving cached response:`, err);
+        return of(fallback.value);
+      })
+    );
+
+    if (entry && this.age(entry) < this.config.ttlMs) {
+      return of(entry.value);
+    }
+
+    if (entry && this.age(entry) < this.config.maxStaleMs) {
+      return concat(
+        of(entry.value),
+        network$.pipe(
+          catchError(err => {
+            console.warn(`Background refresh of "${key}" failed:`, err);
+            return EMPTY;
+          })
+        )
+      ).pipe(
+        distinctUntilChanged((previous, current) => JSON.stringify(previous) === JSON.stringify(current))
+      );
+    }
+
+    return this.hydrated ? networkWithFallback$ : this.raceHydration(key, network$);
+  }
+
+  /** Always asks the API and stores the answer. Errors are passed on instead of being answered from the cache. */
+  refresh<T>(key: string, fetcher: () => Observable<T>): Observable<T> {
+    return defer(fetcher).pipe(tap(value => this.set(key, value)));
+  }
+
+  set<T>(key: string, value: T): void {
+    const entry: CacheEntry<T> = { value, storedAt: Date.now() };
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    this.indexedDb.put('responses', key, entry);
+    this.evictOverflow();
+  }
+
+  /** Drops every entry whose key starts with `prefix`, or the whole cache without one. */
+  invalidate(prefix: string = ''): void {
+    Array.from(this.memory.keys())
+      .filter(key => key.startsWith(prefix))
+      .forEach(key => this.memory.delete(key));
+
+    if (!prefix) {
+      this.indexedDb.clear('responses');
+      return;
+    }
+
+    this.indexedDb.getAll<CacheEntry<unknown>>('responses').then(records => {
+      records
+        .filter(record => record.key.startsWith(prefix))
+        .forEach(record => this.indexedDb.delete('responses', record.key));
+    });
+  }
+
+  /**
+   * Before IndexedDB has been read, the request goes out right away and a
+   * persisted entry is shown if it turns up before the response does.
+   */
+  private raceHydration<T>(key: string, network$: Observable<T>): Observable<T> {
+    return new Observable<T>(subscriber => {
+      let delivered = false;
+      let servedPersisted = false;
+
+      this.hydration.then(() => {
+        const entry = this.memory.get(key) as CacheEntry<T> | undefined;
+        if (!delivered && !subscriber.closed && entry && this.age(entry) < this.config.maxStaleMs) {
+          servedPersisted = true;
+          subscriber.next(entry.value);
+        }
+      });
+
+      const subscription = network$.subscribe({
+        next: value => {
+          delivered = true;
+          subscriber.next(value);
+        },
+        error: err => {
+          const fallback = this.memory.get(key) as CacheEntry<T> | undefined;
+          if (servedPersisted) {
+            console.warn(`Refresh of "${key}" failed, keeping cached response:`, err);
+          } else if (fallback) {
+            console.warn(`Request for "${key}" failed, serving cached response:`, err);
+            subscriber.next(fallback.value);
+          } else {
+            subscriber.error(err);
+            return;
+          }
+          subscriber.complete();
+        },
+        complete: () => subscriber.complete()
+      });
+
+      return () => subscription.unsubscribe();
+    });
+  }
+
+  private async hydrate(): Promise<void> {
+    const records = await this.indexedDb.getAll<CacheEntry<unknown>>('responses');
+
+    // Expired entries are kept as offline fallbacks; the size limit bounds them
+    records
+      .sort((a, b) => a.value.storedAt - b.value.storedAt)
+      .filter(record => !this.memory.has(record.key))
+      .forEach(record => this.memory.set(record.key, record.value));
+
+    this.evictOverflow();
+    this.hydrated = true;
+  }
+
+  private evictOverflow(): void {
+    while (this.memory.size > this.config.maxEntries) {
+      const oldestKey = this.memory.keys().next().value as string;
+      this.memory.delete(oldestKey);
+      this.indexedDb.delete('responses', oldestKey);
+    }
+  }
+
+  private age(entry: CacheEntry<unknown>): number {
+    return Date.now() - entry.storedAt;
+  }
+}
@@ -0,0 +1,180 @@
+import { TestBed } from '@angular/core/testing';
+import { of, throwError, concat } from 'rxjs';
+import { SavedSearchService, SAVED_SEARCH_POLL_INTERVAL_MS } from './saved-search.service';
+import { HackerNewsService } from './hackernews.service';
+import { PreferencesService } from './preferences.service';
+import { Story, PagedStoryResult, SearchSortOrder } from '../models/story.model';
+import { makeStory } from '../testing/fixtures';
+
+describe('SavedSearchService', () => {
+  let service: SavedSearchService;
+  let mockHackerNewsService: jasmine.SpyObj<HackerNewsService>;
+  const now = new Date('2025-03-01T12:00:00Z').getTime();
+
+  const storyAt = (id: number, time: number) => makeStory(id, { time: time / 1000, createdAt: new Date(time).toISOString() });
+
+  const page = (items: Story[]): PagedStoryResult => ({ items, page: 1, pageSize: 20 });
+
+  beforeEach(() => {
+    localStorage.removeItem('hn.savedSearches');
+    localStorage.removeItem('hn.savedSearchPolling');
+    jasmine.clock().install();
+    jasmine.clock().mockDate(new Date(now));
+
+    mockHackerNewsService = jasmine.createSpyObj('HackerNewsService', ['searchStories']);
+    TestBed.configureTestingModule({
+      providers: [{ provide: HackerNewsService, useValue: mockHackerNewsService }]
+    });
+    service = TestBed.inject(SavedSearchService);
+  });
+
+  afterEach(() => {
+    jasmine.clock().uninstall();
+    localStorage.removeItem('hn.savedSearches');
+    localStorage.removeItem('hn.savedSearchPolling');
+  });
+
+  it('should save a normalized query and persist it', () => {
+    const saved = service.save('Rust on GitHub', {
+      query: ' rust ',
+      page: 4,
+      sortBy: SearchSortOrder.Score,
+      filters: { domains: ['github.com'] }
+    });
+
+    expect(saved.query).toEqual({
+      query: 'rust',
+      pageSize: 20,
+      sortBy: SearchSortOrder.Score,
+      filters: { domains: ['github.com'] }
+    });
+    expect(JSON.parse(localStorage.getItem('hn.savedSearches')!)[0].name).toBe('Rust on GitHub');
+  });
+
+  it('should name unnamed searches after their query', () => {
+    const saved = service.save('  ', { query: 'llm', filters: { authors: ['pg'], minScore: 100 } });
+
+    expect(saved.name).toBe('"llm" by pg 100+ points');
+  });
+
+  it('should describe several authors and exclusions', () => {
+    expect(service.describe({
+      query: '',
+      filters: { authors: ['pg', 'dang'], domains: ['github.com'], excludedDomains: ['medium.com'] }
+    })).toBe('by pg or dang on github.com not on medium.com');
+  });
+
+  it('should describe a search in the language picked', () => {
+    TestBed.inject(PreferencesService).update({ locale: 'de' });
+
+    expect(service.describe({ query: '', filters: { authors: ['pg', 'dang'], minScore: 100 } }))
+      .toBe('von pg oder dang ab 100 Punkten');
+    expect(service.describe({ query: '' })).toBe('Gespeicherte Suche');
+
+    localStorage.removeItem('hn.preferences');
+    document.documentElement.lang = 'en';
+  });
+
+  it('should upgrade searches saved with a single author and domain', () => {
+    localStorage.setItem('hn.savedSearches', JSON.stringify([{
+      id: 'old',
+      name: 'Old',
+      query: { query: '', filters: { author: 'pg', domain: 'github.com', minScore: 10 } },
+      createdAt: now,
+      lastRunAt: now,
+      newMatchCount: 0
+    }]));
+
+    const fresh = TestBed.runInInjectionContext(() => new SavedSearchService());
+
+    expect(fresh.savedSearches()[0].query.filters).toEqual({ minScore: 10, authors: ['pg'], domains: ['github.com'] });
+  });
+
+  it('should remove saved searches', () => {
+    const saved = service.save('a', { query: 'a' });
+
+    service.remove(saved.id);
+
+    expect(service.savedSearches()).toEqual([]);
+  });
+
+  it('should find a saved search by its query', () => {
+    const saved = service.save('GitHub', { query: '', filters: { domains: ['github.com'] } });
+
+    expect(service.findByQuery({ query: ' ', page: 3, filters: { domains: ['github.com'] } })).toEqual(saved);
+    expect(service.findByQuery({ query: '', filters: { domains: ['gitlab.com'] } })).toBeUndefined();
+  });
+
+  it('should count matches newer than the last run', () => {
+    const saved = service.save('rust', { query: 'rust' });
+    mockHackerNewsService.searchStories.and.returnValue(of(page([
+      storyAt(1, now + 1000),
+      storyAt(2, now + 2000),
+      storyAt(3, now - 1000)
+    ])));
+
+    service.checkForNewMatches().subscribe();
+
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledWith(jasmine.objectContaining({
+      query: 'rust',
+      page: 1,
+      sortBy: SearchSortOrder.Recent
+    }));
+    expect(service.savedSearches()[0].newMatchCount).toBe(2);
+
+    service.markRun(saved.id);
+    expect(service.savedSearches()[0].newMatchCount).toBe(0);
+    expect(service.savedSearches()[0].lastRunAt).toBe(now);
+  });
+
+  it('should count from the refreshed page when a cached one is emitted first', () => {
+    service.save('rust', { query: 'rust' });
+    mockHackerNewsService.searchStories.and.returnValue(concat(
+      of(page([])),
+      of(page([storyAt(1, now + 1000)]))
+    ));
+
+    service.checkForNewMatches().subscribe();
+
+    expect(service.savedSearches()[0].newMatchCount).toBe(1);
+  });
+
+  it('should keep checking the other searches when one fails', () => {
+    spyOn(console, 'error');
+    service.save('broken', { query: 'broken' });
+    service.save('rust', { query: 'rust' });
+    mockHackerNewsService.searchStories.and.callFake(query => query.query === 'broken'
+      ? throwError(() => new Error('API Error'))
+      : of(page([storyAt(1, now + 1000)])));
+    let emitted = false;
+
+    service.checkForNewMatches().subscribe(() => emitted = true);
+
+    expect(emitted).toBe(true);
+    expect(service.savedSearches()[1].newMatchCount).toBe(1);
+  });
+
+  it('should only poll after the first check when polling is enabled', () => {
+    service.save('rust', { query: 'rust' });
+    mockHackerNewsService.searchStories.and.returnValue(of(page([])));
+
+    const subscription = service.startPolling().subscribe();
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(1);
+
+    jasmine.clock().tick(SAVED_SEARCH_POLL_INTERVAL_MS);
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(1);
+
+    service.pollingEnabled.set(true);
+    jasmine.clock().tick(SAVED_SEARCH_POLL_INTERVAL_MS);
+    expect(mockHackerNewsService.searchStories).toHaveBeenCalledTimes(2);
+
+    subscription.unsubscribe();
+  });
+
+  it('should persist the polling preference', async () => {
+    await service.setPollingEnabled(false);
+
+    expect(service.pollingEnabled()).toBe(false);
+    expect(localStorage.getItem('hn.savedSearchPolling')).toBe('false');
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { convertToParamMap } from '@angular/router';
+import { Observable, forkJoin, of, timer } from 'rxjs';
+import { catchError, filter, map, switchMap, takeLast, tap } from 'rxjs/operators';
+import { HackerNewsService } from './hackernews.service';
+import { LocalStorageService } from './local-storage.service';
+import { SearchUrlService } from './search-url.service';
+import { I18nService } from './i18n.service';
+import { SavedSearch } from '../models/saved-search.model';
+import { SearchFilters, SearchQuery, SearchSortOrder } from '../models/story.model';
+
+const SAVED_SEARCHES_STORAGE_KEY = 'savedSearches';
+const POLLING_STORAGE_KEY = 'savedSearchPolling';
+
+/** How often saved searches are checked for new matches while polling is on. */
+export const SAVED_SEARCH_POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Named searches kept in local storage. Each one remembers when it was last
+ * run so newer matches can be counted, and optionally announced through
+ * browser notifications while polling is enabled.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SavedSearchService {
+  private readonly hackerNewsService = inject(HackerNewsService);
+  private readonly localStorage = inject(LocalStorageService);
+  private readonly searchUrlService = inject(SearchUrlService);
+  private readonly i18n = inject(I18nService);
+
+  readonly savedSearches = signal<SavedSearch[]>(
+    this.localStorage.getItem<SavedSearch[]>(SAVED_SEARCHES_STORAGE_KEY, []).map(search => this.upgrade(search))
+  );
+  readonly pollingEnabled = signal<boolean>(this.localStorage.getItem<boolean>(POLLING_STORAGE_KEY, false));
+
+  save(name: string, query: SearchQuery): SavedSearch {
+    const now = Date.now();
+    const savedSearch: SavedSearch = {
+      id: now.toString(36) + Math.random().toString(36).slice(2, 8),
+      name: name.trim() || this.describe(query),
+      query: this.normalize(query),
+      createdAt: now,
+      lastRunAt: now,
+      newMatchCount: 0
+    };
+    this.update(searches => [...searches, savedSearch]);
+    return savedSearch;
+  }
+
+  /** The saved search that runs `query`, if any. */
+  findByQuery(query: SearchQuery): SavedSearch | undefined {
+    const key = this.searchUrlService.toKey(this.normalize(query));
+    return this.savedSearches().find(search => this.searchUrlService.toKey(search.query) === key);
+  }
+
+  remove(id: string) {
+    this.update(searches => searches.filter(search => search.id !== id));
+  }
+
+  /** Resets the new-match badge once the user has looked at the results. */
+  markRun(id: string) {
+    this.patch(id, { lastRunAt: Date.now(), newMatchCount: 0 });
+  }
+
+  /** Short label for a query, used when no name is given. */
+  describe(query: SearchQuery): string {
+    const filters = query.filters || {};
+    const either = new Intl.ListFormat(this.i18n.locale(), { type: 'disjunction' });
+    const parts = [
+      query.query.trim() ? `"${query.query.trim()}"` : '',
+      filters.authors?.length ? this.i18n.t('by {names}', { names: either.format(filters.authors) }) : '',
+      filters.domains?.length ? this.i18n.t('on {names}', { names: either.format(filters.domains) }) : '',
+      filters.excludedAuthors?.length ? this.i18n.t('not by {names}', { names: either.format(filters.excludedAuthors) }) : '',
+      filters.excludedDomains?.length ? this.i18n.t('not on {names}', { names: either.format(filters.excludedDomains) }) : '',
+      filters.minScore !== undefined ? this.i18n.t('{score}+ points', { score: filters.minScore }) : ''
+    ].filter(part => part.length > 0);
+    return parts.length > 0 ? parts.join(' ') : this.i18n.t('Saved search');
+  }
+
+  /**
+   * Turns polling on or off. Turning it on asks for notification permission;
+   * polling still updates the badges when permission is denied.
+   */
+  async setPollingEnabled(enabled: boolean) {
+    this.pollingEnabled.set(enabled);
+    this.localStorage.setItem(POLLING_STORAGE_KEY, enabled);
+
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+  }
+
+  /**
+   * Checks every saved search once right away, then on every interval while
+   * polling is enabled. Runs until unsubscribed.
+   */
+  startPolling(): Observable<SavedSearch[]> {
+    return timer(0, SAVED_SEARCH_POLL_INTERVAL_MS).pipe(
+      filter(tick => tick === 0 || this.pollingEnabled()),
+      switchMap(tick => this.checkForNewMatches(tick > 0))
+    );
+  }
+
+  /** Counts matches newer than each search's last run, newest first. */
+  checkForNewMatches(notify: boolean = false): Observable<SavedSearch[]> {
+    const searches = this.savedSearches();
+    if (searches.length === 0) {
+      return of([]);
+    }
+
+    return forkJoin(searches.map(search =>
+      this.hackerNewsService.searchStories({ ...search.query, page: 1, sortBy: SearchSortOrder.Recent }).pipe(
+        // A cached page may be emitted first; only the final answer counts
+        takeLast(1),
+        map(result => result.items.filter(story => story.time * 1000 > search.lastRunAt).length),
+        tap(count => {
+          if (notify && count > search.newMatchCount) {
+            this.showNotification(search, count);
+          }
+          this.patch(search.id, { newMatchCount: count });
+        }),
+        catchError(err => {
+          console.error(`Error checking saved search "${search.name}":`, err);
+          return of(null);
+        })
+      )
+    )).pipe(
+      map(() => this.savedSearches())
+    );
+  }
+
+  private showNotification(search: SavedSearch, count: number) {
+    if (typeof Notification === 'undefined' || Notification.permission !== 'granted') {
+      return;
+    }
+
+    new Notification(this.i18n.plural(count, '{name}: {count} new story', '{name}: {count} new stories', { name: search.name }), {
+      body: this.i18n.t('New matches for your saved search on HackerNews.'),
+      tag: `saved-search-${search.id}`
+    });
+  }
+
+  /** Drops page and applies the same defaults the URL uses, so saved queries compare cleanly. */
+  private normalize(query: SearchQuery): SearchQuery {
+    const params = this.searchUrlService.toQueryParams({ ...query, page: 1 });
+    const { page, ...normalized } = this.searchUrlService.fromQueryParams(convertToParamMap(params));
+    return normalized;
+  }
+
+  /** Searches saved before filters took several authors and domains have a single `author` and `domain`. */
+  private upgrade(search: SavedSearch): SavedSearch {
+    const { author, domain, ...filters } = (search.query.filters ?? {}) as SearchFilters & { author?: string; domain?: string };
+    if (author === undefined && domain === undefined) {
+      return search;
+    }
+    return {
+      ...search,
+      query: {
+        ...search.query,
+        filters: {
+          ...filters,
+          ...(author ? { authors: [author] } : {}),
+          ...(domain ? { domains: [domain] } : {})
+        }
+      }
+    };
+  }
+
+  private patch(id: string, changes: Partial<SavedSearch>) {
+    this.update(searches => searches.map(search => search.id === id ? { ...search, ...changes } : search));
+  }
+
+  private update(updater: (searches: SavedSearch[]) => SavedSearch[]) {
+    this.savedSearches.update(updater);
+    this.localStorage.setItem(SAVED_SEARCHES_STORAGE_KEY, this.savedSearches());
+  }
+}
@@ -0,0 +1,219 @@
+import { TestBed } from '@angular/core/testing';
+import { convertToParamMap } from '@angular/router';
+import { SearchUrlService } from './search-url.service';
+import { PreferencesService } from './preferences.service';
+import { SearchQuery, SearchSortOrder } from '../models/story.model';
+
+describe('SearchUrlService', () => {
+  let service: SearchUrlService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(SearchUrlService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  describe('toQueryParams', () => {
+    it('should omit default values', () => {
+      const params = service.toQueryParams({
+        query: '',
+        page: 1,
+        pageSize: 20,
+        sortBy: SearchSortOrder.Relevance
+      });
+
+      expect(params).toEqual({});
+    });
+
+    it('should serialize every query and filter field', () => {
+      const params = service.toQueryParams({
+        query: ' python ',
+        page: 3,
+        pageSize: 50,
+        sortBy: SearchSortOrder.Comments,
+        filters: {
+          fromDate: '2025-01-01',
+          toDate: '2025-02-01',
+          minScore: 0,
+          maxScore: 500,
+          authors: ['pg'],
+          excludedAuthors: ['bot'],
+          domains: ['github.com', 'gitlab.com'],
+          excludedDomains: ['medium.com'],
+          hasUrl: false
+        }
+      });
+
+      expect(params).toEqual({
+        q: 'python',
+        page: '3',
+        pageSize: '50',
+        sortBy: 'Comments',
+        fromDate: '2025-01-01',
+        toDate: '2025-02-01',
+        minScore: '0',
+        maxScore: '500',
+        author: 'pg',
+        excludeAuthor: 'bot',
+        domain: ['github.com', 'gitlab.com'],
+        excludeDomain: 'medium.com',
+        hasUrl: 'false'
+      });
+    });
+
+    it('should format Date values from the datepicker as local calendar dates', () => {
+      const params = service.toQueryParams({
+        query: '',
+        filters: { fromDate: new Date(2024, 11, 31) as unknown as string }
+      });
+
+      expect(params['fromDate']).toBe('2024-12-31');
+    });
+  });
+
+  describe('fromQueryParams', () => {
+    it('should fall back to defaults for empty params', () => {
+      const query = service.fromQueryParams(convertToParamMap({}));
+
+      expect(query).toEqual({
+        query: '',
+        page: 1,
+        pageSize: 20,
+        sortBy: SearchSortOrder.Relevance,
+        filters: undefined
+      });
+    });
+
+    it('should round-trip a full query', () => {
+      const original: SearchQuery = {
+        query: 'rust',
+        page: 4,
+        pageSize: 10,
+        sortBy: SearchSortOrder.Score,
+        filters: {
+          fromDate: '2023-05-01',
+          minScore: 10,
+          authors: ['dang', 'pg'],
+          excludedDomains: ['medium.com'],
+          hasUrl: true
+        }
+      };
+
+      const restored = service.fromQueryParams(convertToParamMap(service.toQueryParams(original)));
+
+      expect(restored).toEqual(original);
+    });
+
+    it('should keep relative dates and hours as written', () => {
+      const query = service.fromQueryParams(convertToParamMap({ fromDate: '-7d', toDate: '2025-01-31T14:00' }));
+
+      expect(query.filters).toEqual({ fromDate: '-7d', toDate: '2025-01-31T14:00' });
+      expect(service.toQueryParams(query)).toEqual({ fromDate: '-7d', toDate: '2025-01-31T14:00' });
+    });
+
+    it('should read single author and domain params from older links', () => {
+      const query = service.fromQueryParams(convertToParamMap({ author: ' pg ', domain: 'github.com' }));
+
+      expect(query.filters).toEqual({ authors: ['pg'], domains: ['github.com'] });
+    });
+
+    it('should drop blank and repeated list values', () => {
+      const query = service.fromQueryParams(convertToParamMap({ author: ['pg', ' ', 'pg', 'dang'] }));
+
+      expect(query.filters).toEqual({ authors: ['pg', 'dang'] });
+    });
+
+    it('should ignore malformed values', () => {
+      const query = service.fromQueryParams(convertToParamMap({
+        page: '-2',
+        pageSize: 'abc',
+        sortBy: 'Bogus',
+        minScore: '1.5',
+        fromDate: 'last tuesday',
+        toDate: '2025-02-31',
+        hasUrl: 'maybe'
+      }));
+
+      expect(query.page).toBe(1);
+      expect(query.pageSize).toBe(20);
+      expect(query.sortBy).toBe(SearchSortOrder.Relevance);
+      expect(query.filters).toBeUndefined();
+    });
+
+    it('should keep the page size to the ones the UI offers', () => {
+      const pageSize = (value: string) => service.fromQueryParams(convertToParamMap({ pageSize: value })).pageSize;
+
+      expect(pageSize('100000')).toBe(100);
+      expect(pageSize('37')).toBe(30);
+      expect(pageSize('3')).toBe(10);
+      expect(pageSize('50')).toBe(50);
+    });
+  });
+
+  describe('preferences', () => {
+    beforeEach(() => {
+      localStorage.removeItem('hn.preferences');
+      TestBed.inject(PreferencesService).update({
+        pageSize: 50,
+        defaultSort: SearchSortOrder.Score,
+        defaultFilters: { minScore: 100, excludedDomains: ['medium.com'] }
+      });
+    });
+
+    afterEach(() => {
+      localStorage.removeItem('hn.preferences');
+    });
+
+    it('should write any page size other than the built-in one and every sort into the URL', () => {
+      expect(service.toQueryParams({ query: 'go', pageSize: 50, sortBy: SearchSortOrder.Score }))
+        .toEqual({ q: 'go', pageSize: '50', sortBy: SearchSortOrder.Score });
+      expect(service.toQueryParams({ query: 'go', pageSize: 20, sortBy: SearchSortOrder.Relevance }))
+        .toEqual({ q: 'go', sortBy: SearchSortOrder.Relevance });
+    });
+
+    it('should keep relevance through a reload when another sort is preferred', () => {
+      const query = service.fromQueryParams(convertToParamMap(
+        service.toQueryParams({ query: 'go', sortBy: SearchSortOrder.Relevance })
+      ));
+
+      expect(query.sortBy).toBe(SearchSortOrder.Relevance);
+    });
+
+    it('should fill in the preferred sort but not the preferred page size or filters', () => {
+      const query = service.fromQueryParams(convertToParamMap({ q: 'go' }));
+
+      expect(query.pageSize).toBe(20);
+      expect(query.sortBy).toBe(SearchSortOrder.Score);
+      expect(query.filters).toBeUndefined();
+    });
+
+    it('should treat a URL without params as an unfiltered list', () => {
+      expect(service.fromQueryParams(convertToParamMap({})).filters).toBeUndefined();
+    });
+
+    it('should build the opening search from the preferences', () => {
+      const query = service.defaultQuery();
+
+      expect(query).toEqual({
+        query: '',
+        page: 1,
+        pageSize: 50,
+        sortBy: SearchSortOrder.Score,
+        filters: { minScore: 100, excludedDomains: ['medium.com'] }
+      });
+      expect(service.fromQueryParams(convertToParamMap(service.toQueryParams(query)))).toEqual(query);
+    });
+  });
+
+  describe('toKey', () => {
+    it('should treat equivalent queries as equal', () => {
+      const a = service.toKey({ query: 'go', page: 1, sortBy: SearchSortOrder.Relevance });
+      const b = service.toKey({ query: ' go ', pageSize: 20 });
+
+      expect(a).toBe(b);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { Injectable, inject } from '@angular/core';
+import { ParamMap, Params } from '@angular/router';
+import { PreferencesService, DEFAULT_PAGE_SIZE, PAGE_SIZE_OPTIONS } from './preferences.service';
+import { SearchQuery, SearchFilters, SearchSortOrder } from '../models/story.model';
+import { isDateFilterValue, toDayValue } from '../utils/date-filter';
+
+type ListFilterKey = 'authors' | 'excludedAuthors' | 'domains' | 'excludedDomains';
+
+const LIST_FILTER_PARAMS: Record<ListFilterKey, string> = {
+  authors: 'author',
+  excludedAuthors: 'excludeAuthor',
+  domains: 'domain',
+  excludedDomains: 'excludeDomain'
+};
+
+/**
+ * Translates a SearchQuery to and from router query params so searches survive
+ * reloads, can be shared as links and take part in browser history.
+ * The built-in page size is left out of the URL, and so is the relevance
+ * sort while it is also the preferred one; any other sort is always written,
+ * so reloads and links keep it. A missing sort means the preferred one. A URL
+ * without params is an unfiltered list; the preferred defaults are applied by
+ * `defaultQuery` when the list first opens.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SearchUrlService {
+  private readonly preferencesService = inject(PreferencesService);
+
+  toQueryParams(searchQuery: SearchQuery): Params {
+    const params: Params = {};
+    const filters = searchQuery.filters || {};
+
+    if (searchQuery.query?.trim()) {
+      params['q'] = searchQuery.query.trim();
+    }
+    if (searchQuery.page && searchQuery.page > 1) {
+      params['page'] = searchQuery.page.toString();
+    }
+    if (searchQuery.pageSize && searchQuery.pageSize !== DEFAULT_PAGE_SIZE) {
+      params['pageSize'] = searchQuery.pageSize.toString();
+    }
+    const defaultSort = this.preferencesService.preferences().defaultSort;
+    if (searchQuery.sortBy && (searchQuery.sortBy !== SearchSortOrder.Relevance || defaultSort !== SearchSortOrder.Relevance)) {
+      params['sortBy'] = searchQuery.sortBy;
+    }
+
+    const fromDate = this.formatDate(filters.fromDate);
+    if (fromDate) {
+      params['fromDate'] = fromDate;
+    }
+    const toDate = this.formatDate(filters.toDate);
+    if (toDate) {
+      params['toDate'] = toDate;
+    }
+    if (filters.minScore !== undefined) {
+      params['minScore'] = filters.minScore.toString();
+    }
+    if (filters.maxScore !== undefined) {
+      params['maxScore'] = filters.maxScore.toString();
+    }
+    // Several values repeat the param, e.g. `author=pg&author=dang`
+    Object.entries(LIST_FILTER_PARAMS).forEach(([key, param]) => {
+      const values = this.cleanList(filters[key as ListFilterKey]);
+      if (values.length > 0) {
+        params[param] = values.length === 1 ? values[0] : values;
+      }
+    });
+    if (filters.hasUrl !== undefined) {
+      params['hasUrl'] = filters.hasUrl.toString();
+    }
+
+    return params;
+  }
+
+  /** The search the list opens with when it is first shown without params. */
+  defaultQuery(): SearchQuery {
+    const { pageSize, defaultSort, defaultFilters } = this.preferencesService.preferences();
+    return {
+      query: '',
+      page: 1,
+      pageSize,
+      sortBy: defaultSort,
+      filters: Object.keys(defaultFilters).length > 0 ? defaultFilters : undefined
+    };
+  }
+
+  fromQueryParams(paramMap: ParamMap): SearchQuery {
+    const filters: SearchFilters = {};
+
+    const fromDate = this.parseDate(paramMap.get('fromDate'));
+    if (fromDate) {
+      filters.fromDate = fromDate;
+    }
+    const toDate = this.parseDate(paramMap.get('toDate'));
+    if (toDate) {
+      filters.toDate = toDate;
+    }
+    const minScore = this.parseNumber(paramMap.get('minScore'), 0);
+    if (minScore !== undefined) {
+      filters.minScore = minScore;
+    }
+    const maxScore = this.parseNumber(paramMap.get('maxScore'), 0);
+    if (maxScore !== undefined) {
+      filters.maxScore = maxScore;
+    }
+    Object.entries(LIST_FILTER_PARAMS).forEach(([key, param]) => {
+      const values = this.cleanList(paramMap.getAll(param));
+      if (values.length > 0) {
+        filters[key as ListFilterKey] = values;
+      }
+    });
+    const hasUrl = paramMap.get('hasUrl');
+    if (hasUrl === 'true' || hasUrl === 'false') {
+      filters.hasUrl = hasUrl === 'true';
+    }
+
+    const sortBy = paramMap.get('sortBy') as SearchSortOrder | null;
+
+    return {
+      query: paramMap.get('q')?.trim() || '',
+      page: this.parseNumber(paramMap.get('page'), 1) ?? 1,
+      pageSize: this.parsePageSize(paramMap.get('pageSize')),
+      sortBy: sortBy && Object.values(SearchSortOrder).includes(sortBy)
+        ? sortBy
+        : this.preferencesService.preferences().defaultSort,
+      filters: Object.keys(filters).length > 0 ? filters : undefined
+    };
+  }
+
+  /**
+   * Stable string form of a query, used to tell whether two queries would
+   * produce the same URL.
+   */
+  toKey(searchQuery: SearchQuery): string {
+    return JSON.stringify(this.toQueryParams(searchQuery));
+  }
+
+  /** Relative values such as `-7d` are kept as written, so shared links stay relative. */
+  private formatDate(value: Date | string | undefined | null): string | undefined {
+    if (!value) return undefined;
+
+    if (typeof value === 'string') {
+      return isDateFilterValue(value) ? value.trim() : undefined;
+    }
+    return isNaN(value.getTime()) ? undefined : toDayValue(value);
+  }
+
+  /** Trimmed, non-empty values without duplicates, in their original order. */
+  private cleanList(values: string[] | undefined): string[] {
+    const cleaned = (values ?? []).map(value => value.trim()).filter(value => value.length > 0);
+    return Array.from(new Set(cleaned));
+  }
+
+  private parseDate(value: string | null): string | undefined {
+    return value && isDateFilterValue(value) ? value.trim() : undefined;
+  }
+
+  /** The largest page size the UI offers that doesn't exceed the one asked for. */
+  private parsePageSize(value: string | null): number {
+    const requested = this.parseNumber(value, 1);
+    if (requested === undefined) {
+      return DEFAULT_PAGE_SIZE;
+    }
+    return PAGE_SIZE_OPTIONS.filter(size => size <= requested).pop() ?? PAGE_SIZE_OPTIONS[0];
+  }
+
+  private parseNumber(value: string | null, min: number): number | undefined {
+    if (value === null || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isInteger(parsed) && parsed >= min ? parsed : undefined;
+  }
+}
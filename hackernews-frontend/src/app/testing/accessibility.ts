@@ -0,0 +1,18 @@
+import axe from 'axe-core';
+
+/** Rules about the page as a whole, which a component rendered on its own can't pass. */
+const PAGE_LEVEL_RULES = ['region', 'landmark-one-main', 'page-has-heading-one', 'bypass'];
+
+/**
+ * Runs axe-core against a rendered component in specs. Each violation reads
+ * `rule: <selector>` so a failing expectation points at the markup to fix.
+ */
+export async function findAccessibilityViolations(root: HTMLElement): Promise<string[]> {
+  const results = await axe.run(root, {
+    resultTypes: ['violations'],
+    rules: Object.fromEntries(PAGE_LEVEL_RULES.map(rule => [rule, { enabled: false }]))
+  });
+  return results.violations.flatMap(violation =>
+    violation.nodes.map(node => `${violation.id}: ${node.target.join(' ')}`)
+  );
+}
@@ -0,0 +1,35 @@
+import { Story } from '../models/story.model';
+import { StoryComment } from '../models/comment.model';
+
+/**
+ * A story for specs, posted 2023-01-01 12:00 UTC. Only what a test is about
+ * needs overriding; a story given a `url` has `hasUrl` set to match.
+ */
+export function makeStory(id: number, overrides: Partial<Story> = {}): Story {
+  return {
+    id,
+    title: `Story ${id}`,
+    by: 'author',
+    time: 1672574400,
+    createdAt: '2023-01-01T12:00:00Z',
+    score: 1,
+    type: 'story',
+    hasUrl: overrides.url !== undefined,
+    commentCount: 0,
+    hackerNewsUrl: `https://news.ycombinator.com/item?id=${id}`,
+    ...overrides
+  };
+}
+
+/** A live comment on story 1 for specs, posted at the same time as `makeStory`'s stories. */
+export function makeComment(id: number, overrides: Partial<StoryComment> = {}): StoryComment {
+  return {
+    id,
+    by: `user${id}`,
+    text: `<p>Comment ${id}</p>`,
+    time: 1672574400,
+    parent: 1,
+    type: 'comment',
+    ...overrides
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Date filter values are kept as written, so saved searches and links stay
+ * relative, and are resolved in the browser's time zone when a search runs:
+ * - relative to now: `-24h`, `-7d`, `-2w`, `-3m` (months), `-1y`
+ * - calendar anchors: `now`, `today`, `yesterday`, `month` (this month), `year` (this year)
+ * - a local day, `2025-01-31`, or hour, `2025-01-31T14` or `2025-01-31T14:00`
+ * - an exact moment with its zone, `2025-01-31T14:30:00Z`
+ * As a `from` bound a day or hour starts at its first moment; as a `to`
+ * bound it lasts until its last one, so `today` to `today` covers the whole day.
+ */
+
+import { AbstractControl, ValidationErrors } from '@angular/forms';
+
+export type DateBound = 'from' | 'to';
+
+export interface DatePreset {
+  label: string;
+  fromDate: string;
+  toDate?: string;
+}
+
+export const DATE_PRESETS: DatePreset[] = [
+  { label: 'Last 24 hours', fromDate: '-24h' },
+  { label: 'Today', fromDate: 'today' },
+  { label: 'Yesterday', fromDate: 'yesterday', toDate: 'yesterday' },
+  { label: 'Past week', fromDate: '-7d' },
+  { label: 'This month', fromDate: 'month' },
+  { label: 'Past year', fromDate: '-1y' }
+];
+
+const RELATIVE_PATTERN = /^-(\d{1,4})([hdwmy])$/;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HOUR_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2})(?::00)?$/;
+const INSTANT_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:\d{2})$/;
+
+export function isDateFilterValue(value: string): boolean {
+  return resolveDateFilter(value, 'from') !== null;
+}
+
+/** The moment a filter value stands for, or null when it isn't one. */
+export function resolveDateFilter(value: string, bound: DateBound, now: Date = new Date()): Date | null {
+  const normalized = value.trim().toLowerCase();
+  const [year, month, day, hour] = [now.getFullYear(), now.getMonth(), now.getDate(), now.getHours()];
+
+  const relative = RELATIVE_PATTERN.exec(normalized);
+  if (relative) {
+    const amount = Number(relative[1]);
+    switch (relative[2]) {
+      case 'h': return new Date(now.getTime() - amount * 60 * 60 * 1000);
+      // Calendar arithmetic keeps the time of day across daylight saving changes
+      case 'd': return new Date(year, month, day - amount, hour, now.getMinutes(), now.getSeconds());
+      case 'w': return new Date(year, month, day - amount * 7, hour, now.getMinutes(), now.getSeconds());
+      case 'm': return new Date(year, month - amount, day, hour, now.getMinutes(), now.getSeconds());
+      default: return new Date(year - amount, month, day, hour, now.getMinutes(), now.getSeconds());
+    }
+  }
+
+  switch (normalized) {
+    case 'now': return new Date(now.getTime());
+    case 'today': return span(bound, new Date(year, month, day), new Date(year, month, day + 1));
+    case 'yesterday': return span(bound, new Date(year, month, day - 1), new Date(year, month, day));
+    case 'month': return span(bound, new Date(year, month, 1), new Date(year, month + 1, 1));
+    case 'year': return span(bound, new Date(year, 0, 1), new Date(year + 1, 0, 1));
+  }
+
+  const dayMatch = DAY_PATTERN.exec(normalized);
+  if (dayMatch) {
+    const [y, m, d] = dayMatch.slice(1).map(Number);
+    return isCalendarDate(y, m, d) ? span(bound, new Date(y, m - 1, d), new Date(y, m - 1, d + 1)) : null;
+  }
+
+  const hourMatch = HOUR_PATTERN.exec(value.trim().toUpperCase());
+  if (hourMatch) {
+    const [y, m, d, h] = hourMatch.slice(1).map(Number);
+    return isCalendarDate(y, m, d) && h < 24 ? span(bound, new Date(y, m - 1, d, h), new Date(y, m - 1, d, h + 1)) : null;
+  }
+
+  if (INSTANT_PATTERN.test(value.trim().toUpperCase())) {
+    const instant = new Date(value.trim());
+    return isNaN(instant.getTime()) ? null : instant;
+  }
+
+  return null;
+}
+
+/** Empty date fields are fine; anything typed must be a value `resolveDateFilter` understands. */
+export function dateFilterValidator(control: AbstractControl): ValidationErrors | null {
+  const value: string | null = control.value;
+  return !value?.trim() || isDateFilterValue(value) ? null : { dateFilter: true };
+}
+
+/** A local calendar day as a filter value, e.g. `2025-01-31`. */
+export function toDayValue(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** The preset whose values match `fromDate` and `toDate`, if any. */
+export function findDatePreset(fromDate: string | null | undefined, toDate: string | null | undefined): DatePreset | undefined {
+  return DATE_PRESETS.find(preset =>
+    preset.fromDate === (fromDate?.trim() || undefined) && preset.toDate === (toDate?.trim() || undefined)
+  );
+}
+
+/** The start of a period, or as an end bound the last millisecond before `end`. */
+function span(bound: DateBound, start: Date, end: Date): Date {
+  return bound === 'from' ? start : new Date(end.getTime() - 1);
+}
+
+/** Rejects days such as 02-31, which Date would roll over into March. */
+function isCalendarDate(year: number, month: number, day: number): boolean {
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
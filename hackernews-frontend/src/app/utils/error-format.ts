@@ -0,0 +1,119 @@
+import { ApiErrorKind, isApiError } from '../models/api-error.model';
+import { AppLocale } from '../models/preferences.model';
+import { isSearchTooBroadError } from '../models/story.model';
+import { MessageParams, translate } from '../i18n/translate';
+
+/**
+ * What the error state offers: try the same request again, back out of the
+ * search or page that caused it, or reload the app.
+ */
+export type ErrorRecovery = 'retry' | 'reset' | 'reload';
+
+export interface ErrorDisplay {
+  kind: ApiErrorKind | 'tooBroad' | 'unknown';
+  icon: string;
+  message: string;
+  recovery: ErrorRecovery;
+  /** Correlation id of the failed request, shown for server-side failures so they can be reported. */
+  reference?: string;
+}
+
+/** What failed to load. Each has whole sentences of its own, so translations never splice a noun in. */
+export type LoadSubject = 'stories' | 'story';
+
+interface LoadErrorMessages {
+  unknown: string;
+  network: string;
+  timeout: string;
+  notFound: string;
+  rejected: string;
+  rejectedWithDetail: string;
+  server: string;
+  parse: string;
+}
+
+const LOAD_ERROR_MESSAGES: Record<LoadSubject, LoadErrorMessages> = {
+  stories: {
+    unknown: 'Failed to load stories. Please try again.',
+    network: 'Couldn\'t reach the server to load stories. Check your connection and try again.',
+    timeout: 'The server took too long to send stories. It may be busy, so try again in a moment.',
+    notFound: 'The stories could not be found.',
+    rejected: 'The server rejected the request for stories.',
+    rejectedWithDetail: 'The server rejected the request for stories: {detail}',
+    server: 'The server ran into a problem loading stories (error {status}). Try again in a moment.',
+    parse: 'The server sent stories in a form the app can\'t read. Reloading the page usually fixes this.'
+  },
+  story: {
+    unknown: 'Failed to load story. Please try again.',
+    network: 'Couldn\'t reach the server to load the story. Check your connection and try again.',
+    timeout: 'The server took too long to send the story. It may be busy, so try again in a moment.',
+    notFound: 'The story could not be found.',
+    rejected: 'The server rejected the request for the story.',
+    rejectedWithDetail: 'The server rejected the request for the story: {detail}',
+    server: 'The server ran into a problem loading the story (error {status}). Try again in a moment.',
+    parse: 'The server sent the story in a form the app can\'t read. Reloading the page usually fixes this.'
+  }
+};
+
+/** Message in `locale` and recovery action for a failed load of `subject`. */
+export function describeLoadError(err: unknown, subject: LoadSubject, locale: AppLocale = 'en'): ErrorDisplay {
+  const messages = LOAD_ERROR_MESSAGES[subject];
+  const t = (text: string, params?: MessageParams) => translate(locale, text, params);
+
+  if (isSearchTooBroadError(err)) {
+    return {
+      kind: err.kind,
+      icon: 'filter_alt_off',
+      message: t(
+        'This search needs {combinations} author and domain pairs, but at most {limit} can be searched at once. Remove some authors or domains and try again.',
+        { combinations: err.combinations, limit: err.limit }
+      ),
+      recovery: 'reset'
+    };
+  }
+  if (!isApiError(err)) {
+    return { kind: 'unknown', icon: 'error', message: t(messages.unknown), recovery: 'retry' };
+  }
+
+  switch (err.kind) {
+    case 'network':
+      return { kind: err.kind, icon: 'wifi_off', message: t(messages.network), recovery: 'retry' };
+    case 'timeout':
+      return { kind: err.kind, icon: 'hourglass_empty', message: t(messages.timeout), recovery: 'retry' };
+    case 'client':
+      if (err.status === 404) {
+        return { kind: err.kind, icon: 'search_off', message: t(messages.notFound), recovery: 'reset' };
+      }
+      if (err.status === 429) {
+        return {
+          kind: err.kind,
+          icon: 'speed',
+          message: t('Too many requests in a short time. Wait a moment and try again.'),
+          recovery: 'retry'
+        };
+      }
+      return {
+        kind: err.kind,
+        icon: 'report',
+        message: err.detail ? t(messages.rejectedWithDetail, { detail: err.detail }) : t(messages.rejected),
+        recovery: 'reset'
+      };
+    case 'server':
+      return {
+        kind: err.kind,
+        icon: 'cloud_off',
+        // A string, so the status code isn't grouped like an amount
+        message: t(messages.server, { status: String(err.status) }),
+        recovery: 'retry',
+        ...(err.correlationId ? { reference: err.correlationId } : {})
+      };
+    case 'parse':
+      return {
+        kind: err.kind,
+        icon: 'broken_image',
+        message: t(messages.parse),
+        recovery: 'reload',
+        ...(err.correlationId ? { reference: err.correlationId } : {})
+      };
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Formatting helpers shared by every view that renders stories or comments.
+ */
+
+import { Story } from '../models/story.model';
+import { AppLocale } from '../models/preferences.model';
+import { translate } from '../i18n/translate';
+
+/** Comments a story needs before it can count as a hot discussion. */
+export const HOT_DISCUSSION_MIN_COMMENTS = 20;
+
+/** Comments per point from which a story is argued about more than it is upvoted. */
+export const HOT_DISCUSSION_MIN_RATIO = 1;
+
+/** After this a thread has usually run its course, however busy it was. */
+export const HOT_DISCUSSION_MAX_AGE_HOURS = 24;
+
+const relativeTimeFormats = new Map<AppLocale, Intl.RelativeTimeFormat>();
+
+function relativeTimeFormat(locale: AppLocale): Intl.RelativeTimeFormat {
+  let format = relativeTimeFormats.get(locale);
+  if (!format) {
+    format = new Intl.RelativeTimeFormat(locale, { style: 'narrow', numeric: 'always' });
+    relativeTimeFormats.set(locale, format);
+  }
+  return format;
+}
+
+/** How long ago `date` was, e.g. "3h ago" or "vor 3 Std."; numbers are Unix timestamps in seconds. */
+export function formatTimeAgo(date: Date | string | number, locale: AppLocale = 'en'): string {
+  const now = new Date();
+  let targetDate: Date;
+  
+  if (typeof date === 'number') {
+    // Unix timestamp (in seconds), convert to milliseconds
+    targetDate = new Date(date * 1000);
+  } else if (typeof date === 'string') {
+    targetDate = new Date(date);
+  } else {
+    targetDate = date;
+  }
+  
+  // Handle invalid dates
+  if (isNaN(targetDate.getTime())) {
+    return translate(locale, 'unknown');
+  }
+  
+  const format = relativeTimeFormat(locale);
+  const diffInMinutes = Math.floor((now.getTime() - targetDate.getTime()) / (1000 * 60));
+  
+  if (diffInMinutes < 1) return translate(locale, 'just now');
+  if (diffInMinutes < 60) return format.format(-diffInMinutes, 'minute');
+  
+  const diffInHours = Math.floor(diffInMinutes / 60);
+  if (diffInHours < 24) return format.format(-diffInHours, 'hour');
+  
+  const diffInDays = Math.floor(diffInHours / 24);
+  if (diffInDays < 30) return format.format(-diffInDays, 'day');
+  
+  const diffInMonths = Math.floor(diffInDays / 30);
+  if (diffInMonths < 12) return format.format(-diffInMonths, 'month');
+  
+  const diffInYears = Math.floor(diffInMonths / 12);
+  return format.format(-diffInYears, 'year');
+}
+
+/**
+ * Date and time in `locale`, e.g. "Mar 3, 2025, 2:30 PM", or in the browser's
+ * locale when none is given; numbers are Unix timestamps in seconds.
+ */
+export function formatDateTime(date: Date | string | number, locale?: AppLocale): string {
+  const targetDate = typeof date === 'number' ? new Date(date * 1000) : new Date(date);
+  if (isNaN(targetDate.getTime())) {
+    return translate(locale ?? 'en', 'unknown');
+  }
+  return targetDate.toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function getDomainFromUrl(url: string | undefined): string {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return '';
+  }
+}
+
+/** Whether `domain` is `host` itself or one of its subdomains, e.g. gist.github.com for github.com. */
+export function isSameOrSubdomain(domain: string, host: string): boolean {
+  const normalizedDomain = domain.toLowerCase();
+  const normalizedHost = host.toLowerCase();
+  return normalizedDomain === normalizedHost || normalizedDomain.endsWith(`.${normalizedHost}`);
+}
+
+/** Whether `url` is on `host` or one of its subdomains. Site pages and domain mutes both match this way. */
+export function isFromSite(url: string | undefined, host: string): boolean {
+  const domain = getDomainFromUrl(url);
+  return !!domain && isSameOrSubdomain(domain, host);
+}
+
+/**
+ * Whether a story is drawing an unusually lively discussion: at least as many
+ * comments as points, enough of them to matter, and still recent.
+ */
+export function isHotDiscussion(story: Story, now: number = Date.now()): boolean {
+  const ageInHours = (now - story.time * 1000) / (60 * 60 * 1000);
+  return story.commentCount >= HOT_DISCUSSION_MIN_COMMENTS
+    && story.commentCount / Math.max(story.score, 1) >= HOT_DISCUSSION_MIN_RATIO
+    && ageInHours <= HOT_DISCUSSION_MAX_AGE_HOURS;
+}
@@ -2,5 +2,6 @@
 export const environment = {
   production: true,
   apiUrl: 'https://hackernewsapigreen-djgchbfwf6ead2hf.canadacentral-01.azurewebsites.net/api',
+  hackerNewsItemApiUrl: 'https://hacker-news.firebaseio.com/v0',
   environmentName: 'Azure Production'
 };
\ No newline at end of file
@@ -2,5 +2,6 @@
 export const environment = {
   production: false,
   apiUrl: 'https://localhost:7070/api',
+  hackerNewsItemApiUrl: 'https://hacker-news.firebaseio.com/v0',
   environmentName: 'Local Development'
 };
\ No newline at end of file